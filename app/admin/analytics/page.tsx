@@ -0,0 +1,416 @@
+// app/admin/analytics/page.tsx
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState, useSyncExternalStore } from "react";
+import {
+  readStaffSignedIn,
+  staffSignOut,
+  StaffSignIn,
+} from "@/components/StaffSignIn";
+import { describeApiError, readApiError } from "@/lib/api/client";
+import type { AnalyticsSummary } from "@/lib/api/contracts";
+import { topicLabel } from "@/lib/analytics/topics";
+import { languageLabel } from "@/lib/language/languages";
+
+const ANALYTICS_ROUTE = "/api/analytics";
+const SESSION_ROUTE = "/api/analytics/session";
+
+// Quick picks, in days ending today
+const PRESETS = [7, 30, 90];
+
+// Days are counted in the browser's time zone
+const TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+type Result = {
+  // Query string the result belongs to
+  key: string;
+  summary: AnalyticsSummary | null;
+  error: string;
+};
+
+// Local calendar day (YYYY-MM-DD), `daysAgo` days before today
+function localDay(daysAgo = 0): string {
+  const date = new Date();
+  date.setDate(date.getDate() - daysAgo);
+  return date.toLocaleDateString("en-CA");
+}
+
+// Nothing to subscribe to: only tells the server render from the browser's
+const subscribeNothing = () => () => {};
+
+function formatMs(ms: number | null): string {
+  if (ms === null) return "—";
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${ms} ms`;
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? "—" : `${(rate * 100).toFixed(1)}%`;
+}
+
+// How customers use the assistant: which dialects, what about, how fast,
+// how often voice input fails and whether replies helped
+export default function AnalyticsPage() {
+  // The default range and time zone are the browser's, so the dashboard is
+  // left out of the server render
+  const hydrated = useSyncExternalStore(
+    subscribeNothing,
+    () => true,
+    () => false
+  );
+  // null until the sign-in check comes back
+  const [signedIn, setSignedIn] = useState<boolean | null>(null);
+  // Stable, as the dashboard's fetch effect depends on it
+  const signedOut = useCallback(() => setSignedIn(false), []);
+
+  useEffect(() => {
+    readStaffSignedIn(SESSION_ROUTE).then(setSignedIn);
+  }, []);
+
+  async function signOut() {
+    await staffSignOut(SESSION_ROUTE);
+    setSignedIn(false);
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-950 to-slate-900 text-slate-100 flex items-center justify-center px-4 py-8">
+      <div className="w-full max-w-5xl bg-slate-900/70 border border-slate-700/60 rounded-3xl shadow-2xl backdrop-blur-xl overflow-hidden flex flex-col h-[85vh]">
+        {/* Header */}
+        <header className="border-b border-slate-700/60 px-6 py-4 flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold tracking-tight">
+              Conversation analytics
+            </h1>
+            <p className="text-xs text-slate-400 mt-1">
+              Dialects, topics, response times and voice recognition across
+              customer chats, by day in your time zone.
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            {signedIn && (
+              <button
+                type="button"
+                onClick={signOut}
+                className="text-xs text-slate-400 hover:text-slate-200"
+              >
+                Sign out
+              </button>
+            )}
+            <Link
+              href="/"
+              className="text-xs text-emerald-300 hover:text-emerald-200"
+            >
+              ← Customer chat
+            </Link>
+          </div>
+        </header>
+
+        {signedIn === false && (
+          <StaffSignIn
+            route={SESSION_ROUTE}
+            tokenLabel="Analytics token"
+            purpose="see the dashboard"
+            service="Analytics"
+            onSignedIn={() => setSignedIn(true)}
+          />
+        )}
+        {hydrated && signedIn && (
+          <AnalyticsDashboard onSignedOut={signedOut} />
+        )}
+      </div>
+    </main>
+  );
+}
+
+function AnalyticsDashboard({
+  onSignedOut,
+}: {
+  // The sign-in expired or was revoked
+  onSignedOut(): void;
+}) {
+  const [from, setFrom] = useState(() => localDay(PRESETS[0] - 1));
+  const [to, setTo] = useState(() => localDay());
+  const [result, setResult] = useState<Result | null>(null);
+
+  const key = new URLSearchParams({ from, to, timeZone: TIME_ZONE }).toString();
+  const loading = result?.key !== key;
+  const summary = result?.summary ?? null;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch(`${ANALYTICS_ROUTE}?${key}`, { signal: controller.signal })
+      .then(async (res) => {
+        if (!res.ok) {
+          const apiError = await readApiError(res, "Analytics request failed");
+          if (apiError.code === "UNAUTHORIZED") {
+            onSignedOut();
+            return;
+          }
+          setResult({
+            key,
+            summary: null,
+            error: describeApiError(apiError, "Analytics"),
+          });
+          return;
+        }
+        setResult({
+          key,
+          summary: (await res.json()) as AnalyticsSummary,
+          error: "",
+        });
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error("analytics request error", err);
+        setResult({
+          key,
+          summary: null,
+          error: "Could not reach the analytics service.",
+        });
+      });
+    return () => controller.abort();
+  }, [key, onSignedOut]);
+
+  return (
+    <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+      {/* Date range */}
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <label className="flex items-center gap-2 text-slate-300">
+          From
+          <input
+            type="date"
+            value={from}
+            max={to}
+            onChange={(e) => e.target.value && setFrom(e.target.value)}
+            className="rounded-lg border border-slate-600 bg-slate-900 px-2 py-1 outline-none focus:ring-1 focus:ring-emerald-400/70"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-slate-300">
+          To
+          <input
+            type="date"
+            value={to}
+            min={from}
+            onChange={(e) => e.target.value && setTo(e.target.value)}
+            className="rounded-lg border border-slate-600 bg-slate-900 px-2 py-1 outline-none focus:ring-1 focus:ring-emerald-400/70"
+          />
+        </label>
+        {PRESETS.map((days) => (
+          <button
+            key={days}
+            type="button"
+            onClick={() => {
+              setFrom(localDay(days - 1));
+              setTo(localDay());
+            }}
+            className="rounded-full px-3 py-1 border border-slate-600 text-slate-300 hover:text-emerald-300"
+          >
+            Last {days} days
+          </button>
+        ))}
+        {loading && <span className="text-slate-500">Loading...</span>}
+      </div>
+
+      {result?.error && (
+        <p className="text-xs text-red-400">{result.error}</p>
+      )}
+
+      {summary && (
+        <div className={`space-y-6 ${loading ? "opacity-60" : ""}`}>
+          {/* Totals */}
+          <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+            <Stat
+              label="Exchanges"
+              value={String(summary.exchanges)}
+              note={
+                summary.exchanges > 0
+                  ? `${Math.round((summary.voiceExchanges / summary.exchanges) * 100)}% by voice`
+                  : undefined
+              }
+            />
+            <Stat
+              label="Avg response time"
+              value={formatMs(summary.avgLatencyMs)}
+              note="Until the whole reply was sent"
+            />
+            <Stat
+              label="ASR failure rate"
+              value={formatRate(summary.asr.failureRate)}
+              note={`${summary.asr.failures} of ${summary.asr.attempts} transcriptions`}
+            />
+            <Stat
+              label="Feedback"
+              value={`👍 ${summary.feedback.up} · 👎 ${summary.feedback.down}`}
+            />
+          </div>
+
+          <div className="grid gap-6 md:grid-cols-2">
+            <Section title="Volume by dialect">
+              <BarList
+                rows={summary.languages.map((row) => ({
+                  key: row.language ?? "unknown",
+                  label: row.language
+                    ? languageLabel(row.language)
+                    : "Not detected",
+                  value: row.exchanges,
+                  note: `${row.selected} selected · ${row.voice} by voice`,
+                }))}
+              />
+            </Section>
+
+            <Section title="Top topics">
+              <BarList
+                rows={summary.topics.map((row) => ({
+                  key: row.topic,
+                  label: topicLabel(row.topic),
+                  value: row.exchanges,
+                  note:
+                    row.up || row.down ? `👍 ${row.up} · 👎 ${row.down}` : "",
+                }))}
+              />
+            </Section>
+          </div>
+
+          <Section title="Exchanges per day">
+            <DailyBars
+              days={summary.days}
+              value={(day) => day.exchanges}
+              format={(v) => String(v ?? 0)}
+            />
+          </Section>
+
+          <div className="grid gap-6 md:grid-cols-2">
+            <Section title="Average response time">
+              <DailyBars
+                days={summary.days}
+                value={(day) => day.avgLatencyMs}
+                format={formatMs}
+              />
+            </Section>
+
+            <Section title="ASR failure rate">
+              <DailyBars
+                days={summary.days}
+                value={(day) =>
+                  day.asrAttempts > 0 ? day.asrFailures / day.asrAttempts : null
+                }
+                format={formatRate}
+                tone="bg-amber-400/80"
+              />
+            </Section>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Stat({
+  label,
+  value,
+  note,
+}: {
+  label: string;
+  value: string;
+  note?: string;
+}) {
+  return (
+    <div className="rounded-2xl border border-slate-700/70 bg-slate-800/40 px-4 py-3">
+      <p className="text-[10px] uppercase tracking-[0.2em] text-slate-400">
+        {label}
+      </p>
+      <p className="mt-1 text-lg font-semibold">{value}</p>
+      {note && <p className="text-[10px] text-slate-500">{note}</p>}
+    </div>
+  );
+}
+
+function Section({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <section className="space-y-2">
+      <h2 className="text-xs uppercase tracking-[0.2em] text-slate-400">
+        {title}
+      </h2>
+      {children}
+    </section>
+  );
+}
+
+// Horizontal bars, scaled to the largest row
+function BarList({
+  rows,
+}: {
+  rows: { key: string; label: string; value: number; note: string }[];
+}) {
+  if (rows.length === 0) {
+    return <p className="text-xs text-slate-500">No exchanges in this range.</p>;
+  }
+  const max = Math.max(...rows.map((row) => row.value));
+  return (
+    <ul className="space-y-2">
+      {rows.map((row) => (
+        <li key={row.key} className="text-xs">
+          <div className="flex items-baseline justify-between gap-2">
+            <span className="text-slate-200">{row.label}</span>
+            <span className="text-slate-400">{row.value}</span>
+          </div>
+          <div className="mt-0.5 h-2 rounded-full bg-slate-800">
+            <div
+              className="h-2 rounded-full bg-emerald-400/80"
+              style={{ width: `${(row.value / max) * 100}%` }}
+            />
+          </div>
+          {row.note && <p className="text-[10px] text-slate-500">{row.note}</p>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// One column per day; days without data (null) are left empty
+function DailyBars({
+  days,
+  value,
+  format,
+  tone = "bg-emerald-400/80",
+}: {
+  days: AnalyticsSummary["days"];
+  value(day: AnalyticsSummary["days"][number]): number | null;
+  format(value: number | null): string;
+  tone?: string;
+}) {
+  const values = days.map(value);
+  const max = Math.max(0, ...values.map((v) => v ?? 0));
+  return (
+    <div>
+      <div className="flex h-32 items-end gap-px rounded-xl bg-slate-800/40 px-1 pt-2">
+        {days.map((day, i) => {
+          const v = values[i];
+          return (
+            <div
+              key={day.date}
+              title={`${day.date}: ${format(v)}`}
+              className="flex-1 h-full flex items-end"
+            >
+              <div
+                className={`w-full rounded-t ${tone}`}
+                style={{ height: v && max > 0 ? `${(v / max) * 100}%` : 0 }}
+              />
+            </div>
+          );
+        })}
+      </div>
+      <div className="mt-1 flex justify-between text-[10px] text-slate-500">
+        <span>{days[0]?.date}</span>
+        <span>peak {format(max > 0 ? max : null)}</span>
+        <span>{days[days.length - 1]?.date}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,378 @@
+// app/agent/page.tsx
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import {
+  readStaffSignedIn,
+  staffSignOut,
+  StaffSignIn,
+} from "@/components/StaffSignIn";
+import { describeApiError, readApiError } from "@/lib/api/client";
+import {
+  HANDOFF_LIMITS,
+  type AgentClaimRequest,
+  type AgentStreamEvent,
+  type HandoffMessageRequest,
+} from "@/lib/api/contracts";
+import type {
+  Handoff,
+  HandoffMessage,
+  HandoffStatus,
+} from "@/lib/handoff/types";
+import { languageLabel } from "@/lib/language/languages";
+
+const SESSION_ROUTE = "/api/agent/session";
+
+const STATUS_STYLES: Record<HandoffStatus, string> = {
+  queued: "bg-amber-900/60 text-amber-300 animate-pulse",
+  active: "bg-sky-900/60 text-sky-300",
+  closed: "bg-slate-700 text-slate-400",
+};
+
+const ROLE_LABELS: Record<HandoffMessage["role"], string> = {
+  user: "Customer",
+  assistant: "Assistant",
+  agent: "Agent",
+};
+
+// Queued first, then active, then closed; oldest first within each
+const STATUS_ORDER: HandoffStatus[] = ["queued", "active", "closed"];
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString(undefined, {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+// Live queue of conversations the assistant handed over, for human agents
+export default function AgentConsolePage() {
+  // null until the sign-in check comes back
+  const [signedIn, setSignedIn] = useState<boolean | null>(null);
+  const [handoffs, setHandoffs] = useState<Handoff[]>([]);
+  const [connected, setConnected] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [agentName, setAgentName] = useState("");
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const [errorText, setErrorText] = useState("");
+
+  useEffect(() => {
+    readStaffSignedIn(SESSION_ROUTE).then(setSignedIn);
+  }, []);
+
+  useEffect(() => {
+    if (!signedIn) return;
+    const source = new EventSource("/api/agent/events");
+    source.onopen = () => setConnected(true);
+    source.onerror = () => {
+      setConnected(false);
+      // The browser gives up on a refused stream, e.g. once the sign-in
+      // expired; find out whether to show the sign-in form again
+      if (source.readyState === EventSource.CLOSED) {
+        readStaffSignedIn(SESSION_ROUTE).then(setSignedIn);
+      }
+    };
+    source.onmessage = (e) => {
+      const event = JSON.parse(e.data) as AgentStreamEvent;
+      if (event.type === "snapshot") {
+        setHandoffs(event.handoffs);
+        return;
+      }
+      const { handoff } = event;
+      setHandoffs((prev) =>
+        prev.some((h) => h.conversationId === handoff.conversationId)
+          ? prev.map((h) =>
+              h.conversationId === handoff.conversationId ? handoff : h
+            )
+          : [...prev, handoff]
+      );
+    };
+    return () => source.close();
+  }, [signedIn]);
+
+  const sorted = [...handoffs].sort(
+    (a, b) =>
+      STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) ||
+      a.createdAt.localeCompare(b.createdAt)
+  );
+  const selected = handoffs.find((h) => h.conversationId === selectedId) ?? null;
+  const waiting = handoffs.filter((h) => h.status === "queued").length;
+  const isMine =
+    selected?.status === "active" && selected.agentName === agentName.trim();
+
+  // POST an agent action; the SSE feed delivers the resulting change
+  async function agentAction(path: string, body?: unknown): Promise<boolean> {
+    if (!selected) return false;
+    setErrorText("");
+    try {
+      const res = await fetch(
+        `/api/agent/handoffs/${encodeURIComponent(selected.conversationId)}/${path}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body ?? {}),
+        }
+      );
+      if (!res.ok) {
+        const error = await readApiError(res, "Request failed");
+        if (error.code === "UNAUTHORIZED") setSignedIn(false);
+        setErrorText(describeApiError(error, "The agent console"));
+        return false;
+      }
+      return true;
+    } catch (err) {
+      console.error("agent action error", path, err);
+      setErrorText("Network request failed. Please try again.");
+      return false;
+    }
+  }
+
+  async function signOut() {
+    await staffSignOut(SESSION_ROUTE);
+    setHandoffs([]);
+    setSelectedId(null);
+    setSignedIn(false);
+  }
+
+  const claim = () =>
+    agentAction("claim", {
+      agentName: agentName.trim(),
+    } satisfies AgentClaimRequest);
+
+  const sendReply = async () => {
+    const content = draft.trim();
+    if (!content || sending) return;
+    setSending(true);
+    const sent = await agentAction("messages", {
+      content,
+    } satisfies HandoffMessageRequest);
+    setSending(false);
+    if (sent) setDraft("");
+  };
+
+  const close = () => agentAction("close");
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-950 to-slate-900 text-slate-100 flex items-center justify-center px-4 py-8">
+      <div className="w-full max-w-6xl bg-slate-900/70 border border-slate-700/60 rounded-3xl shadow-2xl backdrop-blur-xl overflow-hidden flex flex-col h-[85vh]">
+        {/* Header */}
+        <header className="border-b border-slate-700/60 px-6 py-4 flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold tracking-tight">
+              Agent Console
+            </h1>
+            <p className="text-xs text-slate-400 mt-1">
+              Conversations the assistant handed over to a person.{" "}
+              {signedIn && (
+                <span className={connected ? "text-emerald-300" : "text-red-400"}>
+                  {connected ? "● Live" : "● Reconnecting..."}
+                </span>
+              )}
+              {signedIn && waiting > 0 && (
+                <span className="ml-2 text-amber-300">{waiting} waiting</span>
+              )}
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            <label className="text-xs text-slate-300 flex items-center gap-2">
+              Your name
+              <input
+                value={agentName}
+                maxLength={HANDOFF_LIMITS.maxAgentNameChars}
+                onChange={(e) => setAgentName(e.target.value)}
+                placeholder="e.g. Mei Ling"
+                className="rounded-lg border border-slate-600 bg-slate-900 px-2 py-1 text-xs outline-none focus:ring-1 focus:ring-emerald-400/70"
+              />
+            </label>
+            {signedIn && (
+              <button
+                type="button"
+                onClick={signOut}
+                className="text-xs text-slate-400 hover:text-slate-200"
+              >
+                Sign out
+              </button>
+            )}
+            <Link
+              href="/"
+              className="text-xs text-emerald-300 hover:text-emerald-200"
+            >
+              ← Customer chat
+            </Link>
+          </div>
+        </header>
+
+        {signedIn === false ? (
+          <StaffSignIn
+            route={SESSION_ROUTE}
+            tokenLabel="Agent token"
+            purpose="see handed-over conversations"
+            service="The agent console"
+            onSignedIn={() => {
+              setErrorText("");
+              setSignedIn(true);
+            }}
+          />
+        ) : (
+          <div className="flex-1 flex min-h-0">
+            {/* Queue */}
+            <ul className="w-72 shrink-0 border-r border-slate-700/60 overflow-y-auto px-2 py-2 space-y-1">
+              {sorted.length === 0 && (
+                <li className="px-2 py-3 text-xs text-slate-500">
+                  No conversations have been handed over yet.
+                </li>
+              )}
+              {sorted.map((h) => (
+                <li key={h.conversationId}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(h.conversationId)}
+                    className={`w-full text-left rounded-xl px-3 py-2 ${
+                      h.conversationId === selectedId
+                        ? "bg-slate-800/80"
+                        : "hover:bg-slate-800/40"
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span
+                        className={`rounded-full px-2 py-0.5 text-[10px] ${STATUS_STYLES[h.status]}`}
+                      >
+                        {h.status}
+                      </span>
+                      <span className="text-[10px] text-slate-500">
+                        {formatTime(h.createdAt)}
+                      </span>
+                    </div>
+                    <p className="mt-1 text-xs text-slate-200 truncate">
+                      {h.reason}
+                    </p>
+                    <p className="text-[10px] text-slate-500">
+                      {h.language ? languageLabel(h.language) : "Language unknown"}
+                      {" · "}
+                      {h.trigger === "model" ? "flagged by assistant" : "rule"}
+                      {h.agentName && ` · ${h.agentName}`}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {/* Transcript and reply */}
+            <section className="flex-1 min-w-0 flex flex-col">
+              {!selected ? (
+                <div className="flex-1 flex items-center justify-center text-sm text-slate-500">
+                  Select a conversation from the queue.
+                </div>
+              ) : (
+                <>
+                  <div className="border-b border-slate-700/60 px-6 py-3 text-xs text-slate-400">
+                    <span className="text-slate-200">{selected.reason}</span>
+                    {" · "}
+                    {selected.language
+                      ? `Reply in ${languageLabel(selected.language)}`
+                      : "Language unknown"}
+                    {" · "}
+                    <span className="font-mono">{selected.conversationId}</span>
+                  </div>
+
+                  <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+                    {selected.messages.map((message) => (
+                      <div
+                        key={message.id}
+                        className={`flex ${
+                          message.role === "user" ? "justify-start" : "justify-end"
+                        }`}
+                      >
+                        <div
+                          className={`max-w-[80%] rounded-2xl px-4 py-2 text-sm leading-relaxed whitespace-pre-wrap ${
+                            message.role === "user"
+                              ? "bg-slate-800/80 border border-slate-700/70"
+                              : message.role === "agent"
+                              ? "bg-sky-950/80 border border-sky-700/70"
+                              : "bg-slate-900 border border-slate-700/40 text-slate-300"
+                          }`}
+                        >
+                          <p className="mb-1 text-[10px] text-slate-400">
+                            {message.author ?? ROLE_LABELS[message.role]} ·{" "}
+                            {formatTime(message.createdAt)}
+                          </p>
+                          {message.content}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  {errorText && (
+                    <div className="px-6 pb-1 text-xs text-red-400">{errorText}</div>
+                  )}
+
+                  <div className="border-t border-slate-700/60 px-6 py-4 bg-slate-900/80">
+                    {selected.status === "queued" && (
+                      <button
+                        type="button"
+                        onClick={claim}
+                        disabled={!agentName.trim()}
+                        title={agentName.trim() ? undefined : "Enter your name first"}
+                        className="rounded-2xl px-4 py-2 text-sm font-medium bg-emerald-500 text-slate-900 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-emerald-400 transition-colors"
+                      >
+                        Take conversation
+                      </button>
+                    )}
+
+                    {selected.status === "active" && !isMine && (
+                      <p className="text-xs text-slate-400">
+                        Being handled by {selected.agentName}.
+                      </p>
+                    )}
+
+                    {isMine && (
+                      <div className="flex items-end gap-3">
+                        <textarea
+                          className="flex-1 resize-none rounded-2xl border border-slate-600 bg-slate-900/80 px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-emerald-400/70 max-h-32 min-h-[48px]"
+                          placeholder="Reply to the customer..."
+                          value={draft}
+                          maxLength={HANDOFF_LIMITS.maxMessageChars}
+                          onChange={(e) => setDraft(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter" && !e.shiftKey) {
+                              e.preventDefault();
+                              sendReply();
+                            }
+                          }}
+                        />
+                        <button
+                          type="button"
+                          onClick={sendReply}
+                          disabled={!draft.trim() || sending}
+                          className="rounded-2xl px-4 py-2 text-sm font-medium bg-emerald-500 text-slate-900 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-emerald-400 transition-colors"
+                        >
+                          Send
+                        </button>
+                        <button
+                          type="button"
+                          onClick={close}
+                          className="rounded-2xl px-4 py-2 text-sm font-medium border border-red-400 text-red-300 bg-red-950/40 hover:bg-red-900/40 transition-colors"
+                        >
+                          End chat
+                        </button>
+                      </div>
+                    )}
+
+                    {selected.status === "closed" && (
+                      <p className="text-xs text-slate-400">
+                        This handoff has ended; the assistant is answering the
+                        customer again.
+                      </p>
+                    )}
+                  </div>
+                </>
+              )}
+            </section>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,27 @@
+// app/api/agent/events/route.ts
+import { NextRequest } from "next/server";
+import type { AgentStreamEvent } from "@/lib/api/contracts";
+import { errorResponse, toApiError } from "@/lib/api/errors";
+import { instrumentRoute } from "@/lib/api/instrument";
+import { listHandoffs, sseResponse, subscribeHandoffs } from "@/lib/handoff";
+import { requireStaff } from "@/lib/session";
+
+export const runtime = "nodejs";
+
+const ROUTE = "/api/agent/events";
+
+// Agent console feed: every handoff now, then each one again as it changes
+export const GET = instrumentRoute(ROUTE, async (req: NextRequest) => {
+  try {
+    requireStaff(req, "agent");
+  } catch (err) {
+    return errorResponse(toApiError(err, ROUTE));
+  }
+  return sseResponse(req.signal, (send) => {
+    const emit = (event: AgentStreamEvent) => send(event);
+    emit({ type: "snapshot", handoffs: listHandoffs() });
+    return subscribeHandoffs((change) =>
+      emit({ type: "handoff", handoff: change.handoff })
+    );
+  });
+});
@@ -0,0 +1,29 @@
+// app/api/agent/handoffs/[conversationId]/claim/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError, errorResponse, toApiError } from "@/lib/api/errors";
+import { instrumentRoute } from "@/lib/api/instrument";
+import { parseAgentClaim } from "@/lib/api/validate";
+import { claimHandoff } from "@/lib/handoff";
+import { requireStaff } from "@/lib/session";
+
+export const runtime = "nodejs";
+
+const ROUTE = "/api/agent/handoffs/[conversationId]/claim";
+
+type Params = { params: Promise<{ conversationId: string }> };
+
+// Agent joins the conversation; the customer sees their name
+export const POST = instrumentRoute(ROUTE, async (req: NextRequest, { params }: Params) => {
+  const { conversationId } = await params;
+
+  try {
+    requireStaff(req, "agent");
+    const body = await req.json().catch(() => {
+      throw new ApiError("VALIDATION_ERROR", "Request body must be JSON");
+    });
+    const { agentName } = parseAgentClaim(body);
+    return NextResponse.json(claimHandoff(conversationId, agentName));
+  } catch (err) {
+    return errorResponse(toApiError(err, ROUTE));
+  }
+});
@@ -0,0 +1,24 @@
+// app/api/agent/handoffs/[conversationId]/close/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, toApiError } from "@/lib/api/errors";
+import { instrumentRoute } from "@/lib/api/instrument";
+import { closeHandoff } from "@/lib/handoff";
+import { requireStaff } from "@/lib/session";
+
+export const runtime = "nodejs";
+
+const ROUTE = "/api/agent/handoffs/[conversationId]/close";
+
+type Params = { params: Promise<{ conversationId: string }> };
+
+// Agent is done; the assistant answers the customer again
+export const POST = instrumentRoute(ROUTE, async (req: NextRequest, { params }: Params) => {
+  const { conversationId } = await params;
+
+  try {
+    requireStaff(req, "agent");
+    return NextResponse.json(closeHandoff(conversationId));
+  } catch (err) {
+    return errorResponse(toApiError(err, ROUTE));
+  }
+});
@@ -0,0 +1,40 @@
+// app/api/agent/handoffs/[conversationId]/messages/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError, errorResponse, toApiError } from "@/lib/api/errors";
+import { instrumentRoute } from "@/lib/api/instrument";
+import { parseHandoffMessage } from "@/lib/api/validate";
+import { addHandoffMessage, getHandoff } from "@/lib/handoff";
+import { requireStaff } from "@/lib/session";
+
+export const runtime = "nodejs";
+
+const ROUTE = "/api/agent/handoffs/[conversationId]/messages";
+
+type Params = { params: Promise<{ conversationId: string }> };
+
+// Agent reply, pushed to the customer's chat over SSE
+export const POST = instrumentRoute(ROUTE, async (req: NextRequest, { params }: Params) => {
+  const { conversationId } = await params;
+
+  try {
+    requireStaff(req, "agent");
+    const body = await req.json().catch(() => {
+      throw new ApiError("VALIDATION_ERROR", "Request body must be JSON");
+    });
+    const { content } = parseHandoffMessage(body);
+
+    const handoff = getHandoff(conversationId);
+    if (handoff?.status === "queued") {
+      throw new ApiError("CONFLICT", "Take the conversation before replying");
+    }
+    return NextResponse.json(
+      addHandoffMessage(conversationId, {
+        role: "agent",
+        content,
+        author: handoff?.agentName ?? undefined,
+      })
+    );
+  } catch (err) {
+    return errorResponse(toApiError(err, ROUTE));
+  }
+});
@@ -0,0 +1,47 @@
+// app/api/agent/session/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import type { StaffSessionResponse } from "@/lib/api/contracts";
+import { ApiError, errorResponse, toApiError } from "@/lib/api/errors";
+import { instrumentRoute } from "@/lib/api/instrument";
+import { parseStaffLogin } from "@/lib/api/validate";
+import {
+  checkStaffToken,
+  clearStaffCookie,
+  isStaff,
+  setStaffCookie,
+} from "@/lib/session";
+
+export const runtime = "nodejs";
+
+const ROUTE = "/api/agent/session";
+
+export const GET = instrumentRoute(ROUTE, async (req: NextRequest) => {
+  return NextResponse.json({
+    signedIn: isStaff(req, "agent"),
+  } satisfies StaffSessionResponse);
+});
+
+// Exchange AGENT_TOKEN for the console's sign-in cookie
+export const POST = instrumentRoute(ROUTE, async (req: NextRequest) => {
+  try {
+    const body = await req.json().catch(() => {
+      throw new ApiError("VALIDATION_ERROR", "Request body must be JSON");
+    });
+    const { token } = parseStaffLogin(body);
+    if (!checkStaffToken("agent", token)) {
+      throw new ApiError("UNAUTHORIZED", "Wrong agent token");
+    }
+
+    const res = NextResponse.json({ signedIn: true } satisfies StaffSessionResponse);
+    setStaffCookie(req, res, "agent");
+    return res;
+  } catch (err) {
+    return errorResponse(toApiError(err, ROUTE));
+  }
+});
+
+export const DELETE = instrumentRoute(ROUTE, async () => {
+  const res = new NextResponse(null, { status: 204 });
+  clearStaffCookie(res, "agent");
+  return res;
+});
@@ -0,0 +1,33 @@
+// app/api/analytics/feedback/route.ts
+import { NextRequest } from "next/server";
+import { ApiError, errorResponse, toApiError } from "@/lib/api/errors";
+import { instrumentRoute } from "@/lib/api/instrument";
+import { parseFeedback } from "@/lib/api/validate";
+import { rateExchange } from "@/lib/analytics";
+import { enforceRateLimit, type RateLimitLease } from "@/lib/rate-limit";
+
+export const runtime = "nodejs";
+
+const ROUTE = "/api/analytics/feedback";
+
+// Thumbs up/down on a reply. Written before answering, unlike the
+// exchanges themselves, so the browser knows it counted. Only replies this
+// server sent to the same conversation can be rated, and each vote must
+// change the reply's rating.
+export const POST = instrumentRoute(ROUTE, async (req: NextRequest) => {
+  let lease: RateLimitLease | null = null;
+
+  try {
+    lease = await enforceRateLimit(req, "feedback");
+
+    const body = await req.json().catch(() => {
+      throw new ApiError("VALIDATION_ERROR", "Request body must be JSON");
+    });
+    await rateExchange(parseFeedback(body));
+    return new Response(null, { status: 204 });
+  } catch (err) {
+    return errorResponse(toApiError(err, ROUTE));
+  } finally {
+    lease?.release();
+  }
+});
@@ -0,0 +1,24 @@
+// app/api/analytics/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, toApiError } from "@/lib/api/errors";
+import { instrumentRoute } from "@/lib/api/instrument";
+import { parseAnalyticsQuery } from "@/lib/api/validate";
+import { loadAnalyticsSummary } from "@/lib/analytics";
+import { requireStaff } from "@/lib/session";
+
+export const runtime = "nodejs";
+
+const ROUTE = "/api/analytics";
+
+// Dashboard figures for a date range (AnalyticsSummary)
+export const GET = instrumentRoute(ROUTE, async (req: NextRequest) => {
+  try {
+    requireStaff(req, "analytics");
+    const query = parseAnalyticsQuery(req.nextUrl.searchParams);
+    return NextResponse.json(await loadAnalyticsSummary(query), {
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (err) {
+    return errorResponse(toApiError(err, ROUTE));
+  }
+});
@@ -1,86 +1,115 @@
 // app/api/asr/route.ts
 import { NextRequest, NextResponse } from "next/server";
+import { ASR_LIMITS, type AsrResponse } from "@/lib/api/contracts";
+import { recordAsr } from "@/lib/analytics";
+import { ApiError, errorResponse } from "@/lib/api/errors";
+import { instrumentRoute } from "@/lib/api/instrument";
+import { assertUploadSize, parseAsrUpload } from "@/lib/api/validate";
+import { toAsrApiError } from "@/lib/asr";
+import { prepareAudioForAsr } from "@/lib/audio";
+import { redactPii } from "@/lib/guardrails";
+import { detectLanguage } from "@/lib/language/detect";
+import { logger } from "@/lib/logger";
+import { timeBackend } from "@/lib/metrics";
+import { enforceRateLimit, type RateLimitLease } from "@/lib/rate-limit";
+import { upstreamFetch } from "@/lib/upstream";
 
 export const runtime = "nodejs"; // Ensure we run in Node.js environment
 
-export async function POST(req: NextRequest) {
+const ROUTE = "/api/asr";
+
+export const POST = instrumentRoute(ROUTE, async (req: NextRequest) => {
+  const startedAt = performance.now();
+  let lease: RateLimitLease | null = null;
+
   try {
+    // One tab spamming the mic must not saturate the ASR GPU
+    lease = await enforceRateLimit(req, "asr");
+
     const ASR_URL = process.env.ASR_SERVER_URL;
     if (!ASR_URL) {
-      console.error("[/api/asr] ASR_SERVER_URL is not set in env");
-      return NextResponse.json(
-        { error: "ASR_SERVER_URL is not configured" },
-        { status: 500 }
-      );
+      logger.error("ASR_SERVER_URL is not set in env");
+      throw new ApiError("CONFIG_ERROR", "ASR_SERVER_URL is not configured");
     }
 
-    console.log("[/api/asr] Forwarding audio to:", ASR_URL);
+    logger.debug("Forwarding audio to ASR backend", { url: ASR_URL });
+
+    // Refuse oversized uploads before reading the body
+    assertUploadSize(req.headers.get("content-length"));
 
     // Read multipart/form-data from the incoming request
-    const formData = await req.formData();
-    const audio = formData.get("audio") as File | null;
-
-    if (!audio) {
-      console.error("[/api/asr] No 'audio' field found in form data");
-      return NextResponse.json(
-        { error: "Missing audio file" },
-        { status: 400 }
-      );
-    }
+    const formData = await req.formData().catch(() => {
+      throw new ApiError("VALIDATION_ERROR", "Expected multipart/form-data");
+    });
+    const { audio, source } = parseAsrUpload(formData);
+
+    // Check the length, then transcode / trim silence as configured
+    // (ASR_AUDIO_FORMAT); otherwise forwarded as recorded, with a matching
+    // file extension
+    const prepared = await prepareAudioForAsr(
+      audio,
+      source === "file"
+        ? ASR_LIMITS.maxUploadSeconds
+        : ASR_LIMITS.maxAudioSeconds
+    );
 
     // Prepare new form-data to forward to the Python ASR backend
     // Python endpoint expects the field name to be "file"
     const forwardForm = new FormData();
-    forwardForm.append("file", audio, "input.webm");
+    forwardForm.append("file", prepared.blob, prepared.fileName);
 
-    // Forward the request to the ASR backend
-    const res = await fetch(ASR_URL, {
-      method: "POST",
-      body: forwardForm,
-    });
+    // Forward the request to the ASR backend (timeout, retries, breaker);
+    // a client disconnect cancels it
+    const res = await timeBackend("asr", () =>
+      upstreamFetch("asr", ASR_URL, {
+        method: "POST",
+        body: forwardForm,
+        signal: req.signal,
+      })
+    );
 
     if (!res.ok) {
       const errorText = await res.text().catch(() => "");
-      console.error(
-        "[/api/asr] ASR backend returned non-OK status:",
-        res.status,
-        errorText
-      );
+      logger.error("ASR backend returned non-OK status", {
+        status: res.status,
+        body: errorText,
+      });
       // Return error detail to frontend so you can see it in browser console
-      return NextResponse.json(
-        {
-          error: "ASR backend error",
-          backendStatus: res.status,
-          backendDetail: errorText,
-        },
-        { status: 500 }
-      );
+      throw new ApiError("UPSTREAM_ERROR", "ASR backend error", {
+        details: { backendStatus: res.status, backendDetail: errorText },
+      });
     }
 
     // Expecting JSON like { "text": "..." }
     const data = await res.json().catch((err) => {
-      console.error("[/api/asr] Failed to parse ASR backend JSON:", err);
+      logger.error("Failed to parse ASR backend JSON", { err });
       return null;
     });
 
     if (!data || typeof data.text !== "string") {
-      console.error("[/api/asr] ASR backend response missing 'text':", data);
-      return NextResponse.json(
-        { error: "Invalid response from ASR backend" },
-        { status: 500 }
-      );
+      logger.error("ASR backend response missing 'text'", { data });
+      throw new ApiError("UPSTREAM_ERROR", "Invalid response from ASR backend");
     }
 
     const text = data.text.trim();
 
-    console.log("[/api/asr] Transcription OK:", text);
+    // Which language/dialect the speaker used, for the UI badge
+    const detectedLanguage = detectLanguage(text);
 
-    return NextResponse.json({ text });
+    logger.info("Transcription OK", {
+      text: redactPii(text).text,
+      detectedLanguage,
+    });
+
+    recordAsr("upload", startedAt, { text });
+    const response: AsrResponse = { text, detectedLanguage };
+    return NextResponse.json(response);
   } catch (err) {
-    console.error("[/api/asr] Internal error:", err);
-    return NextResponse.json(
-      { error: "Internal server error in /api/asr" },
-      { status: 500 }
-    );
+    const error = toAsrApiError(err, ROUTE);
+    // Gave up waiting, not a failed transcription
+    if (!req.signal.aborted) recordAsr("upload", startedAt, { error });
+    return errorResponse(error);
+  } finally {
+    lease?.release();
   }
-}
\ No newline at end of file
+});
@@ -0,0 +1,44 @@
+// app/api/asr/stream/[sessionId]/finish/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { recordAsr } from "@/lib/analytics";
+import type { AsrResponse } from "@/lib/api/contracts";
+import { errorResponse } from "@/lib/api/errors";
+import { instrumentRoute } from "@/lib/api/instrument";
+import { finishAsrStream, toAsrApiError } from "@/lib/asr";
+import { redactPii } from "@/lib/guardrails";
+import { detectLanguage } from "@/lib/language/detect";
+import { logger } from "@/lib/logger";
+import { timeBackend } from "@/lib/metrics";
+
+export const runtime = "nodejs";
+
+const ROUTE = "/api/asr/stream/[sessionId]/finish";
+
+// Recording stopped: wait for the last chunk and return the final text
+export const POST = instrumentRoute(ROUTE, async (
+  req: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) => {
+  const { sessionId } = await params;
+  const startedAt = performance.now();
+
+  try {
+    const text = await timeBackend("asr", () =>
+      finishAsrStream(sessionId, req.signal)
+    );
+    const detectedLanguage = detectLanguage(text);
+
+    logger.info("Transcription OK", {
+      text: redactPii(text).text,
+      detectedLanguage,
+    });
+
+    recordAsr("live", startedAt, { text });
+    const response: AsrResponse = { text, detectedLanguage };
+    return NextResponse.json(response);
+  } catch (err) {
+    const error = toAsrApiError(err, "/api/asr/stream");
+    if (!req.signal.aborted) recordAsr("live", startedAt, { error });
+    return errorResponse(error);
+  }
+});
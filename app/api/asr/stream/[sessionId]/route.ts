@@ -0,0 +1,41 @@
+// app/api/asr/stream/[sessionId]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import type { AsrStreamChunkResponse } from "@/lib/api/contracts";
+import { ApiError, errorResponse } from "@/lib/api/errors";
+import { instrumentRoute } from "@/lib/api/instrument";
+import { assertUploadSize } from "@/lib/api/validate";
+import { closeAsrStream, pushAsrStreamChunk, toAsrApiError } from "@/lib/asr";
+
+export const runtime = "nodejs";
+
+const ROUTE = "/api/asr/stream/[sessionId]";
+
+type Params = { params: Promise<{ sessionId: string }> };
+
+// Relay the next recorder chunk (raw audio body); returns the interim text
+export const POST = instrumentRoute(ROUTE, async (req: NextRequest, { params }: Params) => {
+  const { sessionId } = await params;
+
+  try {
+    assertUploadSize(req.headers.get("content-length"));
+
+    const chunk = await req.arrayBuffer();
+    if (chunk.byteLength === 0) {
+      throw new ApiError("VALIDATION_ERROR", "Audio chunk is empty");
+    }
+
+    const response: AsrStreamChunkResponse = {
+      text: await pushAsrStreamChunk(sessionId, chunk, req.signal),
+    };
+    return NextResponse.json(response);
+  } catch (err) {
+    return errorResponse(toAsrApiError(err, "/api/asr/stream"));
+  }
+});
+
+// Recording cancelled or the client fell back to a one-shot upload
+export const DELETE = instrumentRoute(ROUTE, async (_req: NextRequest, { params }: Params) => {
+  const { sessionId } = await params;
+  closeAsrStream(sessionId);
+  return new Response(null, { status: 204 });
+});
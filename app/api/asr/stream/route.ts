@@ -0,0 +1,48 @@
+// app/api/asr/stream/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import type { AsrStreamStartResponse } from "@/lib/api/contracts";
+import { ApiError, errorResponse } from "@/lib/api/errors";
+import { instrumentRoute } from "@/lib/api/instrument";
+import { parseAsrStreamStart } from "@/lib/api/validate";
+import {
+  getStreamingAsrBackend,
+  openAsrStream,
+  toAsrApiError,
+} from "@/lib/asr";
+import { logger } from "@/lib/logger";
+import { enforceRateLimit, type RateLimitLease } from "@/lib/rate-limit";
+
+export const runtime = "nodejs";
+
+const ROUTE = "/api/asr/stream";
+
+// Start a live transcription; the recorder's chunks follow on
+// /api/asr/stream/{sessionId}
+export const POST = instrumentRoute(ROUTE, async (req: NextRequest) => {
+  let lease: RateLimitLease | null = null;
+
+  try {
+    // Same budget as a one-shot upload; the slot is held until the session ends
+    lease = await enforceRateLimit(req, "asr");
+
+    const body = await req.json().catch(() => {
+      throw new ApiError("VALIDATION_ERROR", "Expected a JSON body");
+    });
+    const { mimeType } = parseAsrStreamStart(body);
+
+    const backend = getStreamingAsrBackend();
+    const session = await backend.start({ mimeType }, req.signal);
+
+    const response: AsrStreamStartResponse = {
+      sessionId: openAsrStream(session, lease),
+    };
+    lease = null;
+
+    logger.info("ASR stream session started", { backend: backend.name, mimeType });
+    return NextResponse.json(response);
+  } catch (err) {
+    return errorResponse(toAsrApiError(err, ROUTE));
+  } finally {
+    lease?.release();
+  }
+});
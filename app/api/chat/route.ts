@@ -1,5 +1,89 @@
 // app/api/chat/route.ts
+import { randomUUID } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
+import {
+  CHAT_FALLBACK_REPLY,
+  type AssistSuggestion,
+  type ChatAssistResponse,
+  type ChatResponse,
+} from "@/lib/api/contracts";
+import { ApiError, errorResponse } from "@/lib/api/errors";
+import { instrumentRoute } from "@/lib/api/instrument";
+import { parseChatRequest } from "@/lib/api/validate";
+import { enforceRateLimit, type RateLimitLease } from "@/lib/rate-limit";
+import {
+  buildHistoryWindow,
+  readHistoryBudget,
+  sanitizeHistory,
+  type ChatTurn,
+} from "@/lib/chat/history";
+import {
+  ASSIST_SYSTEM_PROMPT,
+  assistExamples,
+  parseAssistSuggestions,
+} from "@/lib/chat/assist";
+import {
+  NDJSON_CONTENT_TYPE,
+  encodeNdjson,
+  type ChatStreamEvent,
+} from "@/lib/chat/stream";
+import {
+  getLlmProvider,
+  toLlmApiError,
+  type LlmMessage,
+  type LlmProvider,
+} from "@/lib/llm";
+import {
+  DETECTION_MIN_CONFIDENCE,
+  detectLanguage,
+  type LanguageDetection,
+} from "@/lib/language/detect";
+import { languageLabel, type LanguageId } from "@/lib/language/languages";
+import { logger } from "@/lib/logger";
+import {
+  PromptPackError,
+  fewShotMessages,
+  loadPromptPacks,
+} from "@/lib/prompts/packs";
+import {
+  formatKnowledgeContext,
+  retrievePassages,
+  toKnowledgeSources,
+  type KnowledgePassage,
+  type KnowledgeSource,
+} from "@/lib/knowledge";
+import {
+  guardrailReply,
+  isGuardrailsEnabled,
+  redactPii,
+  redactTurns,
+  screenMessage,
+  screenReply,
+  type GuardrailKind,
+} from "@/lib/guardrails";
+import {
+  addHandoffMessage,
+  detectEscalation,
+  getHandoff,
+  isEscalationEnabled,
+  requestHandoff,
+  toHandoffState,
+  type Handoff,
+  type HandoffMessage,
+  type HandoffState,
+  type HandoffTrigger,
+} from "@/lib/handoff";
+import { getConversationStore } from "@/lib/conversations";
+import { getCustomerDataService } from "@/lib/customer-data";
+import { classifyTopic, isAnalyticsEnabled, recordAnalytics } from "@/lib/analytics";
+import {
+  conversationOwner,
+  customerPromptContext,
+  sessionCustomerId,
+} from "@/lib/session";
+import { chatWithTools, getChatToolOptions, streamWithTools } from "@/lib/tools";
+
+const ROUTE = "/api/chat";
 
 const SYSTEM_PROMPT = `
 You are "ZeroOne Dialect AI" — a multilingual customer service agent for the Singapore telco Zero1.
@@ -9,14 +93,6 @@ Your job:
 - Supported languages and dialects: English, Singlish, Mandarin, Hokkien, Cantonese, Teochew.
 - If the user mixes languages (very common in Singapore), reply naturally in mixed language too.
 
-Singlish style (very important):
-- Use natural Singapore Singlish, not American or Jamaican slang.
-- Do NOT use words like "yuh", "ya mon", "mate", or Caribbean-style English.
-- Use common Singlish particles like "lah", "lor", "leh", "mah", "meh", "ah", "hor" in a natural way.
-- Use "you" or "u" (not "yuh"), and simple short sentences.
-- "meh" is usually used at the END of a question, not at the beginning of a sentence.
-- Overall tone should feel like a friendly Singapore CS agent chatting with a customer.
-
 Tone:
 - Friendly, concise, helpful.
 - Sound like a real Singapore telco customer service agent.
@@ -24,6 +100,7 @@ Tone:
 
 Rules:
 - Do not hallucinate technical info.
+- For questions about the customer's own bill, data usage, roaming charges or plan, use the available tools to look up their account instead of guessing. Quote amounts in SGD exactly as returned.
 - If unsure, give the safest, standard telco explanation.
 - Always match the user’s language, dialect, and tone.
 
@@ -36,123 +113,540 @@ Common telco topics you should handle:
 - Slow network or poor coverage
 - Payment method / invoice questions
 
-Dialect behaviour:
-- For Hokkien: use simple vocabulary, Singapore-style expressions (e.g. "bo lah", "jialat", "kan cheong").
-- For Cantonese: Hong Kong / Singapore mix is OK, but keep it simple.
-- For Teochew: simple Teochew phrases mixed with Mandarin is OK.
-- For Singlish: natural, short, casual, like how people talk in Singapore.
-
 If the user says: "explain in Hokkien / Cantonese / Teochew", follow their request.
 
 If the user speaks English or Mandarin, reply in the same language unless they request otherwise.
 `;
 
-export async function POST(req: NextRequest) {
+export const POST = instrumentRoute(ROUTE, async (req: NextRequest) => {
+  const receivedAt = new Date().toISOString();
+  const startedAt = performance.now();
+  let lease: RateLimitLease | null = null;
+  // A streamed reply keeps its concurrency slot until the stream closes
+  let leaseHandedToStream = false;
+
   try {
-    const body = await req.json();
-    const { message, language } = body as {
-      message?: string;
-      language?: string;
-    };
+    lease = await enforceRateLimit(req, "chat");
 
-    if (!message || typeof message !== "string") {
-      return NextResponse.json(
-        { error: "Missing message" },
-        { status: 400 }
-      );
+    const body = await req.json().catch(() => {
+      throw new ApiError("VALIDATION_ERROR", "Request body must be JSON");
+    });
+    const request = parseChatRequest(body);
+    const { language, stream, conversationId, mode, input } = request;
+
+    // NRIC, card and phone numbers never reach the model or the log
+    const redacted = redactTurns(request.message, request.history ?? []);
+    const { message, history } = redacted;
+    const guarded = isGuardrailsEnabled();
+    const guardrails: GuardrailKind[] =
+      redacted.found.length > 0 ? ["pii_redacted"] : [];
+
+    const provider = getLlmProvider();
+
+    // Classify what the customer actually wrote; the selector wins if set
+    const detectedLanguage = detectLanguage(message);
+    const requestedLanguage = language ?? null;
+    const confidentLanguage =
+      detectedLanguage &&
+      detectedLanguage.confidence >= DETECTION_MIN_CONFIDENCE
+        ? detectedLanguage.language
+        : null;
+    const replyLanguage = requestedLanguage ?? confidentLanguage;
+
+    // Extra hint for the model based on selected or detected language
+    const languageHint = requestedLanguage
+      ? `User selected language/dialect: ${languageLabel(requestedLanguage)}. Reply in this language or dialect if possible.`
+      : replyLanguage
+      ? `User appears to be writing in ${languageLabel(replyLanguage)} (auto-detected). Reply in the same language or dialect unless they ask otherwise.`
+      : "User language may change; auto-detect and match the user.";
+
+    // Style rules and few-shots from the per-language prompt packs.
+    // Unknown language: give the model every style, Singlish examples.
+    const packs = await loadPromptPacks();
+    const stylePacks = replyLanguage
+      ? [packs.get(replyLanguage)].filter((p) => p !== undefined)
+      : [...packs.values()];
+    const styleSection = stylePacks
+      .map(
+        (pack) =>
+          `${languageLabel(pack.language)} style:\n- ${pack.styleRules.join("\n- ")}`
+      )
+      .join("\n\n");
+    const fewShotPack = packs.get(replyLanguage ?? "english");
+
+    // Earlier turns of this conversation, trimmed to fit the model context
+    const { turns, summary } = buildHistoryWindow(
+      sanitizeHistory(history),
+      readHistoryBudget()
+    );
+
+    // Knowledge base passages relevant to this question (plans, roaming, SIM...)
+    const passages = await retrieveForMessage(message, turns);
+    const sources = toKnowledgeSources(passages);
+
+    if (mode === "assist") {
+      const suggestions = await draftSuggestions(provider, {
+        system: [
+          ASSIST_SYSTEM_PROMPT,
+          styleSection,
+          fewShotPack ? assistExamples(fewShotPack) : null,
+          languageHint,
+        ],
+        passages,
+        summary,
+        turns,
+        message,
+        signal: req.signal,
+      });
+      const response: ChatAssistResponse = {
+        // Drafts the agent should not send are swapped for a safe one
+        suggestions: suggestions.map((suggestion) => {
+          const verdict = guarded
+            ? screenReply(suggestion.reply, SYSTEM_PROMPT)
+            : null;
+          if (!verdict) return suggestion;
+          logGuardrail(verdict.kind, verdict.reason);
+          if (!guardrails.includes(verdict.kind)) guardrails.push(verdict.kind);
+          return {
+            reply: guardrailReply(verdict.kind, replyLanguage),
+            gloss: guardrailReply(verdict.kind, "english"),
+          };
+        }),
+        sources,
+        detectedLanguage,
+        replyLanguage,
+        guardrails,
+      };
+      return NextResponse.json(response);
     }
 
-    const llmBaseUrl = process.env.LLM_SERVER_URL;
-    const modelName = process.env.LLM_MODEL_NAME || "qwen2.5:7b";
+    const fewShots = fewShotPack ? fewShotMessages(fewShotPack) : [];
 
-    if (!llmBaseUrl) {
-      return NextResponse.json(
-        { error: "LLM_SERVER_URL is not configured" },
-        { status: 500 }
-      );
+    // Handoff to a human agent: asked for outright or frustrated (rules),
+    // or decided by the model through its requestHumanAgent tool
+    const canEscalate = Boolean(conversationId) && isEscalationEnabled();
+    // Read up front: the model's requestHumanAgent call cannot wait for it
+    const transcript =
+      canEscalate && conversationId
+        ? await handoffTranscript(req, conversationId, history, message)
+        : [];
+    let handoff: Handoff | null = null;
+    const startHandoff = (trigger: HandoffTrigger, reason: string) => {
+      // Agents reply through the conversation, so there is nothing to hand
+      // over without one
+      if (!conversationId) return;
+      handoff ??= requestHandoff({
+        conversationId,
+        owner: conversationOwner(req),
+        trigger,
+        reason,
+        language: replyLanguage,
+        transcript,
+      });
+    };
+    const escalation = canEscalate ? detectEscalation(message) : null;
+    if (escalation) startHandoff("rule", escalation.reason);
+    const handoffHint = handoff
+      ? "A human customer service agent has been asked to take over this conversation. Briefly acknowledge the customer's concern and tell them, in their language, that you are connecting them to an agent now. Do not try to solve the issue yourself."
+      : null;
+
+    // Off-topic or abusive messages get a polite refusal without the model.
+    // Someone asking for a person is handed over instead.
+    const refusal = guarded && !escalation ? screenMessage(message) : null;
+    if (refusal) {
+      logGuardrail(refusal.kind, refusal.reason);
+      guardrails.push(refusal.kind);
     }
 
-    // Extra hint for the model based on selected language
-    const languageHint = language
-      ? `User selected language/dialect: ${language}. Reply in this language or dialect if possible.`
-      : "User language may change; auto-detect and match the user.";
+    // The reply goes into the agent's transcript too
+    const finishHandoff = (reply: string): HandoffState | null => {
+      if (!handoff) return null;
+      if (reply && getHandoff(handoff.conversationId)?.status !== "closed") {
+        addHandoffMessage(handoff.conversationId, {
+          role: "assistant",
+          content: reply,
+        });
+      }
+      return toHandoffState(handoff);
+    };
 
-    // Few-shot examples to steer Singlish and telco tone
-    const fewShotMessages = [
-      {
-        role: "user" as const,
-        content: "Why my bill so high one?",
-      },
-      {
-        role: "assistant" as const,
-        content:
-          "This month your usage a bit higher lah. You used more data and a few extra calls, so the bill go up. You can check the itemised bill to see which part increase the most.",
-      },
-      {
-        role: "user" as const,
-        content: "Eh my data finish so fast, what happen ah?",
-      },
-      {
-        role: "assistant" as const,
-        content:
-          "Maybe got more video or hotspot this month lor. Once you pass the bundle, extra data will charge by rate. Next time can consider bigger plan or set data alert, so you know before it burst.",
-      },
-      {
-        role: "user" as const,
-        content: "Can explain to me in Singlish, not so formal?",
-      },
+    // Each finished reply is recorded for the analytics dashboard; stopped
+    // or failed ones are not
+    const exchangeId = isAnalyticsEnabled() ? randomUUID() : null;
+    const completeExchange = (
+      reply: string,
+      applied: GuardrailKind[]
+    ): HandoffState | null => {
+      const handoffState = finishHandoff(reply);
+      if (exchangeId) {
+        recordAnalytics({
+          type: "exchange",
+          id: exchangeId,
+          conversationId: conversationId ?? null,
+          at: receivedAt,
+          input: input ?? "text",
+          requestedLanguage,
+          detectedLanguage: confidentLanguage,
+          replyLanguage,
+          topic: classifyTopic(message),
+          latencyMs: Math.round(performance.now() - startedAt),
+          guardrails: applied,
+          handoff: handoffState !== null,
+        });
+      }
+      return handoffState;
+    };
+
+    // Signed-in customer's plan, contract and recent bills
+    const customerId = sessionCustomerId(req);
+    const customerSection = customerId
+      ? await customerPromptContext(getCustomerDataService(), customerId)
+      : null;
+
+    const systemPrompt = [
+      SYSTEM_PROMPT,
+      customerSection,
+      styleSection,
+      languageHint,
+      handoffHint,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+    const knowledgeContext =
+      passages.length > 0 ? formatKnowledgeContext(passages) : null;
+
+    const llmMessages: LlmMessage[] = [
+      { role: "system", content: systemPrompt },
+      ...(knowledgeContext
+        ? [{ role: "system" as const, content: knowledgeContext }]
+        : []),
+      ...fewShots,
+      ...(summary ? [{ role: "system" as const, content: summary }] : []),
+      ...turns,
       {
-        role: "assistant" as const,
-        content:
-          "Can lah. I just explain properly but still in Singlish style. Main thing is you understand what happen to your bill and data usage, okay?",
+        role: "user",
+        content: message,
       },
     ];
 
-    const payload = {
-      model: modelName,
-      stream: false,
-      messages: [
-        {
-          role: "system",
-          content: SYSTEM_PROMPT + "\n\n" + languageHint,
-        },
-        ...fewShotMessages,
-        {
-          role: "user",
-          content: message,
-        },
-      ],
+    // Replies that promise refunds or quote anything the model was told
+    // (prompt, customer record, style pack, knowledge excerpts) are replaced
+    const checkReply = (reply: string): ReplyRewrite | null => {
+      const verdict = guarded
+        ? screenReply(reply, [systemPrompt, knowledgeContext].filter(Boolean).join("\n"))
+        : null;
+      if (!verdict) return null;
+      logGuardrail(verdict.kind, verdict.reason);
+      return {
+        kind: verdict.kind,
+        reply: guardrailReply(verdict.kind, replyLanguage),
+      };
     };
 
-    const res = await fetch(`${llmBaseUrl}/api/chat`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(payload),
-    });
+    // Browser pressing Stop aborts the request, which cancels the LLM call too
+    const llmRequest = { messages: llmMessages, signal: req.signal };
 
-    if (!res.ok) {
-      const text = await res.text();
-      console.error("LLM error:", text);
-      return NextResponse.json(
-        { error: "LLM server error", detail: text },
-        { status: 502 }
+    // Account lookups (bill, data, roaming, plans) for the signed-in customer
+    const toolOptions = getChatToolOptions(
+      customerId,
+      canEscalate && !escalation
+        ? (reason) => startHandoff("model", reason)
+        : undefined
+    );
+
+    if (refusal) {
+      const reply = guardrailReply(refusal.kind, replyLanguage);
+      if (stream === true) {
+        const deltas = singleReply(reply);
+        leaseHandedToStream = true;
+        return new Response(
+          relayLlmStream(await deltas.next(), deltas, {
+            sources: [],
+            detectedLanguage,
+            replyLanguage,
+            guardrails,
+            checkReply: () => null,
+            exchangeId,
+            onComplete: completeExchange,
+            onClose: lease.release,
+          }),
+          { headers: NDJSON_HEADERS }
+        );
+      }
+      const response: ChatResponse = {
+        reply,
+        sources: [],
+        detectedLanguage,
+        replyLanguage,
+        handoff: completeExchange(reply, guardrails),
+        guardrails,
+        exchangeId,
+      };
+      return NextResponse.json(response);
+    }
+
+    if (stream === true) {
+      const deltas = streamWithTools(provider, llmRequest, toolOptions);
+      // Wait for the first delta so connection errors still get a JSON error
+      const first = await deltas.next();
+      leaseHandedToStream = true;
+      return new Response(
+        relayLlmStream(first, deltas, {
+          sources,
+          detectedLanguage,
+          replyLanguage,
+          guardrails,
+          checkReply,
+          exchangeId,
+          onComplete: completeExchange,
+          onClose: lease.release,
+        }),
+        { headers: NDJSON_HEADERS }
       );
     }
 
-    const data = await res.json();
+    const completion =
+      (await chatWithTools(provider, llmRequest, toolOptions)) ||
+      CHAT_FALLBACK_REPLY;
+    const rewrite = checkReply(completion);
+    if (rewrite) guardrails.push(rewrite.kind);
+    const reply = rewrite?.reply ?? completion;
+
+    const response: ChatResponse = {
+      reply,
+      sources,
+      detectedLanguage,
+      replyLanguage,
+      handoff: completeExchange(reply, guardrails),
+      guardrails,
+      exchangeId,
+    };
+    return NextResponse.json(response);
+  } catch (err) {
+    return errorResponse(toChatApiError(err));
+  } finally {
+    if (!leaseHandedToStream) lease?.release();
+  }
+});
+
+const NDJSON_HEADERS = {
+  "Content-Type": NDJSON_CONTENT_TYPE,
+  "Cache-Control": "no-cache, no-transform",
+};
+
+// Reply replaced by a guardrail, in the customer's language
+type ReplyRewrite = { kind: GuardrailKind; reply: string };
 
-    const reply =
-      data?.message?.content ??
-      "Sorry, I am temporarily unable to respond. Please try again later.";
+function logGuardrail(kind: GuardrailKind, reason: string) {
+  logger.warn("Guardrail applied", { kind, reason });
+}
 
-    return NextResponse.json({ reply });
+// Canned reply shaped like the provider's delta stream
+async function* singleReply(content: string): AsyncGenerator<string> {
+  yield content;
+}
+
+// Map anything thrown while handling a chat request to an API error
+function toChatApiError(err: unknown): ApiError {
+  if (err instanceof PromptPackError) {
+    logger.error("Invalid prompt packs", { err, problems: err.problems });
+    return new ApiError("CONFIG_ERROR", err.message, { details: err.problems });
+  }
+  return toLlmApiError(err, ROUTE);
+}
+
+// Search the knowledge base with the new message plus the previous
+// question, so short follow-ups still find the right section.
+async function retrieveForMessage(
+  message: string,
+  turns: ChatTurn[]
+): Promise<KnowledgePassage[]> {
+  const previousQuestion = [...turns].reverse().find((t) => t.role === "user");
+  try {
+    return await retrievePassages(
+      [previousQuestion?.content, message].filter(Boolean).join("\n")
+    );
   } catch (err) {
-    console.error("API /chat error:", err);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
+    logger.error("Knowledge retrieval error", { err });
+    return [];
+  }
+}
+
+type HandoffTranscript = Omit<HandoffMessage, "id" | "createdAt">[];
+
+// What the agent reads before joining. The history in the request is
+// whatever the browser sent, so the conversation as saved on the server is
+// used instead; without one (CONVERSATION_STORE=none, or not saved yet)
+// only the customer's own messages are passed on.
+async function handoffTranscript(
+  req: NextRequest,
+  conversationId: string,
+  history: ChatTurn[],
+  message: string
+): Promise<HandoffTranscript> {
+  const latest = { role: "user" as const, content: message };
+  let saved: HandoffTranscript | null = null;
+  try {
+    const conversation = await getConversationStore(conversationOwner(req)).get(
+      conversationId
     );
+    saved =
+      conversation?.messages
+        .filter((m) => m.content && m.content !== CHAT_FALLBACK_REPLY)
+        .map(({ role, content, author }) => ({
+          role,
+          content: redactPii(content).text,
+          ...(author ? { author } : {}),
+        })) ?? null;
+  } catch (err) {
+    if (!(err instanceof ApiError && err.code === "CONFIG_ERROR")) {
+      logger.error("Saved conversation unavailable for handoff", { err });
+    }
+  }
+
+  if (!saved) {
+    return [...history.filter((turn) => turn.role === "user"), latest];
+  }
+  // The browser saves after each reply, so the new message is not in yet
+  const last = saved[saved.length - 1];
+  return last?.role === "user" && last.content === message
+    ? saved
+    : [...saved, latest];
+}
+
+// Agent-assist: one JSON completion with candidate replies. No tools, since
+// the agent's customer is not the signed-in account, and no handoff.
+async function draftSuggestions(
+  provider: LlmProvider,
+  prompt: {
+    system: (string | null)[];
+    passages: KnowledgePassage[];
+    summary: string | null;
+    turns: ChatTurn[];
+    message: string;
+    signal: AbortSignal;
   }
-}
\ No newline at end of file
+): Promise<AssistSuggestion[]> {
+  const { content } = await provider.chat({
+    messages: [
+      { role: "system", content: prompt.system.filter(Boolean).join("\n\n") },
+      ...(prompt.passages.length > 0
+        ? [{ role: "system" as const, content: formatKnowledgeContext(prompt.passages) }]
+        : []),
+      ...(prompt.summary ? [{ role: "system" as const, content: prompt.summary }] : []),
+      ...prompt.turns,
+      { role: "user", content: prompt.message },
+    ],
+    json: true,
+    signal: prompt.signal,
+  });
+  return parseAssistSuggestions(content);
+}
+
+// Relay the provider's content deltas as ChatStreamEvent lines for the browser
+function relayLlmStream(
+  first: IteratorResult<string>,
+  deltas: AsyncGenerator<string>,
+  meta: {
+    sources: KnowledgeSource[];
+    detectedLanguage: LanguageDetection | null;
+    replyLanguage: LanguageId | null;
+    // Applied before any checkReply rewrite
+    guardrails: GuardrailKind[];
+    // Checked as the reply grows; a rewrite ends the stream early and
+    // replaces what the browser has shown
+    checkReply: (reply: string) => ReplyRewrite | null;
+    // Sent with "done"
+    exchangeId: string | null;
+    // Called with the whole reply and every guardrail applied once it is
+    // complete; a handoff it returns is announced before "done"
+    onComplete: (
+      reply: string,
+      guardrails: GuardrailKind[]
+    ) => HandoffState | null;
+    // Called once the stream finishes, fails or is cancelled
+    onClose: () => void;
+  }
+): ReadableStream<Uint8Array> {
+  const send = (
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    event: ChatStreamEvent
+  ) => controller.enqueue(encodeNdjson(event));
+
+  let pending: IteratorResult<string> | null = first;
+  let reply = "";
+
+  const finish = (
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    rewrite: ReplyRewrite | null
+  ) => {
+    const guardrails = rewrite
+      ? [...meta.guardrails, rewrite.kind]
+      : meta.guardrails;
+    if (guardrails.length > 0) {
+      send(controller, {
+        type: "guardrails",
+        guardrails,
+        ...(rewrite ? { reply: rewrite.reply } : {}),
+      });
+    }
+    const handoff = meta.onComplete(rewrite?.reply ?? reply, guardrails);
+    if (handoff) send(controller, { type: "handoff", handoff });
+    send(controller, { type: "done", exchangeId: meta.exchangeId });
+    controller.close();
+    meta.onClose();
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (meta.detectedLanguage || meta.replyLanguage) {
+        send(controller, {
+          type: "language",
+          detectedLanguage: meta.detectedLanguage,
+          replyLanguage: meta.replyLanguage,
+        });
+      }
+      if (meta.sources.length > 0) {
+        send(controller, { type: "sources", sources: meta.sources });
+      }
+    },
+    async pull(controller) {
+      try {
+        // Skip empty deltas: a pull that enqueues nothing is not called
+        // again, and the response would hang
+        let { value, done } = pending ?? (await deltas.next());
+        pending = null;
+        while (!done && !value) ({ value, done } = await deltas.next());
+
+        if (done) {
+          // An empty reply gets the same stand-in as a non-streamed one
+          if (!reply) {
+            reply = CHAT_FALLBACK_REPLY;
+            send(controller, { type: "delta", content: reply });
+          }
+          finish(controller, null);
+          return;
+        }
+
+        reply += value;
+        send(controller, { type: "delta", content: value });
+        const rewrite = meta.checkReply(reply);
+        if (rewrite) {
+          await deltas.return(undefined);
+          finish(controller, rewrite);
+        }
+      } catch (err) {
+        send(controller, {
+          type: "error",
+          error: toChatApiError(err).toBody(),
+        });
+        controller.close();
+        meta.onClose();
+      }
+    },
+    async cancel() {
+      meta.onClose();
+      await deltas.return(undefined);
+    },
+  });
+}
@@ -0,0 +1,94 @@
+// app/api/conversations/[conversationId]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError, errorResponse, toApiError } from "@/lib/api/errors";
+import { instrumentRoute } from "@/lib/api/instrument";
+import {
+  assertConversationId,
+  assertConversationSize,
+  parseConversation,
+  parseConversationRename,
+} from "@/lib/api/validate";
+import { getConversationStore } from "@/lib/conversations";
+import { toSummary } from "@/lib/conversations/summary";
+import { conversationOwner, rememberConversationOwner } from "@/lib/session";
+
+export const runtime = "nodejs";
+
+const ROUTE = "/api/conversations/[conversationId]";
+
+type Params = { params: Promise<{ conversationId: string }> };
+
+function notFound(id: string) {
+  return new ApiError("NOT_FOUND", "Conversation not found", {
+    details: { id },
+  });
+}
+
+async function readJson(req: NextRequest): Promise<unknown> {
+  return req.json().catch(() => {
+    throw new ApiError("VALIDATION_ERROR", "Request body must be JSON");
+  });
+}
+
+// Conversations of other owners answer 404, as if they did not exist
+export const GET = instrumentRoute(ROUTE, async (req: NextRequest, { params }: Params) => {
+  const { conversationId } = await params;
+
+  try {
+    assertConversationId(conversationId);
+    const owner = conversationOwner(req);
+    const conversation = await getConversationStore(owner).get(conversationId);
+    if (!conversation) throw notFound(conversationId);
+    return NextResponse.json(conversation);
+  } catch (err) {
+    return errorResponse(toApiError(err, ROUTE));
+  }
+});
+
+// Create or replace the whole conversation
+export const PUT = instrumentRoute(ROUTE, async (req: NextRequest, { params }: Params) => {
+  const { conversationId } = await params;
+
+  try {
+    assertConversationId(conversationId);
+    assertConversationSize(req.headers.get("content-length"));
+    const owner = conversationOwner(req);
+    const store = getConversationStore(owner);
+    const conversation = parseConversation(conversationId, await readJson(req));
+    await store.save(conversation);
+    const res = NextResponse.json(toSummary(conversation));
+    rememberConversationOwner(req, res, owner);
+    return res;
+  } catch (err) {
+    return errorResponse(toApiError(err, ROUTE));
+  }
+});
+
+export const PATCH = instrumentRoute(ROUTE, async (req: NextRequest, { params }: Params) => {
+  const { conversationId } = await params;
+
+  try {
+    assertConversationId(conversationId);
+    const store = getConversationStore(conversationOwner(req));
+    const { title } = parseConversationRename(await readJson(req));
+    const summary = await store.rename(conversationId, title);
+    if (!summary) throw notFound(conversationId);
+    return NextResponse.json(summary);
+  } catch (err) {
+    return errorResponse(toApiError(err, ROUTE));
+  }
+});
+
+export const DELETE = instrumentRoute(ROUTE, async (req: NextRequest, { params }: Params) => {
+  const { conversationId } = await params;
+
+  try {
+    assertConversationId(conversationId);
+    const store = getConversationStore(conversationOwner(req));
+    if (!(await store.get(conversationId))) throw notFound(conversationId);
+    await store.remove(conversationId);
+    return new Response(null, { status: 204 });
+  } catch (err) {
+    return errorResponse(toApiError(err, ROUTE));
+  }
+});
@@ -0,0 +1,24 @@
+// app/api/conversations/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import type { ConversationListResponse } from "@/lib/api/contracts";
+import { errorResponse, toApiError } from "@/lib/api/errors";
+import { instrumentRoute } from "@/lib/api/instrument";
+import { getConversationStore } from "@/lib/conversations";
+import { conversationOwner } from "@/lib/session";
+
+export const runtime = "nodejs";
+
+const ROUTE = "/api/conversations";
+
+// The caller's saved conversations, newest first. CONFIG_ERROR tells the
+// browser to keep its history in IndexedDB instead.
+export const GET = instrumentRoute(ROUTE, async (req: NextRequest) => {
+  try {
+    const response: ConversationListResponse = {
+      conversations: await getConversationStore(conversationOwner(req)).list(),
+    };
+    return NextResponse.json(response);
+  } catch (err) {
+    return errorResponse(toApiError(err, ROUTE));
+  }
+});
@@ -0,0 +1,55 @@
+// app/api/handoffs/[conversationId]/events/route.ts
+import { NextRequest } from "next/server";
+import type { HandoffStreamEvent } from "@/lib/api/contracts";
+import { errorResponse, toApiError } from "@/lib/api/errors";
+import { instrumentRoute } from "@/lib/api/instrument";
+import { assertConversationId } from "@/lib/api/validate";
+import {
+  requireOwnHandoff,
+  sseResponse,
+  subscribeHandoffs,
+  toHandoffState,
+  type Handoff,
+} from "@/lib/handoff";
+import { conversationOwner } from "@/lib/session";
+
+export const runtime = "nodejs";
+
+const ROUTE = "/api/handoffs/[conversationId]/events";
+
+type Params = { params: Promise<{ conversationId: string }> };
+
+// Live state and agent replies for the customer's page
+export const GET = instrumentRoute(ROUTE, async (req: NextRequest, { params }: Params) => {
+  const { conversationId } = await params;
+
+  let handoff: Handoff;
+  try {
+    assertConversationId(conversationId);
+    handoff = requireOwnHandoff(conversationId, conversationOwner(req));
+  } catch (err) {
+    return errorResponse(toApiError(err, ROUTE));
+  }
+
+  return sseResponse(req.signal, (send) => {
+    const emit = (event: HandoffStreamEvent) => send(event);
+    const sendAgentMessages = (current: Handoff) => {
+      for (const message of current.messages) {
+        if (message.role === "agent") emit({ type: "message", message });
+      }
+    };
+
+    // Everything so far, in case the connection dropped and came back
+    emit({ type: "state", handoff: toHandoffState(handoff) });
+    sendAgentMessages(handoff);
+
+    return subscribeHandoffs((change) => {
+      if (change.handoff.conversationId !== conversationId) return;
+      if (change.type === "updated") {
+        emit({ type: "state", handoff: toHandoffState(change.handoff) });
+      } else if (change.message.role === "agent") {
+        emit({ type: "message", message: change.message });
+      }
+    });
+  });
+});
@@ -0,0 +1,37 @@
+// app/api/handoffs/[conversationId]/messages/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError, errorResponse, toApiError } from "@/lib/api/errors";
+import { instrumentRoute } from "@/lib/api/instrument";
+import { assertConversationId, parseHandoffMessage } from "@/lib/api/validate";
+import { addHandoffMessage, requireOwnHandoff } from "@/lib/handoff";
+import { enforceRateLimit, type RateLimitLease } from "@/lib/rate-limit";
+import { conversationOwner } from "@/lib/session";
+
+export const runtime = "nodejs";
+
+const ROUTE = "/api/handoffs/[conversationId]/messages";
+
+type Params = { params: Promise<{ conversationId: string }> };
+
+// Customer message while waiting for, or talking to, an agent
+export const POST = instrumentRoute(ROUTE, async (req: NextRequest, { params }: Params) => {
+  const { conversationId } = await params;
+  let lease: RateLimitLease | null = null;
+
+  try {
+    assertConversationId(conversationId);
+    requireOwnHandoff(conversationId, conversationOwner(req));
+    lease = await enforceRateLimit(req, "chat");
+    const body = await req.json().catch(() => {
+      throw new ApiError("VALIDATION_ERROR", "Request body must be JSON");
+    });
+    const { content } = parseHandoffMessage(body);
+    return NextResponse.json(
+      addHandoffMessage(conversationId, { role: "user", content })
+    );
+  } catch (err) {
+    return errorResponse(toApiError(err, ROUTE));
+  } finally {
+    lease?.release();
+  }
+});
@@ -0,0 +1,26 @@
+// app/api/handoffs/[conversationId]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, toApiError } from "@/lib/api/errors";
+import { instrumentRoute } from "@/lib/api/instrument";
+import { assertConversationId } from "@/lib/api/validate";
+import { requireOwnHandoff, toHandoffState } from "@/lib/handoff";
+import { conversationOwner } from "@/lib/session";
+
+export const runtime = "nodejs";
+
+const ROUTE = "/api/handoffs/[conversationId]";
+
+type Params = { params: Promise<{ conversationId: string }> };
+
+// Current handoff state, e.g. when a saved conversation is reopened
+export const GET = instrumentRoute(ROUTE, async (req: NextRequest, { params }: Params) => {
+  const { conversationId } = await params;
+
+  try {
+    assertConversationId(conversationId);
+    const handoff = requireOwnHandoff(conversationId, conversationOwner(req));
+    return NextResponse.json(toHandoffState(handoff));
+  } catch (err) {
+    return errorResponse(toApiError(err, ROUTE));
+  }
+});
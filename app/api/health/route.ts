@@ -0,0 +1,20 @@
+// app/api/health/route.ts
+import { NextResponse } from "next/server";
+import { instrumentRoute } from "@/lib/api/instrument";
+import { checkHealth } from "@/lib/health";
+
+export const runtime = "nodejs";
+// Always probe live; never serve a cached result
+export const dynamic = "force-dynamic";
+
+const ROUTE = "/api/health";
+
+export const GET = instrumentRoute(ROUTE, async () => {
+  const health = await checkHealth();
+
+  // 503 lets load balancers treat the instance as not ready
+  return NextResponse.json(health, {
+    status: health.status === "down" ? 503 : 200,
+    headers: { "Cache-Control": "no-store" },
+  });
+});
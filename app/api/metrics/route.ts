@@ -0,0 +1,28 @@
+// app/api/metrics/route.ts
+import { NextRequest } from "next/server";
+import { ApiError, errorResponse } from "@/lib/api/errors";
+import { PROMETHEUS_CONTENT_TYPE, renderPrometheus } from "@/lib/metrics";
+import { tokensEqual } from "@/lib/session";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Prometheus scrape endpoint. Not instrumented itself, so scrapes do not
+// show up in the request metrics.
+export async function GET(req: NextRequest) {
+  // METRICS_TOKEN, when set, must be sent as a bearer token
+  const token = process.env.METRICS_TOKEN;
+  const auth = req.headers.get("authorization") ?? "";
+  if (token && !tokensEqual(auth, `Bearer ${token}`)) {
+    return errorResponse(
+      new ApiError("UNAUTHORIZED", "Missing or invalid metrics token")
+    );
+  }
+
+  return new Response(renderPrometheus(), {
+    headers: {
+      "Content-Type": PROMETHEUS_CONTENT_TYPE,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,71 @@
+// app/api/session/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import type { SessionResponse } from "@/lib/api/contracts";
+import { ApiError, errorResponse, toApiError } from "@/lib/api/errors";
+import { instrumentRoute } from "@/lib/api/instrument";
+import { parseSessionLogin } from "@/lib/api/validate";
+import { getCustomerDataService } from "@/lib/customer-data";
+import {
+  clearSessionCookie,
+  ensureBrowserId,
+  getSession,
+  setSessionCookie,
+  toSessionCustomer,
+} from "@/lib/session";
+
+export const runtime = "nodejs";
+
+const ROUTE = "/api/session";
+
+// Mock login: any fixture customer can be picked, no password
+async function readSession(customerId: string | null): Promise<SessionResponse> {
+  const customerData = getCustomerDataService();
+  const [customers, plans] = await Promise.all([
+    customerData.listCustomers(),
+    customerData.listPlans(),
+  ]);
+  const demoCustomers = customers.map((c) => toSessionCustomer(c, plans));
+  return {
+    customer: demoCustomers.find((c) => c.id === customerId) ?? null,
+    demoCustomers,
+  };
+}
+
+export const GET = instrumentRoute(ROUTE, async (req: NextRequest) => {
+  try {
+    const session = getSession(req);
+    const res = NextResponse.json(await readSession(session?.customerId ?? null));
+    // Guests' rate limits and saved conversations go by this id
+    ensureBrowserId(req, res);
+    return res;
+  } catch (err) {
+    return errorResponse(toApiError(err, ROUTE));
+  }
+});
+
+export const POST = instrumentRoute(ROUTE, async (req: NextRequest) => {
+  try {
+    const body = await req.json().catch(() => {
+      throw new ApiError("VALIDATION_ERROR", "Request body must be JSON");
+    });
+    const { customerId } = parseSessionLogin(body);
+    const data = await readSession(customerId);
+    if (!data.customer) {
+      throw new ApiError("NOT_FOUND", "Customer not found", {
+        details: { customerId },
+      });
+    }
+
+    const res = NextResponse.json(data);
+    setSessionCookie(req, res, { customerId, signedInAt: new Date().toISOString() });
+    return res;
+  } catch (err) {
+    return errorResponse(toApiError(err, ROUTE));
+  }
+});
+
+export const DELETE = instrumentRoute(ROUTE, async () => {
+  const res = new NextResponse(null, { status: 204 });
+  clearSessionCookie(res);
+  return res;
+});
@@ -0,0 +1,47 @@
+// app/api/translate/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError, errorResponse } from "@/lib/api/errors";
+import { instrumentRoute } from "@/lib/api/instrument";
+import { parseTranslateRequest } from "@/lib/api/validate";
+import { detectLanguage } from "@/lib/language/detect";
+import { getLlmProvider, toLlmApiError } from "@/lib/llm";
+import { enforceRateLimit, type RateLimitLease } from "@/lib/rate-limit";
+import { buildTranslateMessages, parseTranslation } from "@/lib/translate/prompt";
+
+export const runtime = "nodejs";
+
+const ROUTE = "/api/translate";
+
+// Translate a message between English, Singlish and the Chinese dialects,
+// with romanisation for text in Chinese characters
+export const POST = instrumentRoute(ROUTE, async (req: NextRequest) => {
+  let lease: RateLimitLease | null = null;
+
+  try {
+    // Same LLM backend as the chat, so the same budget
+    lease = await enforceRateLimit(req, "chat");
+
+    const body = await req.json().catch(() => {
+      throw new ApiError("VALIDATION_ERROR", "Request body must be JSON");
+    });
+    const request = parseTranslateRequest(body);
+
+    const { content } = await getLlmProvider().chat({
+      messages: buildTranslateMessages(request),
+      json: true,
+      signal: req.signal,
+    });
+
+    return NextResponse.json(
+      parseTranslation(
+        content,
+        request,
+        detectLanguage(request.text)?.language ?? "english"
+      )
+    );
+  } catch (err) {
+    return errorResponse(toLlmApiError(err, ROUTE));
+  } finally {
+    lease?.release();
+  }
+});
@@ -0,0 +1,58 @@
+// app/api/tts/route.ts
+import { NextRequest } from "next/server";
+import { ApiError, errorResponse, toApiError } from "@/lib/api/errors";
+import { instrumentRoute } from "@/lib/api/instrument";
+import { parseTtsRequest } from "@/lib/api/validate";
+import { logger } from "@/lib/logger";
+import { enforceRateLimit, type RateLimitLease } from "@/lib/rate-limit";
+import { getTtsVoice, resolveSpeechLanguage, synthesizeSpeech } from "@/lib/tts";
+
+export const runtime = "nodejs"; // Ensure we run in Node.js environment
+
+const ROUTE = "/api/tts";
+
+// Replies can quote a customer's name or bill, so no shared or on-disk copy
+// of the clip; replays are served from the server's in-memory cache instead
+const CACHE_CONTROL = "private, no-store";
+
+export const POST = instrumentRoute(ROUTE, async (req: NextRequest) => {
+  let lease: RateLimitLease | null = null;
+
+  try {
+    const body = await req.json().catch(() => {
+      throw new ApiError("VALIDATION_ERROR", "Request body must be JSON");
+    });
+    const { text, language } = parseTtsRequest(body);
+    const speechLanguage = resolveSpeechLanguage(text, language);
+    const voice = getTtsVoice(speechLanguage);
+
+    const headers = {
+      "Cache-Control": CACHE_CONTROL,
+      "X-TTS-Voice": voice,
+    };
+
+    lease = await enforceRateLimit(req, "tts");
+
+    const { audio, contentType } = await synthesizeSpeech(
+      text,
+      speechLanguage,
+      voice,
+      req.signal
+    );
+
+    return new Response(audio, {
+      headers: {
+        ...headers,
+        "Content-Type": contentType,
+        "Content-Length": String(audio.byteLength),
+      },
+    });
+  } catch (err) {
+    if (err instanceof ApiError && err.code === "CONFIG_ERROR") {
+      logger.error("TTS config error", { err });
+    }
+    return errorResponse(toApiError(err, ROUTE, "tts"));
+  } finally {
+    lease?.release();
+  }
+});
@@ -0,0 +1,292 @@
+// app/assist/page.tsx
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { DictateButton, useDictation } from "@/components/Dictation";
+import {
+  describeApiError,
+  readApiError,
+  retryAfterSeconds,
+} from "@/lib/api/client";
+import {
+  CHAT_LIMITS,
+  type ChatAssistResponse,
+  type ChatRequest,
+} from "@/lib/api/contracts";
+import type { ChatTurn } from "@/lib/chat/history";
+import {
+  LANGUAGES,
+  languageLabel,
+  type LanguageId,
+} from "@/lib/language/languages";
+
+const CHAT_ROUTE = "/api/chat";
+
+// Drafts replies for a human agent talking to a customer on another
+// channel (phone, WhatsApp...); nothing here reaches the customer directly
+export default function AssistPage() {
+  const [customerText, setCustomerText] = useState("");
+  const [language, setLanguage] = useState<LanguageId | "auto">("auto");
+  // What the customer said and the replies the agent copied, oldest first
+  const [thread, setThread] = useState<ChatTurn[]>([]);
+  const [result, setResult] = useState<ChatAssistResponse | null>(null);
+  // Editable copies of the suggested replies
+  const [drafts, setDrafts] = useState<string[]>([]);
+  const [drafting, setDrafting] = useState(false);
+  const [errorText, setErrorText] = useState("");
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+
+  // Agent repeats what a caller said; the transcript joins the box
+  const dictation = useDictation();
+
+  const busy = drafting || dictation.isRecording || dictation.isTranscribing;
+
+  async function draftReplies() {
+    const message = customerText.trim();
+    if (!message || busy) return;
+
+    setErrorText("");
+    setDrafting(true);
+    try {
+      const res = await fetch(CHAT_ROUTE, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          message,
+          language: language === "auto" ? undefined : language,
+          history: thread,
+          mode: "assist",
+        } satisfies ChatRequest),
+      });
+
+      if (!res.ok) {
+        const error = await readApiError(res, "Assist request failed");
+        const seconds = retryAfterSeconds(error);
+        setErrorText(
+          error.code === "RATE_LIMITED" && seconds
+            ? `Too many requests. Please wait ${seconds} seconds and try again.`
+            : describeApiError(error, "The assistant")
+        );
+        return;
+      }
+
+      const data = (await res.json()) as ChatAssistResponse;
+      setResult(data);
+      setDrafts(data.suggestions.map((suggestion) => suggestion.reply));
+      setCopiedIndex(null);
+    } catch (err) {
+      console.error("assist request error", err);
+      setErrorText("Network request failed. Please try again.");
+    } finally {
+      setDrafting(false);
+    }
+  }
+
+  // Copy a reply for the agent to send; it becomes context for the next
+  // draft, and the box clears for the customer's answer
+  async function copyReply(index: number) {
+    const reply = drafts[index]?.trim();
+    if (!reply) return;
+    try {
+      await navigator.clipboard.writeText(reply);
+    } catch (err) {
+      console.error("clipboard error", err);
+      setErrorText("Could not copy to the clipboard; select the text instead.");
+      return;
+    }
+    setCopiedIndex(index);
+    setThread((prev) => [
+      ...prev,
+      { role: "user", content: customerText.trim() },
+      { role: "assistant", content: reply },
+    ]);
+    setCustomerText("");
+  }
+
+  function startOver() {
+    setThread([]);
+    setResult(null);
+    setDrafts([]);
+    setCustomerText("");
+    setCopiedIndex(null);
+    setErrorText("");
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-950 to-slate-900 text-slate-100 flex items-center justify-center px-4 py-8">
+      <div className="w-full max-w-5xl bg-slate-900/70 border border-slate-700/60 rounded-3xl shadow-2xl backdrop-blur-xl overflow-hidden flex flex-col h-[85vh]">
+        {/* Header */}
+        <header className="border-b border-slate-700/60 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-semibold tracking-tight">Agent Assist</h1>
+            <p className="text-xs text-slate-400 mt-1">
+              Paste or dictate what the customer said to get draft replies in
+              their dialect, each with an English meaning. Edit, then copy.
+            </p>
+          </div>
+          <Link
+            href="/"
+            className="text-xs text-emerald-300 hover:text-emerald-200"
+          >
+            ← Back to chat
+          </Link>
+        </header>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          {/* Earlier exchange, sent as history */}
+          {thread.length > 0 && (
+            <section className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h2 className="text-xs uppercase tracking-[0.2em] text-slate-400">
+                  This conversation
+                </h2>
+                <button
+                  type="button"
+                  onClick={startOver}
+                  disabled={busy}
+                  className="text-[11px] text-slate-400 hover:text-red-300 disabled:opacity-50"
+                >
+                  Start over
+                </button>
+              </div>
+              {thread.map((turn, i) => (
+                <p
+                  key={i}
+                  className={`text-xs rounded-xl px-3 py-2 whitespace-pre-wrap ${
+                    turn.role === "user"
+                      ? "bg-slate-800/80 text-slate-200"
+                      : "bg-emerald-950/40 text-emerald-200"
+                  }`}
+                >
+                  <span className="text-slate-500">
+                    {turn.role === "user" ? "Customer: " : "You: "}
+                  </span>
+                  {turn.content}
+                </p>
+              ))}
+            </section>
+          )}
+
+          {/* Customer message */}
+          <section className="space-y-2">
+            <div className="flex flex-wrap items-center gap-3 text-xs">
+              <h2 className="uppercase tracking-[0.2em] text-slate-400">
+                Customer said
+              </h2>
+              <select
+                className="ml-auto bg-slate-800 border border-slate-600 rounded-full px-2 py-1 outline-none"
+                value={language}
+                onChange={(e) => setLanguage(e.target.value as LanguageId | "auto")}
+              >
+                <option value="auto">Detect the customer&apos;s language</option>
+                {LANGUAGES.map((lang) => (
+                  <option key={lang.value} value={lang.value}>
+                    Reply in {lang.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <textarea
+              className="w-full resize-none rounded-2xl border border-slate-600 bg-slate-900/80 px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-emerald-400/70 min-h-[96px]"
+              placeholder="Paste the customer's message, or dictate it..."
+              value={customerText}
+              maxLength={CHAT_LIMITS.maxMessageChars}
+              onChange={(e) => setCustomerText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+                  e.preventDefault();
+                  draftReplies();
+                }
+              }}
+            />
+            <div className="flex items-center gap-3">
+              <DictateButton
+                dictation={dictation}
+                disabled={drafting}
+                onResult={({ text }) =>
+                  setCustomerText((prev) =>
+                    [prev.trim(), text.trim()].filter(Boolean).join(" ")
+                  )
+                }
+              />
+              <button
+                type="button"
+                onClick={draftReplies}
+                disabled={!customerText.trim() || busy}
+                className="rounded-full px-4 py-1.5 text-xs font-medium bg-emerald-500 text-slate-900 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-emerald-400 transition-colors"
+              >
+                {drafting ? "Drafting..." : "Draft replies"}
+              </button>
+              {(errorText || dictation.error) && (
+                <span className="text-xs text-red-400">
+                  {errorText || dictation.error}
+                </span>
+              )}
+            </div>
+          </section>
+
+          {/* Suggestions */}
+          {result && (
+            <section className="space-y-3">
+              <div className="flex items-center gap-2 text-xs">
+                <h2 className="uppercase tracking-[0.2em] text-slate-400">
+                  Suggested replies
+                </h2>
+                {result.replyLanguage && (
+                  <span className="rounded-full bg-slate-800 px-2 py-0.5 text-[10px] text-slate-300">
+                    {languageLabel(result.replyLanguage)}
+                    {result.detectedLanguage &&
+                      result.detectedLanguage.language === result.replyLanguage &&
+                      ` · detected ${Math.round(result.detectedLanguage.confidence * 100)}%`}
+                  </span>
+                )}
+              </div>
+
+              {result.suggestions.map((suggestion, i) => (
+                <div
+                  key={i}
+                  className="rounded-2xl border border-slate-700/70 bg-slate-800/60 px-4 py-3 space-y-2"
+                >
+                  <textarea
+                    className="w-full resize-none rounded-xl border border-slate-600 bg-slate-900/80 px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-emerald-400/70 min-h-[64px]"
+                    value={drafts[i] ?? ""}
+                    onChange={(e) =>
+                      setDrafts((prev) =>
+                        prev.map((draft, j) => (j === i ? e.target.value : draft))
+                      )
+                    }
+                  />
+                  <div className="flex items-start justify-between gap-3">
+                    <p className="text-xs text-slate-400">
+                      <span className="text-slate-500">English: </span>
+                      {suggestion.gloss || "—"}
+                      {drafts[i] !== suggestion.reply && (
+                        <span className="text-amber-300"> (before your edits)</span>
+                      )}
+                    </p>
+                    <button
+                      type="button"
+                      onClick={() => copyReply(i)}
+                      disabled={!drafts[i]?.trim() || !customerText.trim()}
+                      className="shrink-0 rounded-full px-3 py-1 text-[11px] border border-emerald-400/70 text-emerald-300 hover:bg-emerald-950/40 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {copiedIndex === i ? "Copied ✓" : "Copy"}
+                    </button>
+                  </div>
+                </div>
+              ))}
+
+              {result.sources.length > 0 && (
+                <p className="text-[11px] text-slate-500">
+                  Based on:{" "}
+                  {result.sources.map((source) => source.title).join("; ")}
+                </p>
+              )}
+            </section>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
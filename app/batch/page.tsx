@@ -0,0 +1,439 @@
+// app/batch/page.tsx
+"use client";
+
+import Link from "next/link";
+import { useRef, useState } from "react";
+import {
+  CHAT_LIMITS,
+  type AsrResponse,
+  type ChatRequest,
+  type ChatResponse,
+} from "@/lib/api/contracts";
+import {
+  toCsv,
+  toJson,
+  toResultRows,
+  type BatchResultRow,
+} from "@/lib/batch/export";
+import { runQueue } from "@/lib/batch/queue";
+import { requestJson } from "@/lib/batch/request";
+import type { BatchItem, BatchOptions, BatchStatus } from "@/lib/batch/types";
+import { downloadText, fileStamp } from "@/lib/export/download";
+import {
+  LANGUAGES,
+  languageLabel,
+  type LanguageId,
+} from "@/lib/language/languages";
+
+const ASR_ROUTE = "/api/asr";
+
+// Matches the default per-client ASR concurrency (RATE_LIMIT_ASR_CONCURRENT_PER_CLIENT)
+const DEFAULT_CONCURRENCY = 2;
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const CSV_COLUMNS: (keyof BatchResultRow)[] = [
+  "file",
+  "status",
+  "language",
+  "languageConfidence",
+  "transcript",
+  "error",
+  "processingMs",
+];
+
+const STATUS_STYLES: Record<BatchStatus, string> = {
+  queued: "bg-slate-700 text-slate-300",
+  transcribing: "bg-sky-900/60 text-sky-300 animate-pulse",
+  replying: "bg-violet-900/60 text-violet-300 animate-pulse",
+  waiting: "bg-amber-900/60 text-amber-300",
+  done: "bg-emerald-900/60 text-emerald-300",
+  error: "bg-red-900/60 text-red-300",
+};
+
+// Bulk transcription of recorded calls for QA, with optional AI replies
+export default function BatchPage() {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [options, setOptions] = useState<BatchOptions>({
+    concurrency: DEFAULT_CONCURRENCY,
+    withReplies: false,
+  });
+  const [replyLanguage, setReplyLanguage] = useState<LanguageId | "auto">("auto");
+  const [running, setRunning] = useState(false);
+
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const counts = items.reduce(
+    (acc, item) => ({ ...acc, [item.status]: acc[item.status] + 1 }),
+    {
+      queued: 0,
+      transcribing: 0,
+      replying: 0,
+      waiting: 0,
+      done: 0,
+      error: 0,
+    } as Record<BatchStatus, number>
+  );
+  const finished = counts.done + counts.error;
+
+  function updateItem(id: string, patch: Partial<BatchItem>) {
+    setItems((prev) =>
+      prev.map((item) => (item.id === id ? { ...item, ...patch } : item))
+    );
+  }
+
+  function addFiles(files: FileList | null) {
+    if (!files) return;
+    const added = Array.from(files).map(
+      (file): BatchItem => ({
+        id: crypto.randomUUID(),
+        file,
+        status: "queued",
+      })
+    );
+    setItems((prev) => [...prev, ...added]);
+  }
+
+  // Transcribe one file, then (optionally) ask the assistant to reply to it
+  async function processItem(item: BatchItem, signal: AbortSignal) {
+    updateItem(item.id, {
+      status: "transcribing",
+      startedAt: Date.now(),
+      finishedAt: undefined,
+      error: undefined,
+    });
+
+    // Show "waiting" for as long as the rate limit asks, then the step again
+    const waitThen = (resume: BatchStatus) => (seconds: number) => {
+      updateItem(item.id, { status: "waiting" });
+      setTimeout(() => {
+        if (!signal.aborted) updateItem(item.id, { status: resume });
+      }, seconds * 1000);
+    };
+
+    try {
+      const form = new FormData();
+      form.append("audio", item.file, item.file.name);
+      form.append("source", "file");
+
+      const asr = await requestJson<AsrResponse>(
+        ASR_ROUTE,
+        { method: "POST", body: form },
+        {
+          service: "Voice recognition",
+          signal,
+          onWait: waitThen("transcribing"),
+        }
+      );
+      updateItem(item.id, {
+        transcript: asr.text,
+        detectedLanguage: asr.detectedLanguage,
+      });
+
+      if (options.withReplies && asr.text) {
+        updateItem(item.id, { status: "replying" });
+        const chat = await requestJson<ChatResponse>(
+          "/api/chat",
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              // Long calls are cut to what the chat route accepts
+              message: asr.text.slice(0, CHAT_LIMITS.maxMessageChars),
+              language: replyLanguage === "auto" ? undefined : replyLanguage,
+              stream: false,
+            } satisfies ChatRequest),
+          },
+          { service: "The assistant", signal, onWait: waitThen("replying") }
+        );
+        updateItem(item.id, { reply: chat.reply });
+      }
+
+      updateItem(item.id, { status: "done", finishedAt: Date.now() });
+    } catch (err) {
+      if (signal.aborted) {
+        // Cancelled mid-way: can be started again later
+        updateItem(item.id, { status: "queued", startedAt: undefined });
+        return;
+      }
+      console.error("batch item error", item.file.name, err);
+      updateItem(item.id, {
+        status: "error",
+        error: err instanceof Error ? err.message : String(err),
+        finishedAt: Date.now(),
+      });
+    }
+  }
+
+  const startBatch = async () => {
+    // Only files not yet transcribed (new, cancelled or failed)
+    const pending = items.filter(
+      (item) => item.status === "queued" || item.status === "error"
+    );
+    if (pending.length === 0 || running) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    try {
+      await runQueue(
+        pending,
+        options.concurrency,
+        (item) => processItem(item, controller.signal),
+        controller.signal
+      );
+    } finally {
+      abortRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const cancelBatch = () => {
+    abortRef.current?.abort();
+  };
+
+  const exportResults = (format: "csv" | "json") => {
+    const rows = toResultRows(items);
+    const stamp = fileStamp();
+    if (format === "json") {
+      downloadText(`transcripts-${stamp}.json`, toJson(rows), "application/json");
+    } else {
+      const columns = options.withReplies
+        ? [...CSV_COLUMNS.slice(0, 5), "reply" as const, ...CSV_COLUMNS.slice(5)]
+        : CSV_COLUMNS;
+      downloadText(
+        `transcripts-${stamp}.csv`,
+        toCsv(rows, columns),
+        "text/csv;charset=utf-8"
+      );
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-950 to-slate-900 text-slate-100 flex items-center justify-center px-4 py-8">
+      <div className="w-full max-w-5xl bg-slate-900/70 border border-slate-700/60 rounded-3xl shadow-2xl backdrop-blur-xl overflow-hidden flex flex-col h-[85vh]">
+        {/* Header */}
+        <header className="border-b border-slate-700/60 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-semibold tracking-tight">
+              Batch Call Transcription
+            </h1>
+            <p className="text-xs text-slate-400 mt-1">
+              Upload recorded calls (webm, ogg, m4a, mp3, wav) to transcribe
+              them in bulk. Results stay in this tab until you export them.
+            </p>
+          </div>
+          <Link
+            href="/"
+            className="text-xs text-emerald-300 hover:text-emerald-200"
+          >
+            ← Back to chat
+          </Link>
+        </header>
+
+        {/* Controls */}
+        <div className="border-b border-slate-700/60 px-6 py-3 flex flex-wrap items-center gap-3 text-xs">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*,.m4a,.mp3,.wav,.webm,.ogg"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              addFiles(e.target.files);
+              e.target.value = "";
+            }}
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={running}
+            className="rounded-full px-3 py-1.5 border border-emerald-400/70 text-emerald-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add files
+          </button>
+
+          <label className="flex items-center gap-2 text-slate-300">
+            <span>Parallel:</span>
+            <select
+              className="bg-slate-800 border border-slate-600 rounded-full px-2 py-1 outline-none"
+              value={options.concurrency}
+              disabled={running}
+              onChange={(e) =>
+                setOptions((prev) => ({
+                  ...prev,
+                  concurrency: Number(e.target.value),
+                }))
+              }
+            >
+              {CONCURRENCY_OPTIONS.map((n) => (
+                <option key={n} value={n}>
+                  {n}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex items-center gap-2 text-slate-300">
+            <input
+              type="checkbox"
+              checked={options.withReplies}
+              disabled={running}
+              onChange={(e) =>
+                setOptions((prev) => ({
+                  ...prev,
+                  withReplies: e.target.checked,
+                }))
+              }
+            />
+            <span>Also generate AI replies</span>
+          </label>
+
+          {options.withReplies && (
+            <select
+              className="bg-slate-800 border border-slate-600 rounded-full px-2 py-1 outline-none"
+              value={replyLanguage}
+              disabled={running}
+              onChange={(e) =>
+                setReplyLanguage(e.target.value as LanguageId | "auto")
+              }
+            >
+              <option value="auto">Reply in detected language</option>
+              {LANGUAGES.map((lang) => (
+                <option key={lang.value} value={lang.value}>
+                  Reply in {lang.label}
+                </option>
+              ))}
+            </select>
+          )}
+
+          <div className="ml-auto flex items-center gap-2">
+            {running ? (
+              <button
+                type="button"
+                onClick={cancelBatch}
+                className="rounded-full px-3 py-1.5 border border-red-400 text-red-300 bg-red-950/40"
+              >
+                Cancel
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={startBatch}
+                disabled={counts.queued + counts.error === 0}
+                className="rounded-full px-3 py-1.5 bg-emerald-500 text-slate-900 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {counts.error > 0 && counts.queued === 0
+                  ? "Retry failed"
+                  : "Start"}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => exportResults("csv")}
+              disabled={finished === 0}
+              className="rounded-full px-3 py-1.5 border border-slate-600 text-slate-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Export CSV
+            </button>
+            <button
+              type="button"
+              onClick={() => exportResults("json")}
+              disabled={finished === 0}
+              className="rounded-full px-3 py-1.5 border border-slate-600 text-slate-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Export JSON
+            </button>
+            <button
+              type="button"
+              onClick={() => setItems([])}
+              disabled={running || items.length === 0}
+              className="rounded-full px-3 py-1.5 text-slate-400 hover:text-slate-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+
+        {/* Overall progress */}
+        {items.length > 0 && (
+          <div className="px-6 py-2 text-[11px] text-slate-400 flex items-center gap-3">
+            <div className="h-1.5 flex-1 bg-slate-800 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-emerald-400 transition-[width]"
+                style={{ width: `${Math.round((finished / items.length) * 100)}%` }}
+              />
+            </div>
+            <span>
+              {finished} / {items.length} finished
+              {counts.error > 0 && ` · ${counts.error} failed`}
+              {counts.waiting > 0 && ` · ${counts.waiting} waiting for rate limit`}
+            </span>
+          </div>
+        )}
+
+        {/* Results */}
+        <div className="flex-1 overflow-y-auto px-6 py-3">
+          {items.length === 0 ? (
+            <div className="h-full flex items-center justify-center text-sm text-slate-500">
+              Add audio files to get started.
+            </div>
+          ) : (
+            <table className="w-full text-xs">
+              <thead className="text-left text-slate-500">
+                <tr>
+                  <th className="py-1 pr-3 font-medium">File</th>
+                  <th className="py-1 pr-3 font-medium">Status</th>
+                  <th className="py-1 pr-3 font-medium">Language</th>
+                  <th className="py-1 font-medium">Transcript</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item) => (
+                  <tr
+                    key={item.id}
+                    className="border-t border-slate-800 align-top"
+                  >
+                    <td className="py-2 pr-3 max-w-[12rem] break-words">
+                      {item.file.name}
+                      <div className="text-[10px] text-slate-500">
+                        {(item.file.size / 1024).toFixed(0)} KB
+                      </div>
+                    </td>
+                    <td className="py-2 pr-3">
+                      <span
+                        className={`inline-block rounded-full px-2 py-0.5 text-[10px] ${STATUS_STYLES[item.status]}`}
+                      >
+                        {item.status}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-3 whitespace-nowrap text-slate-300">
+                      {item.detectedLanguage
+                        ? `${languageLabel(item.detectedLanguage.language)} · ${Math.round(
+                            item.detectedLanguage.confidence * 100
+                          )}%`
+                        : "—"}
+                    </td>
+                    <td className="py-2 whitespace-pre-wrap">
+                      {item.error ? (
+                        <span className="text-red-400">{item.error}</span>
+                      ) : (
+                        item.transcript ?? ""
+                      )}
+                      {item.reply && (
+                        <div className="mt-1 pt-1 border-t border-slate-800 text-slate-400">
+                          <span className="text-violet-300">AI reply:</span>{" "}
+                          {item.reply}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -1,57 +1,305 @@
 // app/page.tsx
 "use client";
 
-import { useState, useRef } from "react";
+import Link from "next/link";
+import { useEffect, useState, useRef } from "react";
+import {
+  describeApiError,
+  readApiError,
+  REQUEST_ID_HEADER,
+  retryAfterSeconds,
+} from "@/lib/api/client";
+import {
+  ASR_LIMITS,
+  CHAT_FALLBACK_REPLY,
+  CHAT_LIMITS,
+  type ApiErrorBody,
+  type AsrResponse,
+  type AsrSource,
+  type ChatRequest,
+  type HandoffMessageRequest,
+  type HandoffStreamEvent,
+  type SessionCustomer,
+} from "@/lib/api/contracts";
+import {
+  BackendStatus,
+  isBackendDown,
+  useBackendHealth,
+} from "@/components/BackendStatus";
+import {
+  ConversationSidebar,
+  useConversationHistory,
+} from "@/components/ConversationSidebar";
+import {
+  CustomerSessionPicker,
+  useCustomerSession,
+} from "@/components/CustomerSession";
+import { ReplyFeedback } from "@/components/ReplyFeedback";
+import { ReplyPlayerControls, useReplyPlayer } from "@/components/ReplyPlayer";
+import { TranslatePanel } from "@/components/TranslatePanel";
+import { readNdjson, type ChatStreamEvent } from "@/lib/chat/stream";
+import {
+  startLiveTranscription,
+  type LiveTranscription,
+} from "@/lib/asr/client";
+import { newClientId } from "@/lib/conversations/client";
+import {
+  conversationLanguage,
+  conversationTitle,
+} from "@/lib/conversations/summary";
+import {
+  toTranscript,
+  transcriptToHtml,
+  transcriptToJson,
+  transcriptToMarkdown,
+} from "@/lib/conversations/export";
+import type {
+  Conversation,
+  ConversationMessage,
+  MessageInput,
+} from "@/lib/conversations/types";
+import { downloadText, fileStamp, openHtml } from "@/lib/export/download";
+import type { GuardrailKind } from "@/lib/guardrails/types";
+import type { HandoffState } from "@/lib/handoff/types";
+import {
+  LANGUAGES,
+  languageLabel,
+  type LanguageId,
+} from "@/lib/language/languages";
+import {
+  audioFileExtension,
+  createRecorder,
+  recorderMimeType,
+} from "@/lib/voice/format";
+import {
+  createVoiceActivityDetector,
+  type VadEvent,
+  type VoiceActivityDetector,
+} from "@/lib/voice/vad";
+
+// Saved as-is with the conversation (see lib/conversations)
+type ChatMessage = ConversationMessage;
+
+// Conversation being shown; null until the first message is sent
+type ActiveConversation = {
+  id: string;
+  createdAt: string;
+  // Set once renamed; otherwise the title follows the first question
+  title: string | null;
+};
+
+function toConversation(
+  active: ActiveConversation,
+  messages: ChatMessage[]
+): Conversation {
+  return {
+    id: active.id,
+    title: active.title ?? conversationTitle(messages),
+    language: conversationLanguage(messages),
+    createdAt: active.createdAt,
+    updatedAt: messages[messages.length - 1]?.createdAt ?? active.createdAt,
+    messages,
+  };
+}
 
-type ChatMessage = {
-  role: "user" | "assistant";
+// Reply that finished streaming, for hands-free auto-play
+type SentReply = {
+  id: string;
   content: string;
+  language: LanguageId | null;
+};
+
+// Hands-free conversation: listen → transcribe → think → speak → listen
+type HandsFreePhase =
+  | "off"
+  | "listening"
+  | "transcribing"
+  | "thinking"
+  | "speaking";
+
+// While a reply plays the mic also hears the speaker, so barge-in needs a
+// louder voice than normal listening
+const BARGE_IN_THRESHOLD = 0.2;
+// Restart the idle recorder so a long silence is not uploaded with the
+// next question
+const IDLE_RESTART_MS = 15_000;
+
+const HANDS_FREE_STATUS: Record<Exclude<HandsFreePhase, "off">, string> = {
+  listening: "🎙️ Listening... just start speaking",
+  transcribing: "Got it, transcribing...",
+  thinking: "Preparing the reply...",
+  speaking: "🔊 Speaking... talk any time to interrupt",
+};
+
+// Shown under a reply when a guardrail acted on it
+const GUARDRAIL_NOTES: Record<GuardrailKind, string> = {
+  pii_redacted: "ID, card or phone numbers were hidden from the assistant",
+  off_topic: "Outside what this assistant can help with",
+  abusive: "Message flagged as abusive",
+  unsafe_commitment: "Reply replaced: refunds and waivers need the billing team",
+  prompt_leak: "Reply replaced: it revealed internal instructions",
 };
 
 const languageOptions = [
   { value: "auto", label: "Auto detect" },
-  { value: "english", label: "English / Singlish" },
-  { value: "mandarin", label: "Mandarin" },
-  { value: "cantonese", label: "Cantonese" },
-  { value: "hokkien", label: "Hokkien" },
-  { value: "teochew", label: "Teochew" },
+  ...LANGUAGES,
 ];
 
 // Frontend will call /api/asr, which will proxy to the VM ASR backend
 const ASR_ROUTE = "/api/asr";
 
+// Recorder chunk length; each chunk is relayed for a live transcript
+const LIVE_CHUNK_MS = 1000;
+
 export default function HomePage() {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState("");
-  const [language, setLanguage] = useState("auto");
+  const [language, setLanguage] = useState<LanguageId | "auto">("auto");
   const [loading, setLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [errorText, setErrorText] = useState("");
+  const [waitNotice, setWaitNotice] = useState("");
   const [isRecording, setIsRecording] = useState(false);
   const [isTranscribing, setIsTranscribing] = useState(false);
   const [recordingError, setRecordingError] = useState("");
   const [volumeLevel, setVolumeLevel] = useState(0); // 0–1 range for visual meter
 
-  // TTS (speech playback) state
-  const [isSpeaking, setIsSpeaking] = useState(false);
-  const [ttsError, setTtsError] = useState("");
+  // Voice playback of assistant replies (server TTS, browser fallback)
+  const player = useReplyPlayer();
+
+  // Translation mode replaces the chat with the translation panel
+  const [mode, setMode] = useState<"chat" | "translate">("chat");
+
+  // Past conversations (IndexedDB, or the server store when enabled)
+  const history = useConversationHistory();
+  const { save: saveConversation } = history;
+  const [conversation, setConversation] = useState<ActiveConversation | null>(
+    null
+  );
+
+  // Demo sign-in; the customer's preferred language pre-selects the reply
+  // language
+  const session = useCustomerSession();
+  const { refresh: refreshSession } = session;
+
+  // Set once the conversation is handed to a human agent; while open,
+  // messages go to the agent instead of the assistant
+  const [handoff, setHandoff] = useState<HandoffState | null>(null);
+  const handoffOpen = handoff !== null && handoff.status !== "closed";
+  const handoffId = handoffOpen ? handoff.conversationId : null;
+
+  const [handsFreePhase, setHandsFreePhase] = useState<HandsFreePhase>("off");
+  const handsFreeOn = handsFreePhase !== "off";
+
+  // Live backend state; disables the mic / send button when one is down
+  const health = useBackendHealth();
+  const llmDown = isBackendDown(health?.llm);
+  const asrDown = isBackendDown(health?.asr);
+
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const waitTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
   const audioChunksRef = useRef<BlobPart[]>([]);
+  const recordingTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // What was typed before recording; interim transcripts are shown after it
+  const inputBeforeRecordingRef = useRef("");
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
 
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const animationFrameRef = useRef<number | null>(null);
 
-  // Send message to backend API
-  const sendMessage = async (overrideText?: string) => {
+  // Hands-free state read from the audio loop, outside React renders
+  const handsFreePhaseRef = useRef<HandsFreePhase>("off");
+  const vadRef = useRef<VoiceActivityDetector | null>(null);
+  const vadEventRef = useRef<(event: VadEvent) => void>(() => {});
+  const utteranceRef = useRef<{
+    recorder: MediaRecorder;
+    chunks: BlobPart[];
+    startedAt: number;
+  } | null>(null);
+
+  // The audio loop outlives renders; route its events to the latest handler
+  useEffect(() => {
+    vadEventRef.current = handleVadEvent;
+  });
+
+  // Agent replies and status changes while the conversation is handed off
+  useEffect(() => {
+    if (!handoffId) return;
+
+    const source = new EventSource(
+      `/api/handoffs/${encodeURIComponent(handoffId)}/events`
+    );
+    source.onmessage = (e) => {
+      const event = JSON.parse(e.data) as HandoffStreamEvent;
+      if (event.type === "state") {
+        setHandoff(event.handoff);
+        return;
+      }
+      const { message } = event;
+      // Replayed after a reconnect: already shown
+      setMessages((prev) =>
+        prev.some((m) => m.id === message.id)
+          ? prev
+          : [
+              ...prev,
+              {
+                id: message.id,
+                role: "agent",
+                content: message.content,
+                createdAt: message.createdAt,
+                author: message.author,
+              },
+            ]
+      );
+    };
+    source.onerror = () => {
+      // Not just a dropped connection: the handoff is gone (server restart)
+      if (source.readyState === EventSource.CLOSED) setHandoff(null);
+    };
+
+    return () => source.close();
+  }, [handoffId]);
+
+  useEffect(() => {
+    refreshSession().then((customer) => {
+      if (customer?.preferredLanguage) setLanguage(customer.preferredLanguage);
+    });
+  }, [refreshSession]);
+
+  // Persist once a reply is complete, not on every streamed token
+  useEffect(() => {
+    if (!conversation || loading || messages.length === 0) return;
+    saveConversation(toConversation(conversation, messages));
+  }, [conversation, loading, messages, saveConversation]);
+
+  // Send message to backend API and stream the reply into a new bubble
+  // `overrideText` is a transcript when the customer spoke
+  const sendMessage = async (
+    overrideText?: string,
+    inputMode: MessageInput = "text"
+  ): Promise<SentReply | null> => {
     const content = (overrideText ?? input).trim();
-    if (!content || loading) return;
+    if (!content || loading || (llmDown && !handoffOpen)) return null;
 
     const userMessage: ChatMessage = {
+      id: newClientId(),
       role: "user",
       content,
+      createdAt: new Date().toISOString(),
+      input: inputMode,
     };
+    const conversationId = conversation?.id ?? newClientId();
+    if (!conversation) {
+      setConversation({
+        id: conversationId,
+        createdAt: userMessage.createdAt,
+        title: null,
+      });
+    }
 
     // Optimistically add user message to chat list
     setMessages((prev) => [...prev, userMessage]);
@@ -59,9 +307,20 @@ export default function HomePage() {
       setInput("");
     }
     setErrorText("");
-    setTtsError("");
+
+    if (handoffOpen) {
+      await sendToAgent(conversationId, content);
+      return null;
+    }
 
     setLoading(true);
+    setIsStreaming(false);
+
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    let replyText = "";
+    let replyLanguage: LanguageId | null = null;
+    const replyId = newClientId();
 
     try {
       const res = await fetch("/api/chat", {
@@ -72,48 +331,258 @@ export default function HomePage() {
         body: JSON.stringify({
           message: content,
           language: language === "auto" ? undefined : language,
-        }),
+          // Earlier turns so the assistant can follow up on them; what a
+          // human agent said counts as the assistant's side. Failed replies
+          // are left out, and only the latest turns the API accepts are sent
+          history: messages
+            .filter(({ content }) => content && content !== CHAT_FALLBACK_REPLY)
+            .slice(-CHAT_LIMITS.maxHistoryTurns)
+            .map(({ role, content }) => ({
+              role: role === "user" ? "user" : "assistant",
+              content,
+            })),
+          stream: true,
+          conversationId,
+          input: inputMode,
+        } satisfies ChatRequest),
+        signal: controller.signal,
       });
 
-      if (!res.ok) {
-        const data = await res.json().catch(() => ({}));
-        setErrorText(
-          data?.error || "Server is busy. Please try again later."
+      if (!res.ok || !res.body) {
+        const error = await readApiError(
+          res,
+          "Server is busy. Please try again later."
         );
-        setLoading(false);
-        return;
+        if (error.code === "RATE_LIMITED") {
+          showWaitNotice(error);
+        } else {
+          setErrorText(describeApiError(error));
+        }
+        return null;
       }
 
-      const data = (await res.json()) as { reply?: string };
-      const replyText =
-        data.reply ||
-        "Sorry, I am temporarily unable to respond. Please try again later.";
-
-      const assistantMessage: ChatMessage = {
-        role: "assistant",
-        content: replyText,
-      };
+      // Empty assistant bubble that fills in as tokens arrive
+      setMessages((prev) => [
+        ...prev,
+        {
+          id: replyId,
+          role: "assistant",
+          content: "",
+          createdAt: new Date().toISOString(),
+        },
+      ]);
+      setIsStreaming(true);
+
+      for await (const item of readNdjson(res.body)) {
+        const event = item as ChatStreamEvent;
+        if (event.type === "language") {
+          if (event.detectedLanguage) {
+            updateLastMessage("user", {
+              detectedLanguage: event.detectedLanguage,
+            });
+          }
+          replyLanguage = event.replyLanguage;
+          updateLastMessage("assistant", { language: event.replyLanguage });
+        } else if (event.type === "handoff") {
+          setHandoff(event.handoff);
+        } else if (event.type === "guardrails") {
+          if (event.reply) replyText = event.reply;
+          updateLastMessage("assistant", {
+            content: replyText,
+            guardrails: event.guardrails,
+          });
+        } else if (event.type === "sources") {
+          updateLastMessage("assistant", { sources: event.sources });
+        } else if (event.type === "delta") {
+          replyText += event.content;
+          updateLastMessage("assistant", { content: replyText });
+        } else if (event.type === "error") {
+          // Errors raised mid-stream may only have the id in the header
+          setErrorText(
+            describeApiError({
+              requestId: res.headers.get(REQUEST_ID_HEADER) ?? undefined,
+              ...event.error,
+            })
+          );
+          break;
+        } else if (event.type === "done") {
+          if (event.exchangeId) {
+            updateLastMessage("assistant", { exchangeId: event.exchangeId });
+          }
+          break;
+        }
+      }
 
-      setMessages((prev) => [...prev, assistantMessage]);
+      if (!replyText) {
+        updateLastMessage("assistant", { content: CHAT_FALLBACK_REPLY });
+        return null;
+      }
+      return { id: replyId, content: replyText, language: replyLanguage };
     } catch (err) {
+      if (controller.signal.aborted) {
+        // User pressed Stop: keep whatever was streamed so far
+        if (!replyText) {
+          setMessages((prev) =>
+            prev.length > 0 &&
+            prev[prev.length - 1].role === "assistant" &&
+            !prev[prev.length - 1].content
+              ? prev.slice(0, -1)
+              : prev
+          );
+        }
+        return null;
+      }
       console.error("sendMessage error", err);
       setErrorText(
         "Network request failed. Please check your connection or try again."
       );
+      return null;
     } finally {
+      chatAbortRef.current = null;
+      setIsStreaming(false);
       setLoading(false);
     }
   };
 
-  // Call ASR backend with an audio blob and return the transcribed text
-  async function transcribeAudio(blob: Blob): Promise<string> {
+  // Patch the latest message of a role while a reply streams in
+  function updateLastMessage(
+    role: ChatMessage["role"],
+    patch: Partial<ChatMessage>
+  ) {
+    setMessages((prev) => {
+      const index = prev.map((m) => m.role).lastIndexOf(role);
+      if (index === -1) return prev;
+      const next = [...prev];
+      next[index] = { ...prev[index], ...patch };
+      return next;
+    });
+  }
+
+  // While an agent has the conversation, messages go to them instead
+  async function sendToAgent(conversationId: string, content: string) {
+    try {
+      const res = await fetch(
+        `/api/handoffs/${encodeURIComponent(conversationId)}/messages`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ content } satisfies HandoffMessageRequest),
+        }
+      );
+      if (!res.ok) {
+        const error = await readApiError(res, "Message could not be delivered");
+        if (error.code === "RATE_LIMITED") {
+          showWaitNotice(error);
+        } else {
+          setErrorText(describeApiError(error, "The agent chat"));
+        }
+      }
+    } catch (err) {
+      console.error("sendToAgent error", err);
+      setErrorText(
+        "Network request failed. Please check your connection or try again."
+      );
+    }
+  }
+
+  // A reopened conversation may still be waiting for (or talking to) an agent
+  async function restoreHandoff(conversationId: string) {
+    try {
+      const res = await fetch(
+        `/api/handoffs/${encodeURIComponent(conversationId)}`
+      );
+      if (!res.ok) return;
+      const state = (await res.json()) as HandoffState;
+      if (state.status !== "closed") setHandoff(state);
+    } catch (err) {
+      console.warn("handoff state unavailable", err);
+    }
+  }
+
+  // Resume a saved conversation from the sidebar
+  async function openConversation(id: string) {
+    const saved = await history.load(id);
+    if (!saved) return;
+    player.stop();
+    setMessages(saved.messages);
+    setConversation({ id: saved.id, createdAt: saved.createdAt, title: saved.title });
+    setHandoff(null);
+    setErrorText("");
+    restoreHandoff(saved.id);
+  }
+
+  function startNewConversation() {
+    player.stop();
+    setMessages([]);
+    setConversation(null);
+    setHandoff(null);
+    setErrorText("");
+  }
+
+  // A different customer starts a fresh conversation in their language
+  function switchCustomer(customer: SessionCustomer | null) {
+    setLanguage(customer?.preferredLanguage ?? "auto");
+    startNewConversation();
+  }
+
+  async function renameConversation(id: string, title: string) {
+    await history.rename(id, title);
+    if (conversation?.id === id) setConversation({ ...conversation, title });
+  }
+
+  async function deleteConversation(id: string) {
+    await history.remove(id);
+    if (conversation?.id === id) startNewConversation();
+  }
+
+  // Transcript for handing the conversation to a human agent
+  function exportTranscript(format: "markdown" | "json" | "html") {
+    if (!conversation || messages.length === 0) return;
+    const transcript = toTranscript(toConversation(conversation, messages));
+    const name = `transcript-${conversation.id.slice(0, 8)}-${fileStamp()}`;
+
+    if (format === "markdown") {
+      downloadText(`${name}.md`, transcriptToMarkdown(transcript), "text/markdown");
+    } else if (format === "json") {
+      downloadText(`${name}.json`, transcriptToJson(transcript), "application/json");
+    } else {
+      openHtml(transcriptToHtml(transcript));
+    }
+  }
+
+  // Abort the in-flight reply (also cancels the upstream LLM request)
+  const stopGenerating = () => {
+    chatAbortRef.current?.abort();
+  };
+
+  // Friendly "please wait" instead of an error when we hit a rate limit
+  function showWaitNotice(error: ApiErrorBody) {
+    const seconds = retryAfterSeconds(error) ?? 5;
+    setWaitNotice(
+      `Lots of requests right now. Please wait about ${seconds} seconds and try again.`
+    );
+    if (waitTimerRef.current) clearTimeout(waitTimerRef.current);
+    waitTimerRef.current = setTimeout(() => setWaitNotice(""), seconds * 1000);
+  }
+
+  // Call ASR backend with an audio blob and return the transcribed text.
+  // Uploaded files keep their name and get the longer length limit.
+  async function transcribeAudio(
+    blob: Blob,
+    source: AsrSource = "microphone"
+  ): Promise<string> {
     setRecordingError("");
     setIsTranscribing(true);
 
     try {
       const formData = new FormData();
       // IMPORTANT: field name must be "audio" to match /api/asr route.ts
-      formData.append("audio", blob, "audio.webm");
+      formData.append(
+        "audio",
+        blob,
+        blob instanceof File ? blob.name : `audio.${audioFileExtension(blob.type)}`
+      );
+      formData.append("source", source);
 
       const res = await fetch(ASR_ROUTE, {
         method: "POST",
@@ -121,12 +590,19 @@ export default function HomePage() {
       });
 
       if (!res.ok) {
-        const text = await res.text().catch(() => "");
-        console.error("ASR /api/asr non-OK:", res.status, text);
-        throw new Error("ASR request failed");
+        const error = await readApiError(res, "ASR request failed");
+        if (error.code === "RATE_LIMITED") {
+          showWaitNotice(error);
+          return "";
+        }
+        console.error("ASR /api/asr non-OK:", res.status, error);
+        setRecordingError(
+          `${describeApiError(error, "Voice recognition")} You can also type your message.`
+        );
+        return "";
       }
 
-      const data = (await res.json()) as { text?: string };
+      const data = (await res.json()) as AsrResponse;
       const text = data.text?.trim() || "";
 
       if (!text) {
@@ -145,17 +621,57 @@ export default function HomePage() {
     }
   }
 
+  // Final text of a live transcription; null if the session failed and
+  // the whole recording should be uploaded instead
+  async function finishLiveTranscription(
+    live: LiveTranscription
+  ): Promise<string | null> {
+    setIsTranscribing(true);
+    try {
+      const { text } = await live.finish();
+      if (!text.trim()) {
+        setRecordingError(
+          "Voice recognition failed. Please try again or type your message."
+        );
+      }
+      return text.trim();
+    } catch (err) {
+      console.warn("Live transcription failed, uploading recording:", err);
+      return null;
+    } finally {
+      setIsTranscribing(false);
+      // Interim text goes away; the final text is sent as its own message
+      setInput(inputBeforeRecordingRef.current);
+    }
+  }
+
   // Handle the final audio blob after recording stops
-  async function handleAudioBlob(blob: Blob) {
-    const text = await transcribeAudio(blob);
+  async function handleAudioBlob(blob: Blob, live: LiveTranscription | null) {
+    const liveText = live ? await finishLiveTranscription(live) : null;
+    const text = liveText ?? (await transcribeAudio(blob));
     if (!text) return;
 
     // Automatically send transcribed text as a user message
-    await sendMessage(text);
+    await sendMessage(text, "voice");
   }
 
-  // Start visual volume analysis using Web Audio API
-  function startVolumeVisualization(stream: MediaStream) {
+  // Transcribe a recording picked from disk and send it like a spoken message
+  async function handleAudioFile(file: File | undefined) {
+    // Same file can be picked again later
+    if (fileInputRef.current) fileInputRef.current.value = "";
+    if (!file) return;
+
+    const text = await transcribeAudio(file, "file");
+    if (!text) return;
+    await sendMessage(text, "voice");
+  }
+
+  // Start visual volume analysis using Web Audio API.
+  // `onLevel` also receives each sample (hands-free speech detection).
+  function startVolumeVisualization(
+    stream: MediaStream,
+    onLevel?: (level: number) => void
+  ) {
     try {
       const AudioContextClass =
         (window as any).AudioContext || (window as any).webkitAudioContext;
@@ -188,6 +704,7 @@ export default function HomePage() {
         // Normalize between 0 and ~1
         const normalized = Math.min(1, rms / 50);
         setVolumeLevel(normalized);
+        onLevel?.(normalized);
 
         animationFrameRef.current = requestAnimationFrame(update);
       };
@@ -212,35 +729,47 @@ export default function HomePage() {
     setVolumeLevel(0);
   }
 
+  // Ask for the microphone; explains and returns null when it is blocked
+  async function requestMicrophone(
+    constraints: MediaTrackConstraints | boolean = true
+  ): Promise<MediaStream | null> {
+    // Check if the page is in a secure context
+    if (typeof window !== "undefined" && window.isSecureContext === false) {
+      // On non-secure origins (not https and not localhost),
+      // browsers will block getUserMedia even if the user clicks "Allow".
+      setRecordingError(
+        "Browser requires HTTPS or localhost for microphone access. Please open this demo on http://localhost:3000 or via HTTPS."
+      );
+      console.warn(
+        "[recording] Insecure context: microphone access is blocked."
+      );
+      return null;
+    }
+
+    if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+      setRecordingError("Microphone is not supported in this browser.");
+      console.warn(
+        "[recording] navigator.mediaDevices.getUserMedia is not available"
+      );
+      return null;
+    }
+
+    console.log("[recording] Requesting microphone...");
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: constraints,
+    });
+    console.log("[recording] Got audio stream:", stream);
+
+    return stream;
+  }
+
   // Start recording from the microphone
   const startRecording = async () => {
     try {
       setRecordingError("");
 
-      // Check if the page is in a secure context
-      if (typeof window !== "undefined" && window.isSecureContext === false) {
-        // On non-secure origins (not https and not localhost),
-        // browsers will block getUserMedia even if the user clicks "Allow".
-        setRecordingError(
-          "Browser requires HTTPS or localhost for microphone access. Please open this demo on http://localhost:3000 or via HTTPS."
-        );
-        console.warn(
-          "[recording] Insecure context: microphone access is blocked."
-        );
-        return;
-      }
-
-      if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-        setRecordingError("Microphone is not supported in this browser.");
-        console.warn(
-          "[recording] navigator.mediaDevices.getUserMedia is not available"
-        );
-        return;
-      }
-
-      console.log("[recording] Requesting microphone...");
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      console.log("[recording] Got audio stream:", stream);
+      const stream = await requestMicrophone();
+      if (!stream) return;
 
       mediaStreamRef.current = stream;
 
@@ -250,12 +779,28 @@ export default function HomePage() {
       // Reset chunks
       audioChunksRef.current = [];
 
-      const recorder = new MediaRecorder(stream);
+      // Best format this browser supports (Safari records MP4/AAC)
+      const recorder = createRecorder(stream);
+      const mimeType = recorderMimeType(recorder);
       mediaRecorderRef.current = recorder;
 
+      // Live transcript in the textarea while the customer talks; chunks
+      // recorded before the session opens are relayed once it does
+      inputBeforeRecordingRef.current = input;
+      const livePromise = startLiveTranscription(
+        mimeType,
+        (text) =>
+          setInput(
+            [inputBeforeRecordingRef.current.trim(), text]
+              .filter(Boolean)
+              .join(" ")
+          )
+      );
+
       recorder.ondataavailable = (event: any) => {
         if (event.data && event.data.size > 0) {
           audioChunksRef.current.push(event.data);
+          livePromise.then((live) => live?.push(event.data));
         }
       };
 
@@ -272,15 +817,20 @@ export default function HomePage() {
         stopVolumeVisualization();
 
         const audioBlob = new Blob(audioChunksRef.current, {
-          type: "audio/webm",
+          type: mimeType,
         });
         audioChunksRef.current = [];
 
         console.log("[recording] Collected audio blob:", audioBlob);
-        await handleAudioBlob(audioBlob);
+        await handleAudioBlob(audioBlob, await livePromise);
       };
 
-      recorder.start();
+      recorder.start(LIVE_CHUNK_MS);
+      // The server rejects clips over the limit; stop and send before that
+      recordingTimerRef.current = setTimeout(
+        stopRecording,
+        ASR_LIMITS.maxAudioSeconds * 1000
+      );
       console.log("[recording] Recorder started");
       setIsRecording(true);
     } catch (err: any) {
@@ -298,6 +848,10 @@ export default function HomePage() {
 
   // Stop recording if currently active
   const stopRecording = () => {
+    if (recordingTimerRef.current) {
+      clearTimeout(recordingTimerRef.current);
+      recordingTimerRef.current = null;
+    }
     if (
       mediaRecorderRef.current &&
       mediaRecorderRef.current.state !== "inactive"
@@ -316,238 +870,609 @@ export default function HomePage() {
     }
   };
 
-  const handleKeyDown = (
-    e: React.KeyboardEvent<HTMLTextAreaElement>
-  ) => {
-    // Use Enter to send, Shift + Enter for a new line
-    if (e.key === "Enter" && !e.shiftKey) {
-      e.preventDefault();
-      sendMessage();
+  function setHandsFree(phase: HandsFreePhase) {
+    handsFreePhaseRef.current = phase;
+    setHandsFreePhase(phase);
+  }
+
+  // Start hands-free conversation: the mic stays open and each pause in
+  // speech sends what was said
+  const startHandsFree = async () => {
+    setRecordingError("");
+    try {
+      // Echo cancellation keeps the reply playback from triggering barge-in
+      const stream = await requestMicrophone({
+        echoCancellation: true,
+        noiseSuppression: true,
+      });
+      if (!stream) return;
+
+      mediaStreamRef.current = stream;
+      vadRef.current = createVoiceActivityDetector();
+      startVolumeVisualization(stream, handleHandsFreeLevel);
+      resumeListening();
+    } catch (err) {
+      console.error("startHandsFree error", err);
+      setRecordingError(
+        `Could not access microphone (${
+          err instanceof Error ? err.name : "error"
+        }). Please check permissions and try again.`
+      );
+      stopHandsFree();
     }
   };
 
-  const showThinking = loading || isTranscribing;
+  const stopHandsFree = () => {
+    setHandsFree("off");
+    void stopUtteranceRecorder();
+    player.stop();
+    stopVolumeVisualization();
+    mediaStreamRef.current?.getTracks().forEach((track) => track.stop());
+    mediaStreamRef.current = null;
+    vadRef.current = null;
+  };
 
-  // TTS playback using browser's SpeechSynthesis API
-  const speakText = (text: string) => {
-    setTtsError("");
+  // Called for every mic level sample while hands-free is on
+  function handleHandsFreeLevel(level: number) {
+    const phase = handsFreePhaseRef.current;
+    const vad = vadRef.current;
+    if (!vad || (phase !== "listening" && phase !== "speaking")) return;
+
+    const now = performance.now();
+    const event = vad.update(
+      level,
+      now,
+      phase === "speaking" ? BARGE_IN_THRESHOLD : undefined
+    );
+    if (event) {
+      vadEventRef.current(event);
+    } else if (
+      phase === "listening" &&
+      !vad.speaking &&
+      utteranceRef.current &&
+      now - utteranceRef.current.startedAt > IDLE_RESTART_MS
+    ) {
+      restartUtteranceRecorder();
+    }
+  }
 
-    if (typeof window === "undefined" || !("speechSynthesis" in window)) {
-      setTtsError(
-        "Browser does not support speech playback. Please try Chrome or Edge."
-      );
+  function handleVadEvent(event: VadEvent) {
+    const phase = handsFreePhaseRef.current;
+    if (event === "speech_start" && phase === "speaking") {
+      // Barge-in: the recorder started with the reply already has the
+      // customer's words, so just stop talking and keep listening
+      setHandsFree("listening");
+      player.stop();
+    } else if (event === "speech_end" && phase === "listening") {
+      void finishUtterance();
+    }
+  }
+
+  // The customer paused: transcribe, send, read the reply out, listen again
+  async function finishUtterance() {
+    setHandsFree("transcribing");
+    const blob = await stopUtteranceRecorder();
+    const text = blob ? await transcribeAudio(blob) : "";
+    if (handsFreeEnded()) return;
+    if (!text) {
+      resumeListening();
       return;
     }
 
-    try {
-      // Cancel any ongoing speech
-      window.speechSynthesis.cancel();
+    setHandsFree("thinking");
+    const reply = await sendMessage(text, "voice");
+    if (handsFreeEnded()) return;
+    if (!reply) {
+      resumeListening();
+      return;
+    }
 
-      const utterance = new SpeechSynthesisUtterance(text);
-      // Slightly slower rate for senior-friendly playback
-      utterance.rate = 0.9;
+    setHandsFree("speaking");
+    vadRef.current?.reset();
+    startUtteranceRecorder();
+    await player.play(reply.id, reply.content, reply.language);
 
-      utterance.onstart = () => {
-        setIsSpeaking(true);
-      };
-      utterance.onend = () => {
-        setIsSpeaking(false);
-      };
-      utterance.onerror = (event) => {
-        console.error("Speech synthesis error:", event);
-        setIsSpeaking(false);
-        setTtsError("Could not play audio for this reply.");
+    // Played to the end without interruption: drop the recorded playback
+    if (handsFreePhaseRef.current === "speaking") {
+      setHandsFree("listening");
+      restartUtteranceRecorder();
+    }
+  }
+
+  // Re-read after each await: the customer may have ended the conversation
+  function handsFreeEnded() {
+    return handsFreePhaseRef.current === "off";
+  }
+
+  function resumeListening() {
+    vadRef.current?.reset();
+    setHandsFree("listening");
+    startUtteranceRecorder();
+  }
+
+  // One MediaRecorder per utterance, on the already-open hands-free stream
+  function startUtteranceRecorder() {
+    const stream = mediaStreamRef.current;
+    if (!stream || utteranceRef.current) return;
+
+    const recorder = createRecorder(stream);
+    const utterance = {
+      recorder,
+      chunks: [] as BlobPart[],
+      startedAt: performance.now(),
+    };
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) utterance.chunks.push(event.data);
+    };
+    recorder.start();
+    utteranceRef.current = utterance;
+  }
+
+  // Stop the current utterance recorder; resolves with what it heard
+  function stopUtteranceRecorder(): Promise<Blob | null> {
+    const utterance = utteranceRef.current;
+    utteranceRef.current = null;
+    if (!utterance || utterance.recorder.state === "inactive") {
+      return Promise.resolve(null);
+    }
+
+    return new Promise((resolve) => {
+      utterance.recorder.onstop = () => {
+        resolve(
+          utterance.chunks.length > 0
+            ? new Blob(utterance.chunks, {
+                type: recorderMimeType(utterance.recorder),
+              })
+            : null
+        );
       };
+      utterance.recorder.stop();
+    });
+  }
 
-      window.speechSynthesis.speak(utterance);
-    } catch (err) {
-      console.error("speakText error:", err);
-      setIsSpeaking(false);
-      setTtsError("Could not play audio for this reply.");
+  function restartUtteranceRecorder() {
+    void stopUtteranceRecorder();
+    startUtteranceRecorder();
+  }
+
+  const handleKeyDown = (
+    e: React.KeyboardEvent<HTMLTextAreaElement>
+  ) => {
+    // Use Enter to send, Shift + Enter for a new line
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      sendMessage();
     }
   };
 
+  // Once tokens start arriving the bubble itself shows progress
+  const showThinking = (loading && !isStreaming) || isTranscribing;
+
   return (
     <main className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-950 to-slate-900 text-slate-100 flex items-center justify-center px-4 py-8">
-      <div className="w-full max-w-4xl bg-slate-900/70 border border-slate-700/60 rounded-3xl shadow-2xl backdrop-blur-xl overflow-hidden flex flex-col h-[80vh]">
-        {/* Header */}
-        <header className="border-b border-slate-700/60 px-6 py-4 flex items-center justify-between">
-          <div>
-            <h1 className="text-xl font-semibold tracking-tight">
-              Zero1 Multilingual Dialect Support Demo
-            </h1>
-            <p className="text-xs text-slate-400 mt-1">
-              Type or speak in English, Singlish, Mandarin, Cantonese, Hokkien or
-              Teochew. The AI will try to reply in a matching language or dialect.
-            </p>
-          </div>
-          <div className="text-right">
-            <p className="text-[10px] uppercase tracking-[0.2em] text-slate-500">
-              Prototype
-            </p>
-            <p className="text-xs text-emerald-400">
-              Backend: GPU-enabled local LLM + ASR
-            </p>
-            <p className="text-[10px] text-slate-500 mt-1">
-              Assistant replies support text + prototype voice playback
-            </p>
-          </div>
-        </header>
-
-        {/* Chat area */}
-        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
-          {/* Loading / thinking indicator at the top of the chat area */}
-          {showThinking && (
-            <div className="flex items-center gap-2 text-xs text-emerald-300 mb-1">
-              <span className="inline-block w-2 h-2 rounded-full bg-emerald-400 animate-pulse" />
-              <span>
-                Zero1 Dialect AI is thinking of a better solution...
-              </span>
-            </div>
-          )}
-
-          {messages.length === 0 && !showThinking && (
-            <div className="h-full flex flex-col items-center justify-center text-center text-slate-400 text-sm">
-              <p className="mb-2">
-                👋 Welcome to the Zero1 Dialect AI prototype.
-              </p>
-              <p className="mb-1">You can try messages like:</p>
-              <p className="italic text-slate-300">
-                "Why my bill so high one?" or "Why did my data finish so
-                fast this month?"
+      <div className="w-full max-w-6xl bg-slate-900/70 border border-slate-700/60 rounded-3xl shadow-2xl backdrop-blur-xl overflow-hidden flex h-[80vh]">
+        <ConversationSidebar
+          history={history}
+          activeId={conversation?.id ?? null}
+          disabled={loading || isRecording || isTranscribing || handsFreeOn}
+          onSelect={openConversation}
+          onNew={startNewConversation}
+          onRename={renameConversation}
+          onDelete={deleteConversation}
+        />
+
+        <div className="flex-1 min-w-0 flex flex-col">
+          {/* Header */}
+          <header className="border-b border-slate-700/60 px-6 py-4 flex items-center justify-between">
+            <div>
+              <h1 className="text-xl font-semibold tracking-tight">
+                Zero1 Multilingual Dialect Support Demo
+              </h1>
+              <p className="text-xs text-slate-400 mt-1">
+                Type or speak in English, Singlish, Mandarin, Cantonese, Hokkien or
+                Teochew. The AI will try to reply in a matching language or dialect.
               </p>
-              <p className="mt-2 text-xs text-slate-500">
-                You can also mix languages or use Cantonese / Hokkien /
-                Teochew text. Or tap the microphone to speak.
-              </p>
-            </div>
-          )}
-
-          {messages.map((msg, idx) => (
-            <div
-              key={idx}
-              className={`flex ${
-                msg.role === "user" ? "justify-end" : "justify-start"
-              }`}
-            >
-              <div
-                className={`max-w-[80%] rounded-2xl px-4 py-2 text-sm leading-relaxed whitespace-pre-wrap ${
-                  msg.role === "user"
-                    ? "bg-emerald-500 text-slate-900 rounded-br-sm"
-                    : "bg-slate-800/80 text-slate-100 rounded-bl-sm border border-slate-700/70"
-                }`}
-              >
-                <div>{msg.content}</div>
-
-                {/* TTS play button only for assistant messages */}
-                {msg.role === "assistant" && (
+              <div className="mt-2 inline-flex rounded-full border border-slate-600 p-0.5 text-[11px]">
+                {(
+                  [
+                    ["chat", "Chat"],
+                    ["translate", "Translate"],
+                  ] as const
+                ).map(([value, label]) => (
                   <button
+                    key={value}
                     type="button"
-                    onClick={() => speakText(msg.content)}
-                    className="mt-2 inline-flex items-center text-[11px] text-emerald-300 hover:text-emerald-200 transition-colors"
+                    onClick={() => {
+                      player.stop();
+                      setMode(value);
+                    }}
+                    disabled={
+                      loading || isRecording || isTranscribing || handsFreeOn
+                    }
+                    className={`rounded-full px-3 py-0.5 transition-colors disabled:cursor-not-allowed ${
+                      mode === value
+                        ? "bg-emerald-500 text-slate-900"
+                        : "text-slate-300 hover:text-emerald-300"
+                    }`}
                   >
-                    <span className="mr-1">🔊</span>
-                    {isSpeaking ? "Playing reply..." : "Play voice reply"}
+                    {label}
                   </button>
-                )}
+                ))}
               </div>
             </div>
-          ))}
-        </div>
-
-        {/* Error messages */}
-        {errorText && (
-          <div className="px-6 pb-1 text-xs text-red-400">
-            {errorText}
-          </div>
-        )}
-        {recordingError && (
-          <div className="px-6 pb-1 text-xs text-amber-400">
-            {recordingError}
-          </div>
-        )}
-        {ttsError && (
-          <div className="px-6 pb-1 text-xs text-amber-300">
-            {ttsError}
-          </div>
-        )}
-
-        {/* Input area */}
-        <div className="border-t border-slate-700/60 px-6 py-4 space-y-2 bg-slate-900/80">
-          <div className="flex items-center justify-between gap-3 mb-1">
-            <label className="text-xs text-slate-300 flex items-center gap-2">
-              <span>Preferred reply language:</span>
-              <select
-                className="bg-slate-800 border border-slate-600 text-xs rounded-full px-3 py-1 outline-none focus:ring-1 focus:ring-emerald-400/70"
-                value={language}
-                onChange={(e) => setLanguage(e.target.value)}
+            <div className="text-right">
+              <p className="text-[10px] uppercase tracking-[0.2em] text-slate-500">
+                Prototype
+              </p>
+              <BackendStatus health={health} />
+              <CustomerSessionPicker
+                session={session}
+                disabled={loading || isRecording || isTranscribing || handsFreeOn}
+                onChange={switchCustomer}
+              />
+              <p className="text-[10px] text-slate-500 mt-1">
+                Assistant replies support text + prototype voice playback
+              </p>
+              <Link
+                href="/batch"
+                className="text-[10px] text-emerald-300 hover:text-emerald-200"
               >
-                {languageOptions.map((opt) => (
-                  <option key={opt.value} value={opt.value}>
-                    {opt.label}
-                  </option>
-                ))}
-              </select>
-            </label>
-            <p className="text-[10px] text-slate-500">
-              Press Enter to send, Shift + Enter for a new line
-            </p>
-          </div>
-
-          <div className="flex items-end gap-3">
-            {/* Microphone button for voice input + volume visualization */}
-            <div className="flex flex-col items-start gap-1">
-              <button
-                type="button"
-                onClick={handleToggleRecording}
-                disabled={loading || isTranscribing}
-                className={`flex items-center justify-center rounded-full px-3 py-2 text-xs font-medium border transition-colors ${
-                  isRecording
-                    ? "border-red-400 text-red-300 bg-red-950/40"
-                    : "border-emerald-400/70 text-emerald-300 bg-slate-900"
-                } disabled:opacity-50 disabled:cursor-not-allowed`}
+                Batch transcription →
+              </Link>
+              <Link
+                href="/agent"
+                className="ml-3 text-[10px] text-emerald-300 hover:text-emerald-200"
               >
-                <span
-                  className={`w-2 h-2 rounded-full mr-2 ${
-                    isRecording ? "bg-red-400 animate-pulse" : "bg-emerald-400"
-                  }`}
-                />
-                {isRecording
-                  ? "Listening... Tap to stop"
-                  : isTranscribing
-                  ? "Transcribing..."
-                  : "Tap to speak"}
-              </button>
-              {/* Simple volume bar (only meaningful while recording) */}
-              <div className="h-2 w-24 bg-slate-800 rounded-full overflow-hidden ml-1">
-                <div
-                  className="h-full bg-emerald-400 transition-[width] duration-75"
-                  style={{
-                    width: `${Math.round(
-                      Math.min(1, volumeLevel) * 100
-                    )}%`,
-                  }}
-                />
-              </div>
+                Agent console →
+              </Link>
+              <Link
+                href="/assist"
+                className="ml-3 text-[10px] text-emerald-300 hover:text-emerald-200"
+              >
+                Agent assist →
+              </Link>
+              <Link
+                href="/admin/analytics"
+                className="ml-3 text-[10px] text-emerald-300 hover:text-emerald-200"
+              >
+                Analytics →
+              </Link>
+              {/* Transcript for agent handoff / CRM tickets */}
+              {conversation && messages.length > 0 && (
+                <div className="mt-1 flex justify-end gap-2 text-[10px] text-slate-500">
+                  <span>Export:</span>
+                  {(
+                    [
+                      ["markdown", "Markdown"],
+                      ["json", "JSON"],
+                      ["html", "Print / PDF"],
+                    ] as const
+                  ).map(([format, label]) => (
+                    <button
+                      key={format}
+                      type="button"
+                      onClick={() => exportTranscript(format)}
+                      disabled={loading}
+                      className="text-emerald-300 hover:text-emerald-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
+          </header>
+
+          {mode === "translate" ? (
+            <TranslatePanel player={player} unavailable={llmDown} />
+          ) : (
+            <>
+              {/* Chat area */}
+              <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+                {/* Loading / thinking indicator at the top of the chat area */}
+                {showThinking && (
+                  <div className="flex items-center gap-2 text-xs text-emerald-300 mb-1">
+                    <span className="inline-block w-2 h-2 rounded-full bg-emerald-400 animate-pulse" />
+                    <span>
+                      Zero1 Dialect AI is thinking of a better solution...
+                    </span>
+                  </div>
+                )}
 
-            <textarea
-              className="flex-1 resize-none rounded-2xl border border-slate-600 bg-slate-900/80 px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-emerald-400/70 max-h-32 min-h-[48px]"
-              placeholder="Type your question here, for example: Why is my bill higher this month? You can also try Singlish or dialect phrases."
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              onKeyDown={handleKeyDown}
-            />
-            <button
-              onClick={() => sendMessage()}
-              disabled={loading || !input.trim()}
-              className="rounded-2xl px-4 py-2 text-sm font-medium bg-emerald-500 text-slate-900 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-emerald-400 transition-colors"
-            >
-              {loading
-                ? "Thinking of a better solution..."
-                : "Send"}
-            </button>
-          </div>
+                {messages.length === 0 && !showThinking && (
+                  <div className="h-full flex flex-col items-center justify-center text-center text-slate-400 text-sm">
+                    <p className="mb-2">
+                      👋 Welcome to the Zero1 Dialect AI prototype.
+                    </p>
+                    <p className="mb-1">You can try messages like:</p>
+                    <p className="italic text-slate-300">
+                      "Why my bill so high one?" or "Why did my data finish so
+                      fast this month?"
+                    </p>
+                    <p className="mt-2 text-xs text-slate-500">
+                      You can also mix languages or use Cantonese / Hokkien /
+                      Teochew text. Or tap the microphone to speak.
+                    </p>
+                  </div>
+                )}
+
+                {messages.map((msg) => (
+                  <div
+                    key={msg.id}
+                    className={`flex ${
+                      msg.role === "user" ? "justify-end" : "justify-start"
+                    }`}
+                  >
+                    <div
+                      className={`max-w-[80%] rounded-2xl px-4 py-2 text-sm leading-relaxed whitespace-pre-wrap ${
+                        msg.role === "user"
+                          ? "bg-emerald-500 text-slate-900 rounded-br-sm"
+                          : msg.role === "agent"
+                          ? "bg-sky-950/80 text-slate-100 rounded-bl-sm border border-sky-700/70"
+                          : "bg-slate-800/80 text-slate-100 rounded-bl-sm border border-slate-700/70"
+                      }`}
+                    >
+                      {msg.role === "agent" && (
+                        <p className="mb-1 text-[10px] font-medium text-sky-300">
+                          👤 {msg.author ?? "Customer service agent"}
+                        </p>
+                      )}
+                      <div>{msg.content}</div>
+
+                      {/* Language/dialect the customer actually used */}
+                      {msg.role === "user" && msg.detectedLanguage && (
+                        <span
+                          className="mt-1 inline-block rounded-full bg-slate-900/20 px-2 py-0.5 text-[10px] font-medium text-slate-800"
+                          title="Detected language / dialect"
+                        >
+                          {languageLabel(msg.detectedLanguage.language)} ·{" "}
+                          {Math.round(msg.detectedLanguage.confidence * 100)}%
+                        </span>
+                      )}
+
+                      {/* Knowledge base citations for grounded replies */}
+                      {msg.role === "assistant" &&
+                        msg.sources &&
+                        msg.sources.length > 0 && (
+                          <ul className="mt-2 pt-2 border-t border-slate-700/70 space-y-0.5 text-[11px] text-slate-400">
+                            {msg.sources.map((src) => (
+                              <li key={src.ref} title={src.source}>
+                                [{src.ref}] {src.title}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+
+                      {msg.role === "assistant" &&
+                        msg.guardrails &&
+                        msg.guardrails.length > 0 && (
+                          <p className="mt-2 text-[10px] text-amber-300">
+                            🛡{" "}
+                            {msg.guardrails
+                              .map((kind) => GUARDRAIL_NOTES[kind])
+                              .join(" · ")}
+                          </p>
+                        )}
+
+                      {/* Voice playback only for assistant messages */}
+                      {msg.role === "assistant" && (
+                        <ReplyPlayerControls
+                          player={player}
+                          id={msg.id}
+                          text={msg.content}
+                          language={msg.language}
+                        />
+                      )}
+                      {msg.role === "assistant" && msg.exchangeId && conversation && (
+                        <ReplyFeedback
+                          exchangeId={msg.exchangeId}
+                          conversationId={conversation.id}
+                          rating={msg.feedback ?? null}
+                          onRated={(feedback) =>
+                            setMessages((prev) =>
+                              prev.map((m) =>
+                                m.id === msg.id ? { ...m, feedback } : m
+                              )
+                            )
+                          }
+                        />
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Error messages */}
+              {errorText && (
+                <div className="px-6 pb-1 text-xs text-red-400">
+                  {errorText}
+                </div>
+              )}
+              {recordingError && (
+                <div className="px-6 pb-1 text-xs text-amber-400">
+                  {recordingError}
+                </div>
+              )}
+              {waitNotice && (
+                <div className="px-6 pb-1 text-xs text-sky-300">
+                  ⏳ {waitNotice}
+                </div>
+              )}
+              {player.error && (
+                <div className="px-6 pb-1 text-xs text-amber-300">
+                  {player.error}
+                </div>
+              )}
+
+              {/* Human agent handoff */}
+              {handoff && (
+                <div
+                  className={`mx-6 mb-2 rounded-xl border px-3 py-2 text-xs ${
+                    handoff.status === "closed"
+                      ? "border-slate-700 text-slate-400"
+                      : "border-sky-700/70 bg-sky-950/40 text-sky-200"
+                  }`}
+                >
+                  {handoff.status === "queued" ? (
+                    <span className="flex items-center gap-2">
+                      <span className="inline-block w-2 h-2 rounded-full bg-sky-400 animate-pulse" />
+                      Connecting you to a customer service agent... You can keep
+                      typing; they will see your messages when they join.
+                    </span>
+                  ) : handoff.status === "active" ? (
+                    <span>
+                      👤 You are now chatting with{" "}
+                      {handoff.agentName ?? "a customer service agent"}.
+                    </span>
+                  ) : (
+                    <span>
+                      The agent has ended the chat. The assistant will help you
+                      from here.
+                    </span>
+                  )}
+                </div>
+              )}
+
+              {/* Input area */}
+              <div className="border-t border-slate-700/60 px-6 py-4 space-y-2 bg-slate-900/80">
+                <div className="flex items-center justify-between gap-3 mb-1">
+                  <label className="text-xs text-slate-300 flex items-center gap-2">
+                    <span>Preferred reply language:</span>
+                    <select
+                      className="bg-slate-800 border border-slate-600 text-xs rounded-full px-3 py-1 outline-none focus:ring-1 focus:ring-emerald-400/70"
+                      value={language}
+                      onChange={(e) =>
+                        setLanguage(e.target.value as LanguageId | "auto")
+                      }
+                    >
+                      {languageOptions.map((opt) => (
+                        <option key={opt.value} value={opt.value}>
+                          {opt.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  {handsFreeOn ? (
+                    <p className="text-[11px] text-emerald-300">
+                      {HANDS_FREE_STATUS[handsFreePhase]}
+                    </p>
+                  ) : (
+                    <p className="text-[10px] text-slate-500">
+                      Press Enter to send, Shift + Enter for a new line
+                    </p>
+                  )}
+                </div>
+
+                <div className="flex items-end gap-3">
+                  {/* Microphone button for voice input + volume visualization */}
+                  <div className="flex flex-col items-start gap-1">
+                    <button
+                      type="button"
+                      onClick={handleToggleRecording}
+                      disabled={
+                        handsFreeOn ||
+                        loading ||
+                        isTranscribing ||
+                        (asrDown && !isRecording)
+                      }
+                      title={asrDown ? "Voice recognition is currently unavailable" : undefined}
+                      className={`flex items-center justify-center rounded-full px-3 py-2 text-xs font-medium border transition-colors ${
+                        isRecording
+                          ? "border-red-400 text-red-300 bg-red-950/40"
+                          : "border-emerald-400/70 text-emerald-300 bg-slate-900"
+                      } disabled:opacity-50 disabled:cursor-not-allowed`}
+                    >
+                      <span
+                        className={`w-2 h-2 rounded-full mr-2 ${
+                          isRecording ? "bg-red-400 animate-pulse" : "bg-emerald-400"
+                        }`}
+                      />
+                      {isRecording
+                        ? "Listening... Tap to stop"
+                        : isTranscribing
+                        ? "Transcribing..."
+                        : "Tap to speak"}
+                    </button>
+                    {/* Continuous conversation: speak, pause, hear the reply */}
+                    <button
+                      type="button"
+                      onClick={handsFreeOn ? stopHandsFree : startHandsFree}
+                      disabled={
+                        !handsFreeOn && (isRecording || loading || asrDown || llmDown)
+                      }
+                      className={`rounded-full px-3 py-1 text-[11px] border transition-colors ${
+                        handsFreeOn
+                          ? "border-red-400 text-red-300 bg-red-950/40"
+                          : "border-slate-600 text-slate-300 bg-slate-900 hover:border-emerald-400/70"
+                      } disabled:opacity-50 disabled:cursor-not-allowed`}
+                    >
+                      {handsFreeOn ? "End conversation" : "Hands-free mode"}
+                    </button>
+                    {/* Transcribe an existing recording instead of speaking */}
+                    <button
+                      type="button"
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={
+                        handsFreeOn || isRecording || loading || isTranscribing || asrDown
+                      }
+                      className="rounded-full px-3 py-1 text-[11px] border border-slate-600 text-slate-300 bg-slate-900 hover:border-emerald-400/70 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Upload audio
+                    </button>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept="audio/*"
+                      className="hidden"
+                      onChange={(e) => handleAudioFile(e.target.files?.[0])}
+                    />
+                    {/* Simple volume bar (only meaningful while recording) */}
+                    <div className="h-2 w-24 bg-slate-800 rounded-full overflow-hidden ml-1">
+                      <div
+                        className="h-full bg-emerald-400 transition-[width] duration-75"
+                        style={{
+                          width: `${Math.round(
+                            Math.min(1, volumeLevel) * 100
+                          )}%`,
+                        }}
+                      />
+                    </div>
+                  </div>
+
+                  <textarea
+                    className="flex-1 resize-none rounded-2xl border border-slate-600 bg-slate-900/80 px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-emerald-400/70 max-h-32 min-h-[48px]"
+                    placeholder="Type your question here, for example: Why is my bill higher this month? You can also try Singlish or dialect phrases."
+                    value={input}
+                    readOnly={isRecording || isTranscribing}
+                    onChange={(e) => setInput(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                  />
+                  {loading ? (
+                    <button
+                      type="button"
+                      onClick={stopGenerating}
+                      className="rounded-2xl px-4 py-2 text-sm font-medium border border-red-400 text-red-300 bg-red-950/40 hover:bg-red-900/40 transition-colors"
+                    >
+                      {isStreaming ? "Stop" : "Thinking... Stop"}
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => sendMessage()}
+                      disabled={!input.trim() || (llmDown && !handoffOpen)}
+                      title={
+                        llmDown && !handoffOpen
+                          ? "The assistant is currently unavailable"
+                          : undefined
+                      }
+                      className="rounded-2xl px-4 py-2 text-sm font-medium bg-emerald-500 text-slate-900 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-emerald-400 transition-colors"
+                    >
+                      Send
+                    </button>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
         </div>
       </div>
     </main>
@@ -0,0 +1,91 @@
+// components/BackendStatus.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import type {
+  BackendHealth,
+  BackendStatus as BackendStatusValue,
+  HealthResponse,
+} from "@/lib/api/contracts";
+
+const POLL_INTERVAL_MS = 30_000;
+
+// Poll /api/health; null until the first result arrives
+export function useBackendHealth(): HealthResponse | null {
+  const [health, setHealth] = useState<HealthResponse | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const check = async () => {
+      try {
+        // 503 still carries a HealthResponse body
+        const res = await fetch("/api/health", { cache: "no-store" });
+        const data = (await res.json()) as HealthResponse;
+        if (!cancelled) setHealth(data);
+      } catch (err) {
+        console.error("health check error", err);
+      }
+    };
+
+    check();
+    const timer = setInterval(check, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, []);
+
+  return health;
+}
+
+export function isBackendDown(backend: BackendHealth | undefined): boolean {
+  return backend?.status === "down" || backend?.status === "unconfigured";
+}
+
+const DOT_CLASS: Record<BackendStatusValue | "unknown", string> = {
+  up: "bg-emerald-400",
+  degraded: "bg-amber-400",
+  down: "bg-red-500",
+  unconfigured: "bg-red-500",
+  unknown: "bg-slate-500 animate-pulse",
+};
+
+function describe(name: string, backend: BackendHealth | undefined) {
+  if (!backend) return `${name}: checking...`;
+  return [
+    `${name}: ${backend.status}`,
+    backend.model && `model ${backend.model}`,
+    backend.version && `v${backend.version}`,
+    backend.latencyMs !== null && `${backend.latencyMs} ms`,
+    backend.circuit !== "closed" && `circuit ${backend.circuit}`,
+    backend.error,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+// Header pills showing the live state of the LLM and ASR backends
+export function BackendStatus({ health }: { health: HealthResponse | null }) {
+  const backends = [
+    { name: "LLM", backend: health?.llm },
+    { name: "ASR", backend: health?.asr },
+  ];
+
+  return (
+    <div className="flex items-center justify-end gap-2 text-xs">
+      {backends.map(({ name, backend }) => (
+        <span
+          key={name}
+          title={describe(name, backend)}
+          className="inline-flex items-center gap-1 rounded-full border border-slate-700/70 px-2 py-0.5 text-slate-300"
+        >
+          <span
+            className={`w-2 h-2 rounded-full ${DOT_CLASS[backend?.status ?? "unknown"]}`}
+          />
+          {name}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+// components/ConversationSidebar.tsx
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { CONVERSATION_LIMITS } from "@/lib/api/contracts";
+import { getBrowserConversationStore } from "@/lib/conversations/client";
+import { sortNewestFirst, toSummary } from "@/lib/conversations/summary";
+import type {
+  Conversation,
+  ConversationSummary,
+} from "@/lib/conversations/types";
+import { languageLabel } from "@/lib/language/languages";
+
+export type ConversationHistory = {
+  // Newest first
+  conversations: ConversationSummary[];
+  error: string;
+  save(conversation: Conversation): Promise<void>;
+  load(id: string): Promise<Conversation | null>;
+  rename(id: string, title: string): Promise<void>;
+  remove(id: string): Promise<void>;
+};
+
+// Saved conversations (IndexedDB or the server store) and the list shown
+// in the sidebar
+export function useConversationHistory(): ConversationHistory {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [error, setError] = useState("");
+  // Saves run one at a time so an older copy never overwrites a newer one
+  const saveQueueRef = useRef(Promise.resolve());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getBrowserConversationStore()
+      .then((store) => store.list())
+      .then(
+        (list) => {
+          if (!cancelled) setConversations(list);
+        },
+        (err) => {
+          console.error("conversation history error", err);
+          if (!cancelled) setError("Could not load past conversations.");
+        }
+      );
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const save = useCallback((conversation: Conversation) => {
+    saveQueueRef.current = saveQueueRef.current.then(async () => {
+      try {
+        const store = await getBrowserConversationStore();
+        await store.save(conversation);
+        setConversations((prev) =>
+          sortNewestFirst([
+            toSummary(conversation),
+            ...prev.filter((c) => c.id !== conversation.id),
+          ])
+        );
+        setError("");
+      } catch (err) {
+        console.error("conversation save error", err);
+        setError("Could not save this conversation.");
+      }
+    });
+    return saveQueueRef.current;
+  }, []);
+
+  const load = useCallback(async (id: string) => {
+    try {
+      const store = await getBrowserConversationStore();
+      const conversation = await store.get(id);
+      if (!conversation) {
+        // Deleted elsewhere (another tab, or the server store)
+        setConversations((prev) => prev.filter((c) => c.id !== id));
+      }
+      setError("");
+      return conversation;
+    } catch (err) {
+      console.error("conversation load error", err);
+      setError("Could not open that conversation.");
+      return null;
+    }
+  }, []);
+
+  const rename = useCallback(async (id: string, title: string) => {
+    try {
+      const store = await getBrowserConversationStore();
+      const summary = await store.rename(id, title);
+      setConversations((prev) =>
+        summary
+          ? prev.map((c) => (c.id === id ? summary : c))
+          : prev.filter((c) => c.id !== id)
+      );
+      setError("");
+    } catch (err) {
+      console.error("conversation rename error", err);
+      setError("Could not rename that conversation.");
+    }
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      const store = await getBrowserConversationStore();
+      await store.remove(id);
+      setConversations((prev) => prev.filter((c) => c.id !== id));
+      setError("");
+    } catch (err) {
+      console.error("conversation delete error", err);
+      setError("Could not delete that conversation.");
+    }
+  }, []);
+
+  return { conversations, error, save, load, rename, remove };
+}
+
+// Time for today's conversations, otherwise the date
+function formatUpdatedAt(iso: string): string {
+  const date = new Date(iso);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleDateString(undefined, {
+        day: "numeric",
+        month: "short",
+        year: "numeric",
+      });
+}
+
+export function ConversationSidebar({
+  history,
+  activeId,
+  disabled,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+}: {
+  history: ConversationHistory;
+  activeId: string | null;
+  // While a reply, recording or hands-free conversation is in progress
+  disabled: boolean;
+  onSelect(id: string): void;
+  onNew(): void;
+  onRename(id: string, title: string): void;
+  onDelete(id: string): void;
+}) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+
+  const startEditing = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const finishEditing = () => {
+    const title = draftTitle.trim();
+    const original = history.conversations.find((c) => c.id === editingId);
+    if (editingId && title && title !== original?.title) {
+      onRename(editingId, title);
+    }
+    setEditingId(null);
+  };
+
+  const confirmDelete = (conversation: ConversationSummary) => {
+    if (window.confirm(`Delete "${conversation.title}"? This cannot be undone.`)) {
+      onDelete(conversation.id);
+    }
+  };
+
+  return (
+    <aside className="hidden md:flex w-64 shrink-0 flex-col border-r border-slate-700/60 bg-slate-950/40">
+      <div className="px-4 py-4 border-b border-slate-700/60 flex items-center justify-between">
+        <h2 className="text-xs uppercase tracking-[0.2em] text-slate-400">
+          History
+        </h2>
+        <button
+          type="button"
+          onClick={onNew}
+          disabled={disabled}
+          className="rounded-full px-3 py-1 text-[11px] border border-emerald-400/70 text-emerald-300 hover:bg-emerald-950/40 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          + New chat
+        </button>
+      </div>
+
+      {history.error && (
+        <p className="px-4 pt-3 text-[11px] text-red-400">{history.error}</p>
+      )}
+
+      <ul className="flex-1 overflow-y-auto px-2 py-2 space-y-1">
+        {history.conversations.length === 0 && (
+          <li className="px-2 py-3 text-[11px] text-slate-500">
+            Past conversations will appear here.
+          </li>
+        )}
+
+        {history.conversations.map((conversation) => {
+          const active = conversation.id === activeId;
+
+          if (conversation.id === editingId) {
+            return (
+              <li key={conversation.id} className="px-2 py-2">
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  maxLength={CONVERSATION_LIMITS.maxTitleChars}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={finishEditing}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") finishEditing();
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  className="w-full rounded-lg border border-emerald-400/70 bg-slate-900 px-2 py-1 text-xs outline-none"
+                />
+              </li>
+            );
+          }
+
+          return (
+            <li
+              key={conversation.id}
+              className={`group rounded-xl px-2 py-2 ${
+                active ? "bg-slate-800/80" : "hover:bg-slate-800/40"
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => onSelect(conversation.id)}
+                disabled={disabled || active}
+                className="w-full text-left disabled:cursor-default"
+              >
+                <p className="text-xs text-slate-100 truncate">
+                  {conversation.title}
+                </p>
+                <p className="text-[10px] text-slate-500 mt-0.5">
+                  {conversation.language
+                    ? `${languageLabel(conversation.language)} · `
+                    : ""}
+                  {formatUpdatedAt(conversation.updatedAt)}
+                </p>
+              </button>
+              <div className="mt-1 flex gap-3 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                <button
+                  type="button"
+                  onClick={() => startEditing(conversation)}
+                  className="text-[10px] text-slate-400 hover:text-emerald-300"
+                >
+                  Rename
+                </button>
+                <button
+                  type="button"
+                  onClick={() => confirmDelete(conversation)}
+                  disabled={disabled && active}
+                  className="text-[10px] text-slate-400 hover:text-red-300 disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </aside>
+  );
+}
@@ -0,0 +1,124 @@
+// components/CustomerSession.tsx
+"use client";
+
+import { useCallback, useState } from "react";
+import { describeApiError, readApiError } from "@/lib/api/client";
+import type {
+  SessionCustomer,
+  SessionLoginRequest,
+  SessionResponse,
+} from "@/lib/api/contracts";
+
+const SESSION_ROUTE = "/api/session";
+
+export type CustomerSession = {
+  // null while signed out
+  customer: SessionCustomer | null;
+  demoCustomers: SessionCustomer[];
+  error: string;
+  // Each resolves to the customer now signed in
+  refresh(): Promise<SessionCustomer | null>;
+  signIn(customerId: string): Promise<SessionCustomer | null>;
+  signOut(): Promise<SessionCustomer | null>;
+};
+
+// Demo sign-in kept in an httpOnly cookie; the chat route reads it to
+// personalise replies and look up the right account
+export function useCustomerSession(): CustomerSession {
+  const [customer, setCustomer] = useState<SessionCustomer | null>(null);
+  const [demoCustomers, setDemoCustomers] = useState<SessionCustomer[]>([]);
+  const [error, setError] = useState("");
+
+  const request = useCallback(
+    async (init?: RequestInit): Promise<SessionCustomer | null> => {
+      try {
+        const res = await fetch(SESSION_ROUTE, init);
+        if (!res.ok) {
+          const apiError = await readApiError(res, "Session request failed");
+          setError(describeApiError(apiError, "Sign-in"));
+          return null;
+        }
+        if (res.status === 204) {
+          setCustomer(null);
+          setError("");
+          return null;
+        }
+        const data = (await res.json()) as SessionResponse;
+        setCustomer(data.customer);
+        setDemoCustomers(data.demoCustomers);
+        setError("");
+        return data.customer;
+      } catch (err) {
+        console.error("session request error", err);
+        setError("Could not reach the sign-in service.");
+        return null;
+      }
+    },
+    []
+  );
+
+  const refresh = useCallback(() => request(), [request]);
+
+  const signIn = useCallback(
+    (customerId: string) =>
+      request({
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ customerId } satisfies SessionLoginRequest),
+      }),
+    [request]
+  );
+
+  const signOut = useCallback(() => request({ method: "DELETE" }), [request]);
+
+  return { customer, demoCustomers, error, refresh, signIn, signOut };
+}
+
+// Mock login: pick which fixture customer the chat is talking to
+export function CustomerSessionPicker({
+  session,
+  disabled,
+  onChange,
+}: {
+  session: CustomerSession;
+  disabled?: boolean;
+  // After signing in or out
+  onChange(customer: SessionCustomer | null): void;
+}) {
+  const { customer, demoCustomers, error } = session;
+
+  async function select(customerId: string) {
+    const next = customerId
+      ? await session.signIn(customerId)
+      : await session.signOut();
+    if ((next?.id ?? "") === customerId) onChange(next);
+  }
+
+  return (
+    <div className="mt-1 text-[10px] text-slate-400">
+      <label>
+        Signed in as{" "}
+        <select
+          className="bg-slate-800 border border-slate-600 rounded-full px-2 py-0.5 outline-none disabled:opacity-50"
+          value={customer?.id ?? ""}
+          disabled={disabled || demoCustomers.length === 0}
+          onChange={(e) => select(e.target.value)}
+        >
+          <option value="">Guest</option>
+          {demoCustomers.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.name}
+              {c.planName ? ` · ${c.planName}` : ""}
+            </option>
+          ))}
+        </select>
+      </label>
+      {customer && (
+        <p className="text-slate-500">
+          Contract ends {customer.contractEndDate}
+        </p>
+      )}
+      {error && <p className="text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+// components/Dictation.tsx
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import { describeApiError, readApiError } from "@/lib/api/client";
+import { ASR_LIMITS, type AsrResponse } from "@/lib/api/contracts";
+import {
+  audioFileExtension,
+  createRecorder,
+  recorderMimeType,
+} from "@/lib/voice/format";
+
+const ASR_ROUTE = "/api/asr";
+
+export type Dictation = {
+  isRecording: boolean;
+  isTranscribing: boolean;
+  error: string;
+  // Record until stop() (or the length limit), then transcribe through
+  // /api/asr; null when nothing usable was heard
+  record(): Promise<AsrResponse | null>;
+  stop(): void;
+};
+
+// Push-to-talk for pages that only need the transcript, without the chat
+// page's live transcription and hands-free mode
+export function useDictation(): Dictation {
+  const [phase, setPhase] = useState<"idle" | "recording" | "transcribing">(
+    "idle"
+  );
+  const [error, setError] = useState("");
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const stop = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    if (recorderRef.current && recorderRef.current.state !== "inactive") {
+      recorderRef.current.stop();
+    }
+    recorderRef.current = null;
+  }, []);
+
+  const record = useCallback(async (): Promise<AsrResponse | null> => {
+    setError("");
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError("Microphone is not supported in this browser.");
+      return null;
+    }
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      console.error("dictation microphone error", err);
+      setError(
+        `Could not access microphone (${(err as Error)?.name || "error"}). Please check permissions and try again.`
+      );
+      return null;
+    }
+
+    const recorder = createRecorder(stream);
+    const mimeType = recorderMimeType(recorder);
+    const chunks: Blob[] = [];
+    const stopped = new Promise<Blob>((resolve) => {
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = () => {
+        stream.getTracks().forEach((track) => track.stop());
+        resolve(new Blob(chunks, { type: mimeType }));
+      };
+    });
+
+    recorderRef.current = recorder;
+    recorder.start();
+    timerRef.current = setTimeout(stop, ASR_LIMITS.maxAudioSeconds * 1000);
+    setPhase("recording");
+
+    const audio = await stopped;
+    if (audio.size === 0) {
+      setPhase("idle");
+      return null;
+    }
+
+    setPhase("transcribing");
+    try {
+      const formData = new FormData();
+      formData.append("audio", audio, `audio.${audioFileExtension(audio.type)}`);
+      const res = await fetch(ASR_ROUTE, { method: "POST", body: formData });
+      if (!res.ok) {
+        const apiError = await readApiError(res, "ASR request failed");
+        setError(describeApiError(apiError, "Voice recognition"));
+        return null;
+      }
+      const data = (await res.json()) as AsrResponse;
+      if (!data.text.trim()) {
+        setError("Nothing was recognised. Please try again or type it in.");
+        return null;
+      }
+      return data;
+    } catch (err) {
+      console.error("dictation transcription error", err);
+      setError("Voice recognition failed. Please try again or type it in.");
+      return null;
+    } finally {
+      setPhase("idle");
+    }
+  }, [stop]);
+
+  return {
+    isRecording: phase === "recording",
+    isTranscribing: phase === "transcribing",
+    error,
+    record,
+    stop,
+  };
+}
+
+export function DictateButton({
+  dictation,
+  disabled,
+  onResult,
+}: {
+  dictation: Dictation;
+  disabled?: boolean;
+  onResult(result: AsrResponse): void;
+}) {
+  const toggle = async () => {
+    if (dictation.isRecording) {
+      dictation.stop();
+      return;
+    }
+    const result = await dictation.record();
+    if (result) onResult(result);
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={toggle}
+      disabled={(disabled && !dictation.isRecording) || dictation.isTranscribing}
+      className={`rounded-full px-3 py-1.5 text-xs border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+        dictation.isRecording
+          ? "border-red-400 text-red-300 bg-red-950/40 animate-pulse"
+          : "border-emerald-400/70 text-emerald-300 hover:bg-emerald-950/40"
+      }`}
+    >
+      {dictation.isRecording
+        ? "■ Stop"
+        : dictation.isTranscribing
+        ? "Transcribing..."
+        : "🎙 Dictate"}
+    </button>
+  );
+}
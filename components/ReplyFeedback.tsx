@@ -0,0 +1,87 @@
+// components/ReplyFeedback.tsx
+"use client";
+
+import { useState } from "react";
+import { describeApiError, readApiError } from "@/lib/api/client";
+import type { FeedbackRequest } from "@/lib/api/contracts";
+import type { FeedbackRating } from "@/lib/analytics/types";
+
+const FEEDBACK_ROUTE = "/api/analytics/feedback";
+
+// Thumbs under a reply, counted on /admin/analytics. Clicking the chosen
+// thumb again takes the rating back.
+export function ReplyFeedback({
+  exchangeId,
+  conversationId,
+  rating,
+  onRated,
+}: {
+  exchangeId: string;
+  // Conversation the reply belongs to
+  conversationId: string;
+  rating: FeedbackRating | null;
+  // After the server stored the new rating
+  onRated(rating: FeedbackRating | null): void;
+}) {
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState("");
+
+  async function rate(choice: FeedbackRating) {
+    const next = rating === choice ? null : choice;
+    setSending(true);
+    setError("");
+    try {
+      const res = await fetch(FEEDBACK_ROUTE, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          exchangeId,
+          conversationId,
+          rating: next,
+        } satisfies FeedbackRequest),
+      });
+      if (!res.ok) {
+        const apiError = await readApiError(res, "Feedback request failed");
+        setError(describeApiError(apiError, "Feedback"));
+        return;
+      }
+      onRated(next);
+    } catch (err) {
+      console.error("feedback request error", err);
+      setError("Could not send feedback.");
+    } finally {
+      setSending(false);
+    }
+  }
+
+  const buttonClass = (choice: FeedbackRating) =>
+    `rounded-full px-1.5 text-[11px] transition-opacity disabled:cursor-not-allowed ${
+      rating === choice ? "bg-slate-700 opacity-100" : "opacity-50 hover:opacity-100"
+    }`;
+
+  return (
+    <div className="mt-1 flex items-center gap-1">
+      <button
+        type="button"
+        onClick={() => rate("up")}
+        disabled={sending}
+        title="Helpful"
+        aria-pressed={rating === "up"}
+        className={buttonClass("up")}
+      >
+        👍
+      </button>
+      <button
+        type="button"
+        onClick={() => rate("down")}
+        disabled={sending}
+        title="Not helpful"
+        aria-pressed={rating === "down"}
+        className={buttonClass("down")}
+      >
+        👎
+      </button>
+      {error && <span className="text-[10px] text-red-400">{error}</span>}
+    </div>
+  );
+}
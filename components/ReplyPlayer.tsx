@@ -0,0 +1,346 @@
+// components/ReplyPlayer.tsx
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { readApiError } from "@/lib/api/client";
+import { TTS_LIMITS, type TtsRequest } from "@/lib/api/contracts";
+import { languageTag, type LanguageId } from "@/lib/language/languages";
+import { resolveSpeechLanguage, splitForSpeech } from "@/lib/tts/text";
+
+// Server-side voices; the browser's SpeechSynthesis is the fallback
+const TTS_ROUTE = "/api/tts";
+
+// Slightly slower rate for senior-friendly playback
+const SPEECH_RATE = 0.9;
+
+export type PlaybackStatus = "loading" | "playing" | "paused";
+
+export type ReplyPlayer = {
+  // Message being loaded, played or paused (null when idle)
+  activeId: string | null;
+  status: PlaybackStatus | null;
+  error: string;
+  // Resolves once playback finishes, fails or is stopped
+  play(id: string, text: string, language?: LanguageId | null): Promise<void>;
+  pause(): void;
+  resume(): void;
+  stop(): void;
+};
+
+// One play() call; replaced (and cancelled) by the next
+type PlaybackSession = {
+  controller: AbortController;
+  audio: HTMLAudioElement | null;
+  speaking: boolean;
+  // Settles whatever clip or utterance is currently playing
+  finish: (() => void) | null;
+};
+
+export function useReplyPlayer(): ReplyPlayer {
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [status, setStatus] = useState<PlaybackStatus | null>(null);
+  const [error, setError] = useState("");
+
+  const sessionRef = useRef<PlaybackSession | null>(null);
+  // Cleared once the server says TTS is not configured, so later replies
+  // go straight to the browser voice
+  const serverTtsRef = useRef(true);
+
+  const stop = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    sessionRef.current = null;
+
+    session.controller.abort();
+    session.audio?.pause();
+    if (session.speaking) window.speechSynthesis.cancel();
+    session.finish?.();
+
+    setActiveId(null);
+    setStatus(null);
+  }, []);
+
+  const play = useCallback(
+    async (id: string, text: string, language?: LanguageId | null) => {
+      stop();
+
+      const session: PlaybackSession = {
+        controller: new AbortController(),
+        audio: null,
+        speaking: false,
+        finish: null,
+      };
+      sessionRef.current = session;
+      const isCurrent = () => sessionRef.current === session;
+
+      setActiveId(id);
+      setStatus("loading");
+      setError("");
+
+      const speechLanguage = resolveSpeechLanguage(text, language);
+      const chunks = splitForSpeech(text, TTS_LIMITS.maxTextChars);
+      const onPlaying = () => {
+        if (isCurrent()) setStatus("playing");
+      };
+
+      try {
+        let played = 0;
+        if (serverTtsRef.current) {
+          played = await playFromServer(
+            session,
+            chunks,
+            speechLanguage,
+            onPlaying,
+            () => {
+              serverTtsRef.current = false;
+            }
+          );
+        }
+
+        // Whatever the server could not voice is read by the browser
+        for (const chunk of chunks.slice(played)) {
+          if (!isCurrent()) break;
+          await speakWithBrowser(session, chunk, speechLanguage, onPlaying);
+        }
+      } catch (err) {
+        console.error("reply playback error:", err);
+        if (isCurrent()) {
+          setError(
+            err instanceof SpeechUnsupportedError
+              ? "Browser does not support speech playback. Please try Chrome or Edge."
+              : "Could not play audio for this reply."
+          );
+        }
+      } finally {
+        if (isCurrent()) {
+          sessionRef.current = null;
+          setActiveId(null);
+          setStatus(null);
+        }
+      }
+    },
+    [stop]
+  );
+
+  const pause = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    if (session.audio) {
+      session.audio.pause();
+    } else if (session.speaking) {
+      window.speechSynthesis.pause();
+    } else {
+      return;
+    }
+    setStatus("paused");
+  }, []);
+
+  const resume = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    if (session.audio) {
+      session.audio.play().catch(() => {});
+    } else if (session.speaking) {
+      window.speechSynthesis.resume();
+    } else {
+      return;
+    }
+    setStatus("playing");
+  }, []);
+
+  // Leaving the page must not keep talking
+  useEffect(() => stop, [stop]);
+
+  return { activeId, status, error, play, pause, resume, stop };
+}
+
+class SpeechUnsupportedError extends Error {}
+
+// Play chunks from /api/tts in order, fetching the next while the current
+// one plays. Returns how many chunks were played before the server failed.
+async function playFromServer(
+  session: PlaybackSession,
+  chunks: string[],
+  language: LanguageId,
+  onPlaying: () => void,
+  onUnconfigured: () => void
+): Promise<number> {
+  const signal = session.controller.signal;
+  let next = chunks.length > 0 ? fetchClip(chunks[0], language, signal) : null;
+
+  for (let i = 0; i < chunks.length; i++) {
+    const clip = await next;
+    if (signal.aborted) return chunks.length;
+
+    if (clip === "unconfigured") onUnconfigured();
+    if (!(clip instanceof Blob)) return i;
+
+    next = i + 1 < chunks.length ? fetchClip(chunks[i + 1], language, signal) : null;
+
+    try {
+      await playClip(session, clip, onPlaying);
+    } catch (err) {
+      console.warn("TTS clip could not be played, using browser voice:", err);
+      return i;
+    }
+  }
+
+  return chunks.length;
+}
+
+// Fetch one clip; never throws so a prefetch cannot go unhandled
+async function fetchClip(
+  text: string,
+  language: LanguageId,
+  signal: AbortSignal
+): Promise<Blob | "unconfigured" | null> {
+  const body: TtsRequest = { text, language };
+
+  try {
+    const res = await fetch(TTS_ROUTE, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!res.ok) {
+      const error = await readApiError(res, "TTS request failed");
+      if (error.code === "CONFIG_ERROR") return "unconfigured";
+      console.warn("TTS /api/tts non-OK, using browser voice:", res.status, error);
+      return null;
+    }
+    return await res.blob();
+  } catch (err) {
+    if (!signal.aborted) console.warn("TTS request failed:", err);
+    return null;
+  }
+}
+
+function playClip(
+  session: PlaybackSession,
+  clip: Blob,
+  onPlaying: () => void
+): Promise<void> {
+  const url = URL.createObjectURL(clip);
+  const audio = new Audio(url);
+  session.audio = audio;
+
+  return new Promise<void>((resolve, reject) => {
+    audio.onended = () => resolve();
+    audio.onerror = () => reject(new Error("Audio playback failed"));
+    session.finish = resolve;
+    audio.play().then(onPlaying, reject);
+  }).finally(() => {
+    session.audio = null;
+    session.finish = null;
+    URL.revokeObjectURL(url);
+  });
+}
+
+function speakWithBrowser(
+  session: PlaybackSession,
+  text: string,
+  language: LanguageId,
+  onPlaying: () => void
+): Promise<void> {
+  if (typeof window === "undefined" || !("speechSynthesis" in window)) {
+    return Promise.reject(new SpeechUnsupportedError());
+  }
+
+  const tag = languageTag(language);
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = tag;
+  // Without an explicit voice some browsers ignore `lang` entirely
+  const voice = pickVoice(tag);
+  if (voice) utterance.voice = voice;
+  utterance.rate = SPEECH_RATE;
+
+  session.speaking = true;
+
+  return new Promise<void>((resolve, reject) => {
+    utterance.onstart = onPlaying;
+    utterance.onend = () => resolve();
+    utterance.onerror = (event) => {
+      // Cancelled by stop() or by another page speaking
+      if (event.error === "canceled" || event.error === "interrupted") {
+        resolve();
+      } else {
+        reject(new Error(`Speech synthesis error: ${event.error}`));
+      }
+    };
+    session.finish = resolve;
+    window.speechSynthesis.speak(utterance);
+  }).finally(() => {
+    session.speaking = false;
+    session.finish = null;
+  });
+}
+
+// Installed voice for a BCP 47 tag: exact match first (zh-HK), then any
+// voice for the same language (zh-*)
+function pickVoice(tag: string): SpeechSynthesisVoice | null {
+  const voices = window.speechSynthesis.getVoices();
+  const normalise = (lang: string) => lang.replace("_", "-").toLowerCase();
+  const wanted = tag.toLowerCase();
+  const base = wanted.split("-")[0];
+
+  return (
+    voices.find((v) => normalise(v.lang) === wanted) ??
+    voices.find((v) => normalise(v.lang).split("-")[0] === base) ??
+    null
+  );
+}
+
+// Play / pause / stop buttons under one assistant reply
+export function ReplyPlayerControls({
+  player,
+  id,
+  text,
+  language,
+  label = "Play voice reply",
+}: {
+  player: ReplyPlayer;
+  id: string;
+  text: string;
+  language?: LanguageId | null;
+  label?: string;
+}) {
+  const buttonClass =
+    "inline-flex items-center text-[11px] text-emerald-300 hover:text-emerald-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  if (player.activeId !== id) {
+    return (
+      <button
+        type="button"
+        onClick={() => player.play(id, text, language)}
+        disabled={!text.trim()}
+        className={`mt-2 ${buttonClass}`}
+      >
+        <span className="mr-1">🔊</span>
+        {label}
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-2 flex items-center gap-3">
+      {player.status === "loading" ? (
+        <span className="text-[11px] text-slate-400">Loading voice...</span>
+      ) : player.status === "paused" ? (
+        <button type="button" onClick={player.resume} className={buttonClass}>
+          <span className="mr-1">▶</span>
+          Resume
+        </button>
+      ) : (
+        <button type="button" onClick={player.pause} className={buttonClass}>
+          <span className="mr-1">⏸</span>
+          Pause
+        </button>
+      )}
+      <button type="button" onClick={player.stop} className={buttonClass}>
+        <span className="mr-1">⏹</span>
+        Stop
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+// components/StaffSignIn.tsx
+"use client";
+
+import { useState } from "react";
+import { describeApiError, readApiError } from "@/lib/api/client";
+import type {
+  StaffLoginRequest,
+  StaffSessionResponse,
+} from "@/lib/api/contracts";
+
+// Whether this browser holds the staff page's sign-in cookie
+export async function readStaffSignedIn(route: string): Promise<boolean> {
+  try {
+    const res = await fetch(route, { cache: "no-store" });
+    return res.ok && ((await res.json()) as StaffSessionResponse).signedIn;
+  } catch {
+    return false;
+  }
+}
+
+export async function staffSignOut(route: string) {
+  await fetch(route, { method: "DELETE" }).catch(() => {});
+}
+
+// Token form shown by the staff pages until they are signed in
+export function StaffSignIn({
+  route,
+  tokenLabel,
+  purpose,
+  service,
+  onSignedIn,
+}: {
+  // The page's session route, e.g. /api/agent/session
+  route: string;
+  // e.g. "Agent token"
+  tokenLabel: string;
+  // What signing in shows, e.g. "see handed-over conversations"
+  purpose: string;
+  // Names the page in error messages
+  service: string;
+  onSignedIn(): void;
+}) {
+  const [token, setToken] = useState("");
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState("");
+
+  async function signIn() {
+    setSending(true);
+    setError("");
+    try {
+      const res = await fetch(route, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token } satisfies StaffLoginRequest),
+      });
+      if (!res.ok) {
+        const apiError = await readApiError(res, "Sign-in failed");
+        setError(describeApiError(apiError, service));
+        return;
+      }
+      setToken("");
+      onSignedIn();
+    } catch (err) {
+      console.error("staff sign-in error", err);
+      setError("Network request failed. Please try again.");
+    } finally {
+      setSending(false);
+    }
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        signIn();
+      }}
+      className="flex-1 flex flex-col items-center justify-center gap-3 text-sm"
+    >
+      <p className="text-slate-400">
+        Enter the {tokenLabel.toLowerCase()} to {purpose}.
+      </p>
+      <div className="flex items-center gap-2">
+        <input
+          type="password"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          placeholder={tokenLabel}
+          autoComplete="current-password"
+          className="rounded-lg border border-slate-600 bg-slate-900 px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-emerald-400/70"
+        />
+        <button
+          type="submit"
+          disabled={!token || sending}
+          className="rounded-2xl px-4 py-2 text-sm font-medium bg-emerald-500 text-slate-900 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-emerald-400 transition-colors"
+        >
+          Sign in
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </form>
+  );
+}
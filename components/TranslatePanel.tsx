@@ -0,0 +1,258 @@
+// components/TranslatePanel.tsx
+"use client";
+
+import { useState } from "react";
+import { DictateButton, useDictation } from "@/components/Dictation";
+import { ReplyPlayerControls, type ReplyPlayer } from "@/components/ReplyPlayer";
+import {
+  describeApiError,
+  readApiError,
+  retryAfterSeconds,
+} from "@/lib/api/client";
+import {
+  TRANSLATE_LIMITS,
+  type TranslateRequest,
+  type TranslateResponse,
+  type TranslationText,
+} from "@/lib/api/contracts";
+import {
+  TRANSLATION_LANGUAGES,
+  translationLanguage,
+  type TranslationLanguageId,
+} from "@/lib/translate/languages";
+
+const TRANSLATE_ROUTE = "/api/translate";
+
+// Player ids for the two sides; chat messages use their message ids
+const SOURCE_PLAYER_ID = "translate-source";
+const TARGET_PLAYER_ID = "translate-target";
+
+// Translation mode of the main page: a message in one language or dialect
+// next to its translation, each with romanisation and playback
+export function TranslatePanel({
+  player,
+  unavailable,
+}: {
+  player: ReplyPlayer;
+  // LLM backend is down
+  unavailable: boolean;
+}) {
+  const [text, setText] = useState("");
+  const [from, setFrom] = useState<TranslationLanguageId | "auto">("auto");
+  const [to, setTo] = useState<TranslationLanguageId>("hokkien");
+  const [result, setResult] = useState<TranslateResponse | null>(null);
+  const [translating, setTranslating] = useState(false);
+  const [errorText, setErrorText] = useState("");
+
+  const dictation = useDictation();
+  const busy = translating || dictation.isRecording || dictation.isTranscribing;
+  // Text edited (or languages changed) since the last translation
+  const stale =
+    result !== null &&
+    (result.source.text !== text.trim() ||
+      result.target.language !== to ||
+      (from !== "auto" && result.source.language !== from));
+
+  async function translate() {
+    const message = text.trim();
+    if (!message || busy || from === to) return;
+
+    setErrorText("");
+    setTranslating(true);
+    try {
+      const res = await fetch(TRANSLATE_ROUTE, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          text: message,
+          from: from === "auto" ? undefined : from,
+          to,
+        } satisfies TranslateRequest),
+      });
+
+      if (!res.ok) {
+        const error = await readApiError(res, "Translation request failed");
+        const seconds = retryAfterSeconds(error);
+        setErrorText(
+          error.code === "RATE_LIMITED" && seconds
+            ? `Too many requests. Please wait ${seconds} seconds and try again.`
+            : describeApiError(error, "The translator")
+        );
+        return;
+      }
+
+      player.stop();
+      setResult((await res.json()) as TranslateResponse);
+    } catch (err) {
+      console.error("translate request error", err);
+      setErrorText("Network request failed. Please try again.");
+    } finally {
+      setTranslating(false);
+    }
+  }
+
+  // Translate back the other way, starting from the current translation
+  function swap() {
+    const source = result?.source.language ?? (from === "auto" ? null : from);
+    if (!source) return;
+    setFrom(to);
+    setTo(source);
+    if (result) setText(result.target.text);
+    setResult(null);
+    player.stop();
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+      {/* Languages */}
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <select
+          className="bg-slate-800 border border-slate-600 rounded-full px-3 py-1 outline-none focus:ring-1 focus:ring-emerald-400/70"
+          value={from}
+          onChange={(e) =>
+            setFrom(e.target.value as TranslationLanguageId | "auto")
+          }
+        >
+          <option value="auto">Detect language</option>
+          {TRANSLATION_LANGUAGES.map((lang) => (
+            <option key={lang.value} value={lang.value}>
+              {lang.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={swap}
+          disabled={busy || (from === "auto" && !result)}
+          title="Swap languages"
+          className="rounded-full px-2 py-1 border border-slate-600 text-slate-300 hover:text-emerald-300 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          ⇄
+        </button>
+        <select
+          className="bg-slate-800 border border-slate-600 rounded-full px-3 py-1 outline-none focus:ring-1 focus:ring-emerald-400/70"
+          value={to}
+          onChange={(e) => setTo(e.target.value as TranslationLanguageId)}
+        >
+          {TRANSLATION_LANGUAGES.map((lang) => (
+            <option key={lang.value} value={lang.value}>
+              {lang.label}
+            </option>
+          ))}
+        </select>
+        {from === to && (
+          <span className="text-amber-300">Pick two different languages.</span>
+        )}
+      </div>
+
+      {/* Side by side */}
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="rounded-2xl border border-slate-700/70 bg-slate-800/40 p-3 space-y-2">
+          <textarea
+            className="w-full resize-none rounded-xl border border-slate-600 bg-slate-900/80 px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-emerald-400/70 min-h-[140px]"
+            placeholder="Type or dictate the message to translate..."
+            value={text}
+            maxLength={TRANSLATE_LIMITS.maxTextChars}
+            readOnly={dictation.isRecording || dictation.isTranscribing}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                translate();
+              }
+            }}
+          />
+          {result && !stale && <TranslationDetails side={result.source} />}
+          <div className="flex items-center justify-between gap-3">
+            <DictateButton
+              dictation={dictation}
+              disabled={translating}
+              onResult={({ text: heard, detectedLanguage }) => {
+                setText((prev) =>
+                  [prev.trim(), heard.trim()].filter(Boolean).join(" ")
+                );
+                // Detection covers reply languages, which are also
+                // translation languages (English standing for Singlish)
+                if (from === "auto" && detectedLanguage) {
+                  setFrom(detectedLanguage.language);
+                }
+              }}
+            />
+            {result && !stale && (
+              <ReplyPlayerControls
+                player={player}
+                id={SOURCE_PLAYER_ID}
+                text={result.source.text}
+                language={translationLanguage(result.source.language).speech}
+                label="Play"
+              />
+            )}
+          </div>
+        </div>
+
+        <div
+          className={`rounded-2xl border border-slate-700/70 bg-slate-800/40 p-3 space-y-2 ${
+            stale ? "opacity-60" : ""
+          }`}
+        >
+          {result ? (
+            <>
+              <p className="min-h-[140px] px-3 py-2 text-sm leading-relaxed whitespace-pre-wrap">
+                {result.target.text}
+              </p>
+              <TranslationDetails side={result.target} />
+              <ReplyPlayerControls
+                player={player}
+                id={TARGET_PLAYER_ID}
+                text={result.target.text}
+                language={translationLanguage(result.target.language).speech}
+                label="Play"
+              />
+            </>
+          ) : (
+            <p className="min-h-[140px] px-3 py-2 text-sm text-slate-500">
+              The translation appears here.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={translate}
+          disabled={!text.trim() || busy || from === to || unavailable}
+          title={unavailable ? "The translator is currently unavailable" : undefined}
+          className="rounded-2xl px-4 py-2 text-sm font-medium bg-emerald-500 text-slate-900 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-emerald-400 transition-colors"
+        >
+          {translating ? "Translating..." : "Translate"}
+        </button>
+        {stale && (
+          <span className="text-[11px] text-amber-300">
+            Changed since the last translation; translate again.
+          </span>
+        )}
+        {(errorText || dictation.error || player.error) && (
+          <span className="text-xs text-red-400">
+            {errorText || dictation.error || player.error}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function TranslationDetails({ side }: { side: TranslationText }) {
+  const { label, romanisation } = translationLanguage(side.language);
+  return (
+    <div className="text-[11px] text-slate-400 space-y-0.5">
+      <p className="text-slate-500">{label}</p>
+      {side.romanisation && (
+        <p>
+          <span className="text-slate-500">{romanisation}: </span>
+          {side.romanisation}
+        </p>
+      )}
+    </div>
+  );
+}
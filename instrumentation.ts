@@ -0,0 +1,20 @@
+// instrumentation.ts
+
+// Runs once when the server starts: fail fast on broken prompt packs
+// instead of on the first chat request.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { loadPromptPacks, PromptPackError } = await import(
+    "@/lib/prompts/packs"
+  );
+
+  try {
+    await loadPromptPacks();
+  } catch (err) {
+    if (err instanceof PromptPackError) {
+      console.error(`[startup] ${err.message}:\n- ${err.problems.join("\n- ")}`);
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,104 @@
+// lib/analytics/feedback.ts
+// Which exchanges may still be rated, and the rating each holds. A rating
+// is only taken for an exchange this server recorded, from the conversation
+// it belongs to, and only when it changes something, so the feedback log
+// cannot be filled with made-up or repeated votes. Filled from the store
+// on the first rating after a restart, then kept up to date in memory.
+import type { FeedbackRequest } from "@/lib/api/contracts";
+import { ApiError } from "@/lib/api/errors";
+import type { AnalyticsStore, ExchangeEvent, FeedbackRating } from "./types";
+
+// Replies older than this can no longer be rated
+const RATING_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+type RatableExchange = {
+  at: string;
+  conversationId: string | null;
+  rating: FeedbackRating | null;
+};
+
+const exchanges = new Map<string, RatableExchange>();
+let loaded: Promise<void> | null = null;
+
+function isExpired(exchange: RatableExchange, now = Date.now()): boolean {
+  return Date.parse(exchange.at) < now - RATING_WINDOW_MS;
+}
+
+// Called as an exchange is recorded, before the write lands
+export function noteExchange(event: ExchangeEvent) {
+  exchanges.set(event.id, {
+    at: event.at,
+    conversationId: event.conversationId,
+    rating: null,
+  });
+  // Oldest first, give or take the ones read back from the store
+  for (const [id, exchange] of exchanges) {
+    if (!isExpired(exchange)) break;
+    exchanges.delete(id);
+  }
+}
+
+async function loadRecent(store: AnalyticsStore) {
+  const until = new Date();
+  const since = new Date(until.getTime() - RATING_WINDOW_MS);
+  const events = await store.list(since, until);
+  for (const event of events) {
+    if (event.type === "exchange" && !exchanges.has(event.id)) {
+      exchanges.set(event.id, {
+        at: event.at,
+        conversationId: event.conversationId,
+        rating: null,
+      });
+    }
+  }
+  for (const event of events.sort((a, b) => a.at.localeCompare(b.at))) {
+    if (event.type !== "feedback") continue;
+    const exchange = exchanges.get(event.exchangeId);
+    if (exchange && exchange.conversationId === event.conversationId) {
+      exchange.rating = event.rating;
+    }
+  }
+}
+
+// Store a rating, or throw NOT_FOUND / CONFLICT without writing anything
+export async function recordFeedback(
+  store: AnalyticsStore,
+  { exchangeId, conversationId, rating }: FeedbackRequest
+) {
+  loaded ??= loadRecent(store).catch((err) => {
+    loaded = null;
+    throw err;
+  });
+  await loaded;
+
+  const exchange = exchanges.get(exchangeId);
+  if (
+    !exchange ||
+    isExpired(exchange) ||
+    exchange.conversationId !== conversationId
+  ) {
+    throw new ApiError("NOT_FOUND", "No reply to rate with this id");
+  }
+  if (exchange.rating === rating) {
+    throw new ApiError(
+      "CONFLICT",
+      rating ? "This reply already has that rating" : "This reply is not rated"
+    );
+  }
+
+  // Claimed before the write so a second request cannot slip in meanwhile
+  const previous = exchange.rating;
+  exchange.rating = rating;
+  try {
+    await store.record({
+      type: "feedback",
+      at: new Date().toISOString(),
+      exchangeId,
+      conversationId,
+      rating,
+    });
+  } catch (err) {
+    exchange.rating = previous;
+    throw err;
+  }
+}
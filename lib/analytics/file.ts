@@ -0,0 +1,63 @@
+// lib/analytics/file.ts
+// Append-only JSON lines, one file per UTC day, so a date range only reads
+// the days it covers. Good for a single-instance demo.
+import { promises as fs } from "fs";
+import path from "path";
+import type { AnalyticsEvent, AnalyticsStore } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function createFileAnalyticsStore(dir: string): AnalyticsStore {
+  const fileFor = (day: string) => path.join(dir, `${day}.jsonl`);
+
+  async function readDay(day: string): Promise<AnalyticsEvent[]> {
+    let text: string;
+    try {
+      text = await fs.readFile(fileFor(day), "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw err;
+    }
+    const events: AnalyticsEvent[] = [];
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        events.push(JSON.parse(line) as AnalyticsEvent);
+      } catch {
+        // Line cut short by a crash mid-write; the rest of the day is fine
+      }
+    }
+    return events;
+  }
+
+  return {
+    name: "file",
+
+    async record(event) {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.appendFile(
+        fileFor(event.at.slice(0, 10)),
+        JSON.stringify(event) + "\n",
+        "utf8"
+      );
+    },
+
+    async list(since, until) {
+      const days: string[] = [];
+      const start = Date.UTC(
+        since.getUTCFullYear(),
+        since.getUTCMonth(),
+        since.getUTCDate()
+      );
+      for (let t = start; t < until.getTime(); t += DAY_MS) {
+        days.push(new Date(t).toISOString().slice(0, 10));
+      }
+
+      const from = since.toISOString();
+      const to = until.toISOString();
+      return (await Promise.all(days.map(readDay)))
+        .flat()
+        .filter((event) => event.at >= from && event.at < to);
+    },
+  };
+}
@@ -0,0 +1,94 @@
+// lib/analytics/index.ts
+import path from "path";
+import type {
+  AnalyticsQuery,
+  AnalyticsSummary,
+  FeedbackRequest,
+} from "@/lib/api/contracts";
+import { ApiError } from "@/lib/api/errors";
+import { logger } from "@/lib/logger";
+import { noteExchange, recordFeedback } from "./feedback";
+import { createFileAnalyticsStore } from "./file";
+import { rangeBounds, summarizeAnalytics } from "./summary";
+import type { AnalyticsEvent, AnalyticsStore, AsrEvent } from "./types";
+
+export * from "./types";
+export { classifyTopic, topicLabel, TOPICS } from "./topics";
+
+const DEFAULT_DIR = ".data/analytics";
+
+function storeName(): string {
+  return (process.env.ANALYTICS_STORE || "file").toLowerCase();
+}
+
+// Where exchanges are recorded for the admin dashboard, from env:
+//   ANALYTICS_STORE = "file" (default) | "none"
+export function getAnalyticsStore(): AnalyticsStore {
+  const name = storeName();
+
+  switch (name) {
+    case "file":
+      return createFileAnalyticsStore(
+        path.resolve(process.cwd(), process.env.ANALYTICS_DIR || DEFAULT_DIR)
+      );
+
+    case "none":
+      throw new ApiError(
+        "CONFIG_ERROR",
+        "Conversation analytics are disabled (ANALYTICS_STORE)"
+      );
+
+    default:
+      throw new ApiError(
+        "CONFIG_ERROR",
+        `Unknown ANALYTICS_STORE "${name}" (expected file or none)`
+      );
+  }
+}
+
+export function isAnalyticsEnabled(): boolean {
+  return storeName() !== "none";
+}
+
+// Fire and forget: a failed write is logged, never shown to the customer
+export function recordAnalytics(event: AnalyticsEvent) {
+  if (!isAnalyticsEnabled()) return;
+  if (event.type === "exchange") noteExchange(event);
+  Promise.resolve()
+    .then(() => getAnalyticsStore().record(event))
+    .catch((err) => {
+      logger.error("Analytics write failed", { type: event.type, err });
+    });
+}
+
+// One transcription request. Only server-side failures count against
+// the ASR; bad uploads and rate limits are the client's.
+export function recordAsr(
+  source: AsrEvent["source"],
+  startedAt: number,
+  result: { text: string } | { error: ApiError }
+) {
+  if ("error" in result && result.error.status < 500) return;
+  recordAnalytics({
+    type: "asr",
+    at: new Date().toISOString(),
+    source,
+    outcome: "error" in result ? "error" : result.text.trim() ? "ok" : "empty",
+    errorCode: "error" in result ? result.error.code : null,
+    latencyMs: Math.round(performance.now() - startedAt),
+  });
+}
+
+// Thumbs on a reply; throws unless the rating is for a recent exchange of
+// that conversation and changes its current rating
+export async function rateExchange(request: FeedbackRequest) {
+  await recordFeedback(getAnalyticsStore(), request);
+}
+
+export async function loadAnalyticsSummary(
+  query: AnalyticsQuery
+): Promise<AnalyticsSummary> {
+  const { since, until } = rangeBounds(query);
+  const events = await getAnalyticsStore().list(since, until);
+  return summarizeAnalytics(events, query);
+}
@@ -0,0 +1,146 @@
+// lib/analytics/summary.ts
+import type { AnalyticsQuery, AnalyticsSummary } from "@/lib/api/contracts";
+import type { LanguageId } from "@/lib/language/languages";
+import { TOPICS } from "./topics";
+import type {
+  AnalyticsEvent,
+  AsrEvent,
+  ExchangeEvent,
+  FeedbackRating,
+} from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Every calendar day from `from` to `to` inclusive (YYYY-MM-DD)
+export function daysBetween(from: string, to: string): string[] {
+  const days: string[] = [];
+  for (let t = Date.parse(from); t <= Date.parse(to); t += DAY_MS) {
+    days.push(new Date(t).toISOString().slice(0, 10));
+  }
+  return days;
+}
+
+// Instants that surely cover the range in any time zone (UTC±14h)
+export function rangeBounds(query: AnalyticsQuery): { since: Date; until: Date } {
+  return {
+    since: new Date(Date.parse(query.from) - DAY_MS),
+    until: new Date(Date.parse(query.to) + 2 * DAY_MS),
+  };
+}
+
+// Aggregate the events for the dashboard, bucketing them into calendar
+// days of the query's time zone
+export function summarizeAnalytics(
+  events: AnalyticsEvent[],
+  query: AnalyticsQuery
+): AnalyticsSummary {
+  const dayFormat = new Intl.DateTimeFormat("en-CA", {
+    timeZone: query.timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  });
+  const dayOf = (at: string) => dayFormat.format(new Date(at));
+  const inRange = (day: string) => day >= query.from && day <= query.to;
+
+  const exchanges: ExchangeEvent[] = [];
+  const asr: AsrEvent[] = [];
+  // Latest rating per exchange and conversation; thumbs come seconds
+  // after the reply, so the day after the range is the latest one read.
+  // Ratings sent from another conversation never match an exchange.
+  const ratingKey = (exchangeId: string, conversationId: string) =>
+    `${exchangeId}|${conversationId}`;
+  const ratings = new Map<string, FeedbackRating | null>();
+  for (const event of [...events].sort((a, b) => a.at.localeCompare(b.at))) {
+    if (event.type === "feedback") {
+      ratings.set(ratingKey(event.exchangeId, event.conversationId), event.rating);
+    } else if (inRange(dayOf(event.at))) {
+      if (event.type === "exchange") exchanges.push(event);
+      else asr.push(event);
+    }
+  }
+
+  const languages = new Map<
+    LanguageId | null,
+    { exchanges: number; selected: number; voice: number }
+  >();
+  const topics = new Map(
+    TOPICS.map((topic) => [topic.value, { exchanges: 0, up: 0, down: 0 }])
+  );
+  const days = new Map(
+    daysBetween(query.from, query.to).map((date) => [
+      date,
+      { exchanges: 0, latencyMs: 0, asrAttempts: 0, asrFailures: 0 },
+    ])
+  );
+  const feedback = { up: 0, down: 0 };
+  let latencyMs = 0;
+
+  for (const exchange of exchanges) {
+    const language = languages.get(exchange.replyLanguage) ?? {
+      exchanges: 0,
+      selected: 0,
+      voice: 0,
+    };
+    language.exchanges += 1;
+    if (exchange.requestedLanguage) language.selected += 1;
+    if (exchange.input === "voice") language.voice += 1;
+    languages.set(exchange.replyLanguage, language);
+
+    const topic = topics.get(exchange.topic);
+    const rating = exchange.conversationId
+      ? ratings.get(ratingKey(exchange.id, exchange.conversationId))
+      : null;
+    if (topic) {
+      topic.exchanges += 1;
+      if (rating) topic[rating] += 1;
+    }
+    if (rating) feedback[rating] += 1;
+
+    const day = days.get(dayOf(exchange.at));
+    if (day) {
+      day.exchanges += 1;
+      day.latencyMs += exchange.latencyMs;
+    }
+    latencyMs += exchange.latencyMs;
+  }
+
+  for (const attempt of asr) {
+    const day = days.get(dayOf(attempt.at));
+    if (!day) continue;
+    day.asrAttempts += 1;
+    if (attempt.outcome !== "ok") day.asrFailures += 1;
+  }
+  const asrFailures = asr.filter((attempt) => attempt.outcome !== "ok").length;
+
+  return {
+    ...query,
+    exchanges: exchanges.length,
+    voiceExchanges: exchanges.filter((e) => e.input === "voice").length,
+    avgLatencyMs: average(latencyMs, exchanges.length),
+    languages: [...languages]
+      .map(([language, counts]) => ({ language, ...counts }))
+      .sort((a, b) => b.exchanges - a.exchanges),
+    topics: [...topics]
+      .map(([topic, counts]) => ({ topic, ...counts }))
+      .filter((topic) => topic.exchanges > 0)
+      .sort((a, b) => b.exchanges - a.exchanges),
+    asr: {
+      attempts: asr.length,
+      failures: asrFailures,
+      failureRate: asr.length > 0 ? asrFailures / asr.length : null,
+    },
+    feedback,
+    days: [...days].map(([date, day]) => ({
+      date,
+      exchanges: day.exchanges,
+      avgLatencyMs: average(day.latencyMs, day.exchanges),
+      asrAttempts: day.asrAttempts,
+      asrFailures: day.asrFailures,
+    })),
+  };
+}
+
+function average(totalMs: number, count: number): number | null {
+  return count > 0 ? Math.round(totalMs / count) : null;
+}
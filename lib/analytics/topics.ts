@@ -0,0 +1,68 @@
+// lib/analytics/topics.ts
+// Keyword topic classification, following the telco topics in the chat
+// system prompt. The first topic with a matching keyword wins, so roaming
+// bills count as roaming and invoice questions as payment.
+import type { Topic } from "./types";
+
+export const TOPICS: { value: Topic; label: string; pattern: RegExp | null }[] = [
+  {
+    value: "roaming",
+    label: "Roaming",
+    // 漫游 / 漫遊 / 出国 / 出國
+    pattern:
+      /\b(roam\w*|overseas|abroad|travel\w*)\b|\u6f2b\u6e38|\u6f2b\u904a|\u51fa\u56fd|\u51fa\u570b/i,
+  },
+  {
+    value: "payment",
+    label: "Payment & invoices",
+    // 付款 / 缴费 / 繳費 / 发票 / 發票 / 信用卡
+    pattern:
+      /\b(pay|paid|paying|payment|invoice|receipt|giro|paynow|credit\s+card|auto[\s-]?debit)\b|\u4ed8\u6b3e|\u7f34\u8d39|\u7e73\u8cbb|\u53d1\u7968|\u767c\u7968|\u4fe1\u7528\u5361/i,
+  },
+  {
+    value: "billing",
+    label: "Bills & charges",
+    // 账单 / 賬單 / 收费 / 收費 / 扣钱 / 扣錢
+    pattern:
+      /\b(bill\w*|charge[sd]?|overcharg\w*|expensive|cost)\b|\u8d26\u5355|\u8cec\u55ae|\u6536\u8d39|\u6536\u8cbb|\u6263\u94b1|\u6263\u9322/i,
+  },
+  {
+    value: "data",
+    label: "Data usage",
+    // 流量 / 数据 / 數據 / 上网 / 上網
+    pattern:
+      /\b(data|gb|mb|usage|hotspot|tether\w*)\b|\u6d41\u91cf|\u6570\u636e|\u6578\u64da|\u4e0a\u7f51|\u4e0a\u7db2/i,
+  },
+  {
+    value: "plan",
+    label: "Plans",
+    // 套餐 / 配套 / 升级 / 升級
+    pattern:
+      /\b(plan|plans|upgrade|downgrade|package|bundle|add[\s-]?on)\b|\u5957\u9910|\u914d\u5957|\u5347\u7ea7|\u5347\u7d1a/i,
+  },
+  {
+    value: "sim",
+    label: "Contract, SIM & activation",
+    // 合约 / 合約 / 激活 / 开通 / 開通 / 电话卡 / 電話卡
+    pattern:
+      /\b(sim|esim|activat\w*|contract|port(ing)?|number\s+transfer|recontract|terminat\w*)\b|\u5408\u7ea6|\u5408\u7d04|\u6fc0\u6d3b|\u5f00\u901a|\u958b\u901a|\u7535\u8bdd\u5361|\u96fb\u8a71\u5361/i,
+  },
+  {
+    value: "network",
+    label: "Network & coverage",
+    // 信号 / 信號 / 訊號 / 网络 / 網絡 / 网速 / 網速
+    pattern:
+      /\b(network|signal|coverage|reception|slow|lag\w*|no\s+service|5g|4g|disconnect\w*)\b|\u4fe1\u53f7|\u4fe1\u865f|\u8a0a\u865f|\u7f51\u7edc|\u7db2\u7d61|\u7f51\u901f|\u7db2\u901f/i,
+  },
+  { value: "other", label: "Other", pattern: null },
+];
+
+export function classifyTopic(message: string): Topic {
+  return (
+    TOPICS.find((topic) => topic.pattern?.test(message))?.value ?? "other"
+  );
+}
+
+export function topicLabel(topic: Topic): string {
+  return TOPICS.find((t) => t.value === topic)?.label ?? topic;
+}
@@ -0,0 +1,70 @@
+// lib/analytics/types.ts
+import type { ApiErrorCode } from "@/lib/api/contracts";
+import type { MessageInput } from "@/lib/conversations/types";
+import type { GuardrailKind } from "@/lib/guardrails/types";
+import type { LanguageId } from "@/lib/language/languages";
+
+// What a customer message was about; see topics.ts
+export type Topic =
+  | "billing"
+  | "data"
+  | "roaming"
+  | "plan"
+  | "sim"
+  | "network"
+  | "payment"
+  | "other";
+
+export type FeedbackRating = "up" | "down";
+
+// One customer message and the assistant's reply. No message text is
+// kept, only how it was asked and answered.
+export type ExchangeEvent = {
+  type: "exchange";
+  id: string;
+  // Only ratings sent from the same conversation count
+  conversationId: string | null;
+  // ISO timestamp of when the message arrived
+  at: string;
+  input: MessageInput;
+  // Picked with the language selector
+  requestedLanguage: LanguageId | null;
+  // Detected in the message, when confident enough to act on
+  detectedLanguage: LanguageId | null;
+  replyLanguage: LanguageId | null;
+  topic: Topic;
+  // Until the whole reply was sent
+  latencyMs: number;
+  guardrails: GuardrailKind[];
+  // The exchange put the conversation in the agent queue
+  handoff: boolean;
+};
+
+// One transcription, uploaded or live
+export type AsrEvent = {
+  type: "asr";
+  at: string;
+  source: "upload" | "live";
+  // "empty": the backend answered but heard nothing
+  outcome: "ok" | "empty" | "error";
+  errorCode: ApiErrorCode | null;
+  latencyMs: number;
+};
+
+// Thumbs on a reply; null takes a rating back. The latest one counts.
+export type FeedbackEvent = {
+  type: "feedback";
+  at: string;
+  exchangeId: string;
+  conversationId: string;
+  rating: FeedbackRating | null;
+};
+
+export type AnalyticsEvent = ExchangeEvent | AsrEvent | FeedbackEvent;
+
+export type AnalyticsStore = {
+  name: string;
+  record(event: AnalyticsEvent): Promise<void>;
+  // Events recorded between the two instants, oldest first
+  list(since: Date, until: Date): Promise<AnalyticsEvent[]>;
+};
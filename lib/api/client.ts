@@ -0,0 +1,63 @@
+// lib/api/client.ts
+// Browser helpers for reading API responses.
+import type { ApiErrorBody } from "./contracts";
+
+// Same header name the server sets (lib/logger/context.ts)
+export const REQUEST_ID_HEADER = "x-request-id";
+
+// Read `{ error: ApiErrorBody }` from a failed response, with a fallback
+// for bodies that are not JSON (proxy errors, timeouts...).
+export async function readApiError(
+  res: Response,
+  fallbackMessage: string
+): Promise<ApiErrorBody> {
+  const data = (await res.json().catch(() => null)) as {
+    error?: Partial<ApiErrorBody>;
+  } | null;
+
+  const requestId =
+    data?.error?.requestId ?? res.headers.get(REQUEST_ID_HEADER) ?? undefined;
+  return {
+    code: data?.error?.code ?? "INTERNAL_ERROR",
+    message: data?.error?.message || fallbackMessage,
+    details: data?.error?.details,
+    ...(requestId ? { requestId } : {}),
+  };
+}
+
+// Seconds the server asked us to wait (RATE_LIMITED errors)
+export function retryAfterSeconds(error: ApiErrorBody): number | null {
+  const value = (error.details as { retryAfterSeconds?: unknown } | undefined)
+    ?.retryAfterSeconds;
+  return typeof value === "number" && value > 0 ? value : null;
+}
+
+// Customer-facing text for an API error; upstream failures get a
+// specific explanation instead of the raw server message. The request id
+// is appended so customers can quote it to support.
+export function describeApiError(
+  error: ApiErrorBody,
+  service = "The assistant"
+): string {
+  const text = describeErrorCode(error, service);
+  return error.requestId ? `${text} (Ref: ${error.requestId})` : text;
+}
+
+function describeErrorCode(error: ApiErrorBody, service: string): string {
+  switch (error.code) {
+    case "UPSTREAM_TIMEOUT":
+      return `${service} took too long to respond. Please try again.`;
+    case "UPSTREAM_UNREACHABLE":
+      return `${service} server cannot be reached right now. Please try again shortly.`;
+    case "UPSTREAM_UNAVAILABLE": {
+      const seconds = retryAfterSeconds(error);
+      return `${service} is temporarily unavailable. Please try again${
+        seconds ? ` in ${seconds} seconds` : " later"
+      }.`;
+    }
+    case "UPSTREAM_ERROR":
+      return `${service} server returned an error. Please try again.`;
+    default:
+      return error.message;
+  }
+}
@@ -0,0 +1,371 @@
+// lib/api/contracts.ts
+// Request/response shapes shared by the API routes and the browser.
+import type { FeedbackRating, Topic } from "@/lib/analytics/types";
+import type { ChatTurn } from "@/lib/chat/history";
+import type {
+  ConversationSummary,
+  MessageInput,
+} from "@/lib/conversations/types";
+import type { GuardrailKind } from "@/lib/guardrails/types";
+import type {
+  Handoff,
+  HandoffMessage,
+  HandoffState,
+} from "@/lib/handoff/types";
+import type { KnowledgeSource } from "@/lib/knowledge/types";
+import type { LanguageDetection } from "@/lib/language/detect";
+import type { LanguageId } from "@/lib/language/languages";
+import type { TranslationLanguageId } from "@/lib/translate/languages";
+import type { CircuitState } from "@/lib/upstream/circuit-breaker";
+
+export const CHAT_LIMITS = {
+  maxMessageChars: 2000,
+  maxHistoryTurns: 200,
+  maxHistoryTurnChars: 8000,
+};
+
+// Shown in place of a reply that came back empty; never sent back as history
+export const CHAT_FALLBACK_REPLY =
+  "Sorry, I am temporarily unable to respond. Please try again later.";
+
+export const ASR_LIMITS = {
+  maxAudioBytes: 10 * 1024 * 1024,
+  // Recorder stops itself after this; the server rejects longer clips
+  // when it can measure them (always with ASR_AUDIO_FORMAT=wav)
+  maxAudioSeconds: 60,
+  // Uploaded call recordings may run longer than a mic clip
+  maxUploadSeconds: 600,
+  // Shorter than this after trimming silence counts as "nothing said"
+  minSpeechMs: 300,
+  // Base MIME types (without codecs) that browsers' MediaRecorder produce
+  audioTypes: [
+    "audio/webm",
+    "audio/ogg",
+    "audio/mp4",
+    "audio/aac",
+    "audio/mpeg",
+    "audio/wav",
+    "audio/x-wav",
+    "audio/x-m4a",
+    "video/webm",
+  ],
+};
+
+export const TTS_LIMITS = {
+  // Longer replies are spoken in several requests, so the first clip
+  // starts playing sooner
+  maxTextChars: 500,
+};
+
+export const CONVERSATION_LIMITS = {
+  maxTitleChars: 100,
+  maxMessages: 2 * CHAT_LIMITS.maxHistoryTurns,
+  maxMessageChars: CHAT_LIMITS.maxHistoryTurnChars,
+  // Whole PUT body, sources and detections included
+  maxBodyBytes: 4 * 1024 * 1024,
+};
+
+export type ApiErrorCode =
+  | "VALIDATION_ERROR"
+  | "UNAUTHORIZED"
+  | "NOT_FOUND"
+  | "CONFLICT"
+  | "PAYLOAD_TOO_LARGE"
+  | "UNSUPPORTED_MEDIA_TYPE"
+  | "RATE_LIMITED"
+  | "CONFIG_ERROR"
+  | "UPSTREAM_ERROR"
+  | "UPSTREAM_TIMEOUT"
+  | "UPSTREAM_UNREACHABLE"
+  | "UPSTREAM_UNAVAILABLE"
+  | "INTERNAL_ERROR";
+
+// Every error response is `{ error: ApiErrorBody }`
+export type ApiErrorBody = {
+  code: ApiErrorCode;
+  message: string;
+  details?: unknown;
+  // Also sent as the X-Request-Id header; quoted to support
+  requestId?: string;
+};
+
+export type ValidationIssue = {
+  field: string;
+  message: string;
+};
+
+// "customer": the assistant answers the customer (ChatResponse or stream).
+// "assist": draft replies a human agent can edit and send (ChatAssistResponse).
+export type ChatMode = "customer" | "assist";
+
+// POST /api/chat (JSON)
+export type ChatRequest = {
+  message: string;
+  language?: LanguageId;
+  // Earlier turns, oldest first
+  history?: ChatTurn[];
+  // true: NDJSON stream of ChatStreamEvent instead of ChatResponse
+  stream?: boolean;
+  // Needed for a handoff to a human agent; none without it
+  conversationId?: string;
+  // Default "customer"; "assist" cannot be streamed
+  mode?: ChatMode;
+  // How the message was entered, for analytics; default "text"
+  input?: MessageInput;
+};
+
+export type ChatResponse = {
+  reply: string;
+  sources: KnowledgeSource[];
+  detectedLanguage: LanguageDetection | null;
+  // Language the assistant was asked to reply in (selected or detected)
+  replyLanguage: LanguageId | null;
+  // Set when this message put the conversation in the agent queue
+  handoff: HandoffState | null;
+  // Guardrails that masked the message or replaced the reply
+  guardrails: GuardrailKind[];
+  // Rates the reply through /api/analytics/feedback; null with analytics
+  // off (ANALYTICS_STORE=none)
+  exchangeId: string | null;
+};
+
+export type AssistSuggestion = {
+  // In the customer's language or dialect, ready to send
+  reply: string;
+  // English meaning, for agents who do not speak the dialect
+  gloss: string;
+};
+
+export type ChatAssistResponse = {
+  suggestions: AssistSuggestion[];
+  sources: KnowledgeSource[];
+  detectedLanguage: LanguageDetection | null;
+  replyLanguage: LanguageId | null;
+  guardrails: GuardrailKind[];
+};
+
+// Where the audio of POST /api/asr came from; picks the length limit
+export type AsrSource = "microphone" | "file";
+
+// POST /api/asr (multipart/form-data with an "audio" file and an
+// optional "source", default "microphone")
+export type AsrResponse = {
+  text: string;
+  detectedLanguage: LanguageDetection | null;
+};
+
+// Live transcription while recording:
+//   POST /api/asr/stream (JSON)                        -> AsrStreamStartResponse
+//   POST /api/asr/stream/{sessionId} (raw audio chunk) -> AsrStreamChunkResponse
+//   POST /api/asr/stream/{sessionId}/finish            -> AsrResponse
+//   DELETE /api/asr/stream/{sessionId} to abandon it
+export type AsrStreamStartRequest = {
+  // MediaRecorder's mimeType; every chunk is a piece of this one file
+  mimeType: string;
+};
+
+export type AsrStreamStartResponse = {
+  sessionId: string;
+};
+
+export type AsrStreamChunkResponse = {
+  // Interim transcript of everything sent so far
+  text: string;
+};
+
+// POST /api/tts (audio body, never cached: replies may hold account details)
+export type TtsRequest = {
+  text: string;
+  // Picks the voice; detected from the text when omitted
+  language?: LanguageId;
+};
+
+export const TRANSLATE_LIMITS = {
+  maxTextChars: CHAT_LIMITS.maxMessageChars,
+};
+
+// POST /api/translate (JSON) -> TranslateResponse
+export type TranslateRequest = {
+  text: string;
+  // Omitted: the model works out what the text is written in
+  from?: TranslationLanguageId;
+  to: TranslationLanguageId;
+};
+
+export type TranslationText = {
+  language: TranslationLanguageId;
+  text: string;
+  // Pinyin / Jyutping / Peh-oe-ji... for Chinese script, else null
+  romanisation: string | null;
+};
+
+export type TranslateResponse = {
+  source: TranslationText;
+  target: TranslationText;
+};
+
+// Server-side conversation history (CONVERSATION_STORE), per signed-in
+// customer or browser; others' conversations answer 404:
+//   GET /api/conversations                    -> ConversationListResponse
+//   GET /api/conversations/{id}               -> Conversation
+//   PUT /api/conversations/{id} (Conversation) -> ConversationSummary
+//   PATCH /api/conversations/{id} (ConversationRenameRequest)
+//                                             -> ConversationSummary
+//   DELETE /api/conversations/{id}
+export type ConversationListResponse = {
+  conversations: ConversationSummary[];
+};
+
+export type ConversationRenameRequest = {
+  title: string;
+};
+
+export const HANDOFF_LIMITS = {
+  maxMessageChars: CHAT_LIMITS.maxMessageChars,
+  maxAgentNameChars: 40,
+};
+
+// Customer side of a handoff to a human agent:
+//   GET /api/handoffs/{conversationId}                -> HandoffState
+//   GET /api/handoffs/{conversationId}/events         -> SSE of HandoffStreamEvent
+//   POST /api/handoffs/{conversationId}/messages (HandoffMessageRequest)
+//                                                     -> HandoffMessage
+export type HandoffMessageRequest = {
+  content: string;
+};
+
+export type HandoffStreamEvent =
+  | { type: "state"; handoff: HandoffState }
+  // Agent replies; may repeat after a reconnect, so dedupe by id
+  | { type: "message"; message: HandoffMessage };
+
+// Agent console, for staff signed in with AGENT_TOKEN (401 otherwise):
+//   GET /api/agent/session                            -> StaffSessionResponse
+//   POST /api/agent/session (StaffLoginRequest)       -> StaffSessionResponse
+//   DELETE /api/agent/session
+//   GET /api/agent/events                             -> SSE of AgentStreamEvent
+//   POST /api/agent/handoffs/{conversationId}/claim (AgentClaimRequest) -> Handoff
+//   POST /api/agent/handoffs/{conversationId}/messages (HandoffMessageRequest)
+//                                                     -> HandoffMessage
+//   POST /api/agent/handoffs/{conversationId}/close   -> Handoff
+export type StaffLoginRequest = {
+  token: string;
+};
+
+export type StaffSessionResponse = {
+  signedIn: boolean;
+};
+
+export type AgentClaimRequest = {
+  agentName: string;
+};
+
+export type AgentStreamEvent =
+  | { type: "snapshot"; handoffs: Handoff[] }
+  | { type: "handoff"; handoff: Handoff };
+
+// Demo sign-in as one of the fixture customers (signed cookie):
+//   GET /api/session                          -> SessionResponse
+//   POST /api/session (SessionLoginRequest)   -> SessionResponse
+//   DELETE /api/session
+export type SessionCustomer = {
+  id: string;
+  name: string;
+  planName: string | null;
+  contractEndDate: string;
+  // Pre-selects the reply language
+  preferredLanguage: LanguageId | null;
+};
+
+export type SessionResponse = {
+  // null when nobody is signed in
+  customer: SessionCustomer | null;
+  // Profiles offered by the mock login
+  demoCustomers: SessionCustomer[];
+};
+
+export type SessionLoginRequest = {
+  customerId: string;
+};
+
+export const ANALYTICS_LIMITS = {
+  // Longest date range the dashboard can ask for
+  maxRangeDays: 366,
+};
+
+// Conversation analytics (ANALYTICS_STORE). The summary and sign-in are
+// for staff holding ANALYTICS_TOKEN (401 otherwise); feedback is open:
+//   GET /api/analytics/session                    -> StaffSessionResponse
+//   POST /api/analytics/session (StaffLoginRequest) -> StaffSessionResponse
+//   DELETE /api/analytics/session
+//   GET /api/analytics?from=…&to=…&timeZone=…    -> AnalyticsSummary
+//   POST /api/analytics/feedback (FeedbackRequest)
+export type AnalyticsQuery = {
+  // Calendar days (YYYY-MM-DD), both included
+  from: string;
+  to: string;
+  // IANA name the days are counted in; default "UTC"
+  timeZone: string;
+};
+
+export type AnalyticsSummary = AnalyticsQuery & {
+  exchanges: number;
+  // Asked by voice rather than typed
+  voiceExchanges: number;
+  avgLatencyMs: number | null;
+  // By reply language, busiest first; null when it could not be told
+  languages: {
+    language: LanguageId | null;
+    exchanges: number;
+    // Picked with the language selector rather than detected
+    selected: number;
+    voice: number;
+  }[];
+  // Busiest first, with the thumbs given on those replies
+  topics: { topic: Topic; exchanges: number; up: number; down: number }[];
+  asr: {
+    attempts: number;
+    failures: number;
+    // null without attempts
+    failureRate: number | null;
+  };
+  feedback: { up: number; down: number };
+  // Every day of the range, oldest first
+  days: {
+    date: string;
+    exchanges: number;
+    avgLatencyMs: number | null;
+    asrAttempts: number;
+    asrFailures: number;
+  }[];
+};
+
+export type FeedbackRequest = {
+  exchangeId: string;
+  // Must match the conversation the exchange was recorded in
+  conversationId: string;
+  // null takes back an earlier rating
+  rating: FeedbackRating | null;
+};
+
+export type BackendStatus = "up" | "degraded" | "down" | "unconfigured";
+
+export type BackendHealth = {
+  status: BackendStatus;
+  latencyMs: number | null;
+  circuit: CircuitState;
+  provider?: string;
+  model?: string;
+  modelLoaded?: boolean;
+  version?: string;
+  error?: string;
+};
+
+// GET /api/health (503 when a backend is down or unconfigured)
+export type HealthResponse = {
+  status: "ok" | "degraded" | "down";
+  checkedAt: string;
+  llm: BackendHealth;
+  asr: BackendHealth;
+  configProblems: string[];
+};
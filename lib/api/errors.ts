@@ -0,0 +1,116 @@
+// lib/api/errors.ts
+import { NextResponse } from "next/server";
+import { getRequestContext, logger } from "@/lib/logger";
+import { UpstreamError, isTimeoutAbort } from "@/lib/upstream";
+import type { ApiErrorBody, ApiErrorCode } from "./contracts";
+
+const DEFAULT_STATUS: Record<ApiErrorCode, number> = {
+  VALIDATION_ERROR: 400,
+  UNAUTHORIZED: 401,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  PAYLOAD_TOO_LARGE: 413,
+  UNSUPPORTED_MEDIA_TYPE: 415,
+  RATE_LIMITED: 429,
+  CONFIG_ERROR: 500,
+  UPSTREAM_ERROR: 502,
+  UPSTREAM_TIMEOUT: 504,
+  UPSTREAM_UNREACHABLE: 502,
+  UPSTREAM_UNAVAILABLE: 503,
+  INTERNAL_ERROR: 500,
+};
+
+// Thrown by route handlers and validators; turned into a JSON error response
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number;
+  readonly details?: unknown;
+  // Extra response headers, e.g. Retry-After
+  readonly headers?: Record<string, string>;
+
+  constructor(
+    code: ApiErrorCode,
+    message: string,
+    options?: {
+      status?: number;
+      details?: unknown;
+      headers?: Record<string, string>;
+    }
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.code = code;
+    this.status = options?.status ?? DEFAULT_STATUS[code];
+    this.details = options?.details;
+    this.headers = options?.headers;
+  }
+
+  toBody(): ApiErrorBody {
+    const requestId = getRequestContext()?.requestId;
+    return {
+      code: this.code,
+      message: this.message,
+      ...(this.details !== undefined ? { details: this.details } : {}),
+      ...(requestId ? { requestId } : {}),
+    };
+  }
+}
+
+export function errorResponse(error: ApiError): NextResponse {
+  return NextResponse.json(
+    { error: error.toBody() },
+    { status: error.status, headers: error.headers }
+  );
+}
+
+// Timeout / unreachable / circuit-open each get their own code so the UI
+// can tell the customer what is going on.
+export function fromUpstreamError(err: UpstreamError): ApiError {
+  const details = { upstream: err.upstream };
+
+  switch (err.kind) {
+    case "timeout":
+      return new ApiError("UPSTREAM_TIMEOUT", err.message, { details });
+    case "unreachable":
+      return new ApiError("UPSTREAM_UNREACHABLE", err.message, { details });
+    case "circuit_open": {
+      const retryAfterSeconds = Math.max(
+        1,
+        Math.ceil((err.retryAfterMs ?? 0) / 1000)
+      );
+      return new ApiError("UPSTREAM_UNAVAILABLE", err.message, {
+        details: { ...details, retryAfterSeconds },
+        headers: { "Retry-After": String(retryAfterSeconds) },
+      });
+    }
+  }
+}
+
+// Map anything thrown while handling a request to an API error. ApiErrors
+// pass through; when `backend` names the service the route calls, its
+// upstream failures and timeouts get their own codes; anything else is
+// logged and becomes INTERNAL_ERROR.
+export function toApiError(
+  err: unknown,
+  route: string,
+  backend?: "llm" | "asr" | "tts"
+): ApiError {
+  if (err instanceof ApiError) return err;
+
+  if (backend) {
+    const name = backend.toUpperCase();
+    if (err instanceof UpstreamError) {
+      logger.error(`${name} upstream error`, { route, kind: err.kind, err });
+      return fromUpstreamError(err);
+    }
+    if (isTimeoutAbort(err)) {
+      logger.error(`${name} response timed out`, { route });
+      return new ApiError("UPSTREAM_TIMEOUT", `${name} backend stopped responding`, {
+        details: { upstream: backend },
+      });
+    }
+  }
+
+  logger.error("Internal error", { route, err });
+  return new ApiError("INTERNAL_ERROR", `Internal server error in ${route}`);
+}
@@ -0,0 +1,62 @@
+// lib/api/instrument.ts
+import type { NextRequest } from "next/server";
+import {
+  logger,
+  REQUEST_ID_HEADER,
+  requestIdFrom,
+  runWithRequestContext,
+  type RequestContext,
+} from "@/lib/logger";
+import { httpRequestDuration, httpRequests } from "@/lib/metrics";
+
+// Wrap a route handler: gives the request an id (echoed in X-Request-Id so
+// customers can quote it), logs one line with its latency and backend
+// timings, and feeds the HTTP metrics.
+export function instrumentRoute<A extends [NextRequest, ...unknown[]]>(
+  route: string,
+  handler: (...args: A) => Promise<Response>
+): (...args: A) => Promise<Response> {
+  return (...args) => {
+    const [req] = args;
+    const context: RequestContext = {
+      requestId: requestIdFrom(req.headers),
+      route,
+      timings: {},
+    };
+
+    return runWithRequestContext(context, async () => {
+      const startedAt = performance.now();
+      let status = 500;
+      try {
+        const res = withRequestId(await handler(...args), context.requestId);
+        status = res.status;
+        return res;
+      } catch (err) {
+        logger.error("Unhandled route error", { err });
+        throw err;
+      } finally {
+        const durationMs = Math.round(performance.now() - startedAt);
+        httpRequests.inc({ route, method: req.method, status: String(status) });
+        httpRequestDuration.observe({ route, method: req.method }, durationMs / 1000);
+        logger.info("Request completed", {
+          method: req.method,
+          status,
+          durationMs,
+          timings: context.timings,
+        });
+      }
+    });
+  };
+}
+
+function withRequestId(res: Response, requestId: string): Response {
+  try {
+    res.headers.set(REQUEST_ID_HEADER, requestId);
+    return res;
+  } catch {
+    // Immutable headers (a proxied fetch response): copy it
+    const copy = new Response(res.body, res);
+    copy.headers.set(REQUEST_ID_HEADER, requestId);
+    return copy;
+  }
+}
@@ -0,0 +1,506 @@
+// lib/api/validate.ts
+import type { Conversation } from "@/lib/conversations/types";
+import { isLanguageId, LANGUAGES } from "@/lib/language/languages";
+import {
+  isTranslationLanguageId,
+  TRANSLATION_LANGUAGES,
+} from "@/lib/translate/languages";
+import {
+  ANALYTICS_LIMITS,
+  ASR_LIMITS,
+  CHAT_LIMITS,
+  CONVERSATION_LIMITS,
+  HANDOFF_LIMITS,
+  TRANSLATE_LIMITS,
+  TTS_LIMITS,
+  type AgentClaimRequest,
+  type AnalyticsQuery,
+  type AsrSource,
+  type AsrStreamStartRequest,
+  type ChatRequest,
+  type ConversationRenameRequest,
+  type FeedbackRequest,
+  type HandoffMessageRequest,
+  type SessionLoginRequest,
+  type StaffLoginRequest,
+  type TranslateRequest,
+  type TtsRequest,
+  type ValidationIssue,
+} from "./contracts";
+import { ApiError } from "./errors";
+
+function invalid(issues: ValidationIssue[]): ApiError {
+  return new ApiError("VALIDATION_ERROR", "Invalid request", {
+    details: issues,
+  });
+}
+
+// Validate the JSON body of POST /api/chat; throws ApiError listing every issue
+export function parseChatRequest(body: unknown): ChatRequest {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw invalid([{ field: "body", message: "Must be a JSON object" }]);
+  }
+
+  const { message, language, history, stream, conversationId, mode, input } =
+    body as Record<string, unknown>;
+  const issues: ValidationIssue[] = [];
+
+  if (typeof message !== "string" || !message.trim()) {
+    issues.push({ field: "message", message: "Missing message" });
+  } else if (message.length > CHAT_LIMITS.maxMessageChars) {
+    issues.push({
+      field: "message",
+      message: `Must be at most ${CHAT_LIMITS.maxMessageChars} characters`,
+    });
+  }
+
+  if (language !== undefined && !isLanguageId(language)) {
+    issues.push({
+      field: "language",
+      message: `Must be one of ${LANGUAGES.map((l) => l.value).join(", ")}`,
+    });
+  }
+
+  if (history !== undefined) {
+    if (!Array.isArray(history)) {
+      issues.push({ field: "history", message: "Must be an array" });
+    } else if (history.length > CHAT_LIMITS.maxHistoryTurns) {
+      issues.push({
+        field: "history",
+        message: `Must have at most ${CHAT_LIMITS.maxHistoryTurns} turns`,
+      });
+    } else {
+      history.forEach((turn, i) => {
+        const { role, content } = (turn ?? {}) as Record<string, unknown>;
+        if (role !== "user" && role !== "assistant") {
+          issues.push({
+            field: `history[${i}].role`,
+            message: 'Must be "user" or "assistant"',
+          });
+        }
+        if (typeof content !== "string") {
+          issues.push({ field: `history[${i}].content`, message: "Must be a string" });
+        } else if (content.length > CHAT_LIMITS.maxHistoryTurnChars) {
+          issues.push({
+            field: `history[${i}].content`,
+            message: `Must be at most ${CHAT_LIMITS.maxHistoryTurnChars} characters`,
+          });
+        }
+      });
+    }
+  }
+
+  if (stream !== undefined && typeof stream !== "boolean") {
+    issues.push({ field: "stream", message: "Must be a boolean" });
+  }
+
+  if (
+    conversationId !== undefined &&
+    (typeof conversationId !== "string" ||
+      !CONVERSATION_ID_PATTERN.test(conversationId))
+  ) {
+    issues.push({
+      field: "conversationId",
+      message: "Must be 1-64 letters, digits, _ or -",
+    });
+  }
+
+  if (mode !== undefined && mode !== "customer" && mode !== "assist") {
+    issues.push({ field: "mode", message: 'Must be "customer" or "assist"' });
+  } else if (mode === "assist" && stream === true) {
+    issues.push({ field: "stream", message: 'Not supported with mode "assist"' });
+  }
+
+  if (input !== undefined && input !== "text" && input !== "voice") {
+    issues.push({ field: "input", message: 'Must be "text" or "voice"' });
+  }
+
+  if (issues.length > 0) throw invalid(issues);
+
+  return body as ChatRequest;
+}
+
+// Reject uploads by Content-Length before buffering the multipart body
+export function assertUploadSize(contentLength: string | null) {
+  const bytes = Number(contentLength);
+  // Allow some room for multipart boundaries and other fields
+  if (Number.isFinite(bytes) && bytes > ASR_LIMITS.maxAudioBytes + 64 * 1024) {
+    throw tooLarge();
+  }
+}
+
+// Pull the "audio" file (and its "source") out of POST /api/asr form data
+export function parseAsrUpload(formData: FormData): {
+  audio: File;
+  source: AsrSource;
+} {
+  const audio = formData.get("audio");
+  const source = formData.get("source") ?? "microphone";
+
+  if (source !== "microphone" && source !== "file") {
+    throw invalid([
+      { field: "source", message: 'Must be "microphone" or "file"' },
+    ]);
+  }
+
+  if (!(audio instanceof File)) {
+    throw invalid([{ field: "audio", message: "Missing audio file" }]);
+  }
+  if (audio.size === 0) {
+    throw invalid([{ field: "audio", message: "Audio file is empty" }]);
+  }
+  if (audio.size > ASR_LIMITS.maxAudioBytes) {
+    throw tooLarge();
+  }
+
+  assertAudioType(audio.type);
+
+  return { audio, source };
+}
+
+// Validate the JSON body of POST /api/asr/stream
+export function parseAsrStreamStart(body: unknown): AsrStreamStartRequest {
+  const { mimeType } = (body ?? {}) as Record<string, unknown>;
+  if (typeof mimeType !== "string" || !mimeType.trim()) {
+    throw invalid([{ field: "mimeType", message: "Missing mimeType" }]);
+  }
+  assertAudioType(mimeType);
+  return { mimeType };
+}
+
+function assertAudioType(type: string) {
+  const baseType = type.split(";")[0].trim().toLowerCase();
+  if (!ASR_LIMITS.audioTypes.includes(baseType)) {
+    throw new ApiError(
+      "UNSUPPORTED_MEDIA_TYPE",
+      `Unsupported audio type "${type || "unknown"}"`,
+      { details: { allowed: ASR_LIMITS.audioTypes } }
+    );
+  }
+}
+
+// Validate the JSON body of POST /api/tts
+export function parseTtsRequest(body: unknown): TtsRequest {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw invalid([{ field: "body", message: "Must be a JSON object" }]);
+  }
+
+  const { text, language } = body as Record<string, unknown>;
+  const issues: ValidationIssue[] = [];
+
+  if (typeof text !== "string" || !text.trim()) {
+    issues.push({ field: "text", message: "Missing text" });
+  } else if (text.length > TTS_LIMITS.maxTextChars) {
+    issues.push({
+      field: "text",
+      message: `Must be at most ${TTS_LIMITS.maxTextChars} characters`,
+    });
+  }
+
+  if (language !== undefined && !isLanguageId(language)) {
+    issues.push({
+      field: "language",
+      message: `Must be one of ${LANGUAGES.map((l) => l.value).join(", ")}`,
+    });
+  }
+
+  if (issues.length > 0) throw invalid(issues);
+
+  return {
+    text: (text as string).trim(),
+    ...(isLanguageId(language) ? { language } : {}),
+  };
+}
+
+// Validate the JSON body of POST /api/translate
+export function parseTranslateRequest(body: unknown): TranslateRequest {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw invalid([{ field: "body", message: "Must be a JSON object" }]);
+  }
+
+  const { text, from, to } = body as Record<string, unknown>;
+  const issues: ValidationIssue[] = [];
+  const languages = TRANSLATION_LANGUAGES.map((l) => l.value).join(", ");
+
+  if (typeof text !== "string" || !text.trim()) {
+    issues.push({ field: "text", message: "Missing text" });
+  } else if (text.length > TRANSLATE_LIMITS.maxTextChars) {
+    issues.push({
+      field: "text",
+      message: `Must be at most ${TRANSLATE_LIMITS.maxTextChars} characters`,
+    });
+  }
+
+  if (from !== undefined && !isTranslationLanguageId(from)) {
+    issues.push({ field: "from", message: `Must be one of ${languages}` });
+  }
+  if (!isTranslationLanguageId(to)) {
+    issues.push({ field: "to", message: `Must be one of ${languages}` });
+  } else if (from === to) {
+    issues.push({ field: "to", message: 'Must differ from "from"' });
+  }
+
+  if (issues.length > 0) throw invalid(issues);
+
+  return body as TranslateRequest;
+}
+
+// Conversation ids double as file names in the file store
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function assertConversationId(id: string) {
+  if (!CONVERSATION_ID_PATTERN.test(id)) {
+    throw invalid([
+      { field: "id", message: "Must be 1-64 letters, digits, _ or -" },
+    ]);
+  }
+}
+
+// Validate the JSON body of PUT /api/conversations/{id}
+export function parseConversation(id: string, body: unknown): Conversation {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw invalid([{ field: "body", message: "Must be a JSON object" }]);
+  }
+
+  const conversation = body as Record<string, unknown>;
+  const issues: ValidationIssue[] = [];
+
+  if (conversation.id !== id) {
+    issues.push({ field: "id", message: "Must match the URL" });
+  }
+  issues.push(...titleIssues(conversation.title));
+  if (conversation.language !== null && !isLanguageId(conversation.language)) {
+    issues.push({ field: "language", message: "Must be a language id or null" });
+  }
+  for (const field of ["createdAt", "updatedAt"]) {
+    if (!isTimestamp(conversation[field])) {
+      issues.push({ field, message: "Must be an ISO timestamp" });
+    }
+  }
+
+  const { messages } = conversation;
+  if (!Array.isArray(messages)) {
+    issues.push({ field: "messages", message: "Must be an array" });
+  } else if (messages.length > CONVERSATION_LIMITS.maxMessages) {
+    issues.push({
+      field: "messages",
+      message: `Must have at most ${CONVERSATION_LIMITS.maxMessages} messages`,
+    });
+  } else {
+    messages.forEach((message, i) => {
+      const { id, role, content, createdAt, input, sources, language } =
+        (message ?? {}) as Record<string, unknown>;
+      const field = `messages[${i}]`;
+      if (typeof id !== "string" || !id) {
+        issues.push({ field: `${field}.id`, message: "Missing id" });
+      }
+      if (role !== "user" && role !== "assistant" && role !== "agent") {
+        issues.push({
+          field: `${field}.role`,
+          message: 'Must be "user", "assistant" or "agent"',
+        });
+      }
+      if (typeof content !== "string") {
+        issues.push({ field: `${field}.content`, message: "Must be a string" });
+      } else if (content.length > CONVERSATION_LIMITS.maxMessageChars) {
+        issues.push({
+          field: `${field}.content`,
+          message: `Must be at most ${CONVERSATION_LIMITS.maxMessageChars} characters`,
+        });
+      }
+      if (!isTimestamp(createdAt)) {
+        issues.push({
+          field: `${field}.createdAt`,
+          message: "Must be an ISO timestamp",
+        });
+      }
+      if (input !== undefined && input !== "text" && input !== "voice") {
+        issues.push({
+          field: `${field}.input`,
+          message: 'Must be "text" or "voice"',
+        });
+      }
+      if (sources !== undefined && !Array.isArray(sources)) {
+        issues.push({ field: `${field}.sources`, message: "Must be an array" });
+      }
+      if (language != null && !isLanguageId(language)) {
+        issues.push({
+          field: `${field}.language`,
+          message: "Must be a language id or null",
+        });
+      }
+    });
+  }
+
+  if (issues.length > 0) throw invalid(issues);
+
+  return body as Conversation;
+}
+
+// Validate the JSON body of PATCH /api/conversations/{id}
+export function parseConversationRename(
+  body: unknown
+): ConversationRenameRequest {
+  const { title } = (body ?? {}) as Record<string, unknown>;
+  const issues = titleIssues(title);
+  if (issues.length > 0) throw invalid(issues);
+  return { title: (title as string).trim() };
+}
+
+// Reject oversized conversation bodies before parsing them
+export function assertConversationSize(contentLength: string | null) {
+  const bytes = Number(contentLength);
+  if (Number.isFinite(bytes) && bytes > CONVERSATION_LIMITS.maxBodyBytes) {
+    throw new ApiError("PAYLOAD_TOO_LARGE", "Conversation is too large", {
+      details: { maxBytes: CONVERSATION_LIMITS.maxBodyBytes },
+    });
+  }
+}
+
+function titleIssues(title: unknown): ValidationIssue[] {
+  if (typeof title !== "string" || !title.trim()) {
+    return [{ field: "title", message: "Missing title" }];
+  }
+  if (title.length > CONVERSATION_LIMITS.maxTitleChars) {
+    return [
+      {
+        field: "title",
+        message: `Must be at most ${CONVERSATION_LIMITS.maxTitleChars} characters`,
+      },
+    ];
+  }
+  return [];
+}
+
+function isTimestamp(value: unknown): boolean {
+  return typeof value === "string" && !Number.isNaN(Date.parse(value));
+}
+
+// Validate the JSON body of a customer or agent handoff message
+export function parseHandoffMessage(body: unknown): HandoffMessageRequest {
+  const { content } = (body ?? {}) as Record<string, unknown>;
+  if (typeof content !== "string" || !content.trim()) {
+    throw invalid([{ field: "content", message: "Missing content" }]);
+  }
+  if (content.length > HANDOFF_LIMITS.maxMessageChars) {
+    throw invalid([
+      {
+        field: "content",
+        message: `Must be at most ${HANDOFF_LIMITS.maxMessageChars} characters`,
+      },
+    ]);
+  }
+  return { content: content.trim() };
+}
+
+// Validate the JSON body of POST /api/agent/session and
+// POST /api/analytics/session
+export function parseStaffLogin(body: unknown): StaffLoginRequest {
+  const { token } = (body ?? {}) as Record<string, unknown>;
+  if (typeof token !== "string" || !token) {
+    throw invalid([{ field: "token", message: "Missing token" }]);
+  }
+  return { token };
+}
+
+// Validate the JSON body of POST /api/agent/handoffs/{id}/claim
+export function parseAgentClaim(body: unknown): AgentClaimRequest {
+  const { agentName } = (body ?? {}) as Record<string, unknown>;
+  if (typeof agentName !== "string" || !agentName.trim()) {
+    throw invalid([{ field: "agentName", message: "Missing agentName" }]);
+  }
+  if (agentName.length > HANDOFF_LIMITS.maxAgentNameChars) {
+    throw invalid([
+      {
+        field: "agentName",
+        message: `Must be at most ${HANDOFF_LIMITS.maxAgentNameChars} characters`,
+      },
+    ]);
+  }
+  return { agentName: agentName.trim() };
+}
+
+function tooLarge() {
+  return new ApiError(
+    "PAYLOAD_TOO_LARGE",
+    `Audio must be at most ${Math.round(ASR_LIMITS.maxAudioBytes / (1024 * 1024))} MB`,
+    { details: { maxBytes: ASR_LIMITS.maxAudioBytes } }
+  );
+}
+
+// Account ids from the customer data backend (e.g. C1001)
+const CUSTOMER_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Validate the JSON body of POST /api/session
+export function parseSessionLogin(body: unknown): SessionLoginRequest {
+  const { customerId } = (body ?? {}) as Record<string, unknown>;
+  if (typeof customerId !== "string" || !CUSTOMER_ID_PATTERN.test(customerId)) {
+    throw invalid([
+      { field: "customerId", message: "Must be 1-64 letters, digits, _ or -" },
+    ]);
+  }
+  return { customerId };
+}
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Validate the query of GET /api/analytics
+export function parseAnalyticsQuery(params: URLSearchParams): AnalyticsQuery {
+  const from = params.get("from") ?? "";
+  const to = params.get("to") ?? "";
+  const timeZone = params.get("timeZone") || "UTC";
+  const issues: ValidationIssue[] = [];
+
+  // Also rejects days that do not exist, like 2026-02-30
+  const isDay = (day: string) =>
+    DAY_PATTERN.test(day) &&
+    !Number.isNaN(Date.parse(day)) &&
+    new Date(Date.parse(day)).toISOString().startsWith(day);
+  if (!isDay(from)) {
+    issues.push({ field: "from", message: "Must be a date (YYYY-MM-DD)" });
+  }
+  if (!isDay(to)) {
+    issues.push({ field: "to", message: "Must be a date (YYYY-MM-DD)" });
+  }
+  if (issues.length === 0) {
+    const days = (Date.parse(to) - Date.parse(from)) / 86_400_000 + 1;
+    if (days < 1) {
+      issues.push({ field: "to", message: "Must not be before from" });
+    } else if (days > ANALYTICS_LIMITS.maxRangeDays) {
+      issues.push({
+        field: "to",
+        message: `Range must be at most ${ANALYTICS_LIMITS.maxRangeDays} days`,
+      });
+    }
+  }
+
+  try {
+    new Intl.DateTimeFormat("en-CA", { timeZone });
+  } catch {
+    issues.push({ field: "timeZone", message: "Unknown time zone" });
+  }
+
+  if (issues.length > 0) throw invalid(issues);
+  return { from, to, timeZone };
+}
+
+// Validate the JSON body of POST /api/analytics/feedback
+export function parseFeedback(body: unknown): FeedbackRequest {
+  const { exchangeId, conversationId, rating } = (body ?? {}) as Record<
+    string,
+    unknown
+  >;
+  const issues: ValidationIssue[] = [];
+
+  for (const [field, value] of Object.entries({ exchangeId, conversationId })) {
+    if (typeof value !== "string" || !CONVERSATION_ID_PATTERN.test(value)) {
+      issues.push({ field, message: "Must be 1-64 letters, digits, _ or -" });
+    }
+  }
+  if (rating !== "up" && rating !== "down" && rating !== null) {
+    issues.push({ field: "rating", message: 'Must be "up", "down" or null' });
+  }
+
+  if (issues.length > 0) throw invalid(issues);
+  return { exchangeId, conversationId, rating } as FeedbackRequest;
+}
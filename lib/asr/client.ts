@@ -0,0 +1,99 @@
+// lib/asr/client.ts
+// Browser side of /api/asr/stream: relays recorder chunks in order and
+// reports interim transcripts while the customer is still talking.
+import { readApiError } from "@/lib/api/client";
+import type {
+  AsrResponse,
+  AsrStreamChunkResponse,
+  AsrStreamStartRequest,
+  AsrStreamStartResponse,
+} from "@/lib/api/contracts";
+
+const STREAM_ROUTE = "/api/asr/stream";
+
+export type LiveTranscription = {
+  // Queue the next recorder chunk; interim text goes to `onInterim`
+  push(chunk: Blob): void;
+  // Final transcript once every chunk is relayed; rejects if any failed
+  finish(): Promise<AsrResponse>;
+  cancel(): void;
+};
+
+// Set once the server has no streaming backend, so later recordings skip
+// straight to the one-shot upload
+let streamingUnavailable = false;
+
+// Open a live transcription session; null when streaming is unavailable
+// and the caller should upload the whole recording instead
+export async function startLiveTranscription(
+  mimeType: string,
+  onInterim: (text: string) => void
+): Promise<LiveTranscription | null> {
+  if (streamingUnavailable) return null;
+
+  let sessionUrl: string;
+  try {
+    const res = await fetch(STREAM_ROUTE, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ mimeType } satisfies AsrStreamStartRequest),
+    });
+    if (!res.ok) {
+      const error = await readApiError(res, "Live transcription unavailable");
+      if (error.code === "CONFIG_ERROR") streamingUnavailable = true;
+      console.warn("Live transcription unavailable:", error);
+      return null;
+    }
+    const { sessionId } = (await res.json()) as AsrStreamStartResponse;
+    sessionUrl = `${STREAM_ROUTE}/${encodeURIComponent(sessionId)}`;
+  } catch (err) {
+    console.warn("Live transcription unavailable:", err);
+    return null;
+  }
+
+  let queue = Promise.resolve();
+  let failure: Error | null = null;
+
+  const cancel = () => {
+    fetch(sessionUrl, { method: "DELETE" }).catch(() => {});
+  };
+
+  return {
+    push(chunk) {
+      queue = queue.then(async () => {
+        if (failure) return;
+        try {
+          const res = await fetch(sessionUrl, {
+            method: "POST",
+            headers: { "Content-Type": mimeType },
+            body: chunk,
+          });
+          if (!res.ok) {
+            const error = await readApiError(res, "Live transcription failed");
+            throw new Error(error.message);
+          }
+          const data = (await res.json()) as AsrStreamChunkResponse;
+          onInterim(data.text);
+        } catch (err) {
+          failure = err instanceof Error ? err : new Error(String(err));
+        }
+      });
+    },
+
+    async finish() {
+      await queue;
+      if (failure) {
+        cancel();
+        throw failure;
+      }
+      const res = await fetch(`${sessionUrl}/finish`, { method: "POST" });
+      if (!res.ok) {
+        const error = await readApiError(res, "Live transcription failed");
+        throw new Error(error.message);
+      }
+      return (await res.json()) as AsrResponse;
+    },
+
+    cancel,
+  };
+}
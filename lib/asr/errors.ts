@@ -0,0 +1,7 @@
+// lib/asr/errors.ts
+import { ApiError, toApiError } from "@/lib/api/errors";
+
+// Map anything thrown while handling an ASR request to an API error
+export function toAsrApiError(err: unknown, route: string): ApiError {
+  return toApiError(err, route, "asr");
+}
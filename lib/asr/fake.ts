@@ -0,0 +1,31 @@
+// lib/asr/fake.ts
+import type { StreamingAsrBackend, StreamingAsrSession } from "./types";
+
+const DEFAULT_TEXT = "Hello, why is my bill so high this month?";
+
+// Offline streaming ASR for demos without the GPU server: ignores the
+// audio and reveals a fixed sentence one word per chunk.
+export function createFakeStreamingAsr(options: {
+  text?: string;
+}): StreamingAsrBackend {
+  const words = (options.text || DEFAULT_TEXT).split(/\s+/).filter(Boolean);
+
+  return {
+    name: "fake",
+
+    async start(): Promise<StreamingAsrSession> {
+      let revealed = 0;
+
+      return {
+        async push() {
+          revealed = Math.min(words.length, revealed + 1);
+          return words.slice(0, revealed).join(" ");
+        },
+        async finish() {
+          return words.join(" ");
+        },
+        cancel() {},
+      };
+    },
+  };
+}
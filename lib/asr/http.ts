@@ -0,0 +1,96 @@
+// lib/asr/http.ts
+import { ApiError } from "@/lib/api/errors";
+import { logger } from "@/lib/logger";
+import { upstreamFetch } from "@/lib/upstream";
+import type { StreamingAsrBackend, StreamingAsrSession } from "./types";
+
+// Streaming ASR server speaking a small session protocol:
+//   POST   {baseUrl}/sessions              { mimeType }  -> { id }
+//   POST   {baseUrl}/sessions/{id}/audio   audio bytes   -> { text } (partial)
+//   POST   {baseUrl}/sessions/{id}/finish                -> { text } (final)
+//   DELETE {baseUrl}/sessions/{id}
+export function createHttpStreamingAsr(options: {
+  baseUrl: string;
+}): StreamingAsrBackend {
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+
+  async function call(
+    path: string,
+    init: RequestInit,
+    retries?: number
+  ): Promise<Record<string, unknown>> {
+    const res = await upstreamFetch("asr", `${baseUrl}${path}`, init, {
+      retries,
+    });
+    if (!res.ok) {
+      const errorText = await res.text().catch(() => "");
+      logger.error("ASR stream backend returned non-OK status", {
+        status: res.status,
+        body: errorText,
+      });
+      throw new ApiError("UPSTREAM_ERROR", "ASR backend error", {
+        details: { backendStatus: res.status, backendDetail: errorText },
+      });
+    }
+    const data = await res.json().catch(() => null);
+    if (!data || typeof data !== "object") {
+      throw new ApiError("UPSTREAM_ERROR", "Invalid response from ASR backend");
+    }
+    return data;
+  }
+
+  function readText(data: Record<string, unknown>): string {
+    if (typeof data.text !== "string") {
+      throw new ApiError("UPSTREAM_ERROR", "Invalid response from ASR backend");
+    }
+    return data.text.trim();
+  }
+
+  return {
+    name: "http",
+
+    async start({ mimeType }, signal): Promise<StreamingAsrSession> {
+      const created = await call("/sessions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mimeType }),
+        signal,
+      });
+      if (typeof created.id !== "string" || !created.id) {
+        throw new ApiError("UPSTREAM_ERROR", "Invalid response from ASR backend");
+      }
+      const sessionPath = `/sessions/${encodeURIComponent(created.id)}`;
+
+      return {
+        async push(chunk, signal) {
+          // Not retried: a chunk the backend got before the connection
+          // failed would be appended twice
+          const data = await call(
+            `${sessionPath}/audio`,
+            {
+              method: "POST",
+              headers: { "Content-Type": mimeType },
+              body: chunk,
+              signal,
+            },
+            0
+          );
+          return readText(data);
+        },
+
+        async finish(signal) {
+          return readText(
+            await call(`${sessionPath}/finish`, { method: "POST", signal })
+          );
+        },
+
+        cancel() {
+          // Best effort; the backend expires abandoned sessions itself
+          upstreamFetch("asr", `${baseUrl}${sessionPath}`, {
+            method: "DELETE",
+          }).catch(() => {});
+        },
+      };
+    },
+  };
+}
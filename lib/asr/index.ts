@@ -0,0 +1,43 @@
+// lib/asr/index.ts
+import { ApiError } from "@/lib/api/errors";
+import { createFakeStreamingAsr } from "./fake";
+import { createHttpStreamingAsr } from "./http";
+import type { StreamingAsrBackend } from "./types";
+
+export * from "./types";
+export { toAsrApiError } from "./errors";
+export {
+  closeAsrStream,
+  finishAsrStream,
+  openAsrStream,
+  pushAsrStreamChunk,
+} from "./sessions";
+
+export function streamingAsrBackendName(): string {
+  return (process.env.ASR_STREAM_BACKEND || "http").toLowerCase();
+}
+
+// Pick the streaming transcription backend from env:
+//   ASR_STREAM_BACKEND = "http" (default, needs ASR_STREAM_URL) | "fake"
+export function getStreamingAsrBackend(): StreamingAsrBackend {
+  const backendName = streamingAsrBackendName();
+
+  switch (backendName) {
+    case "fake":
+      return createFakeStreamingAsr({ text: process.env.ASR_FAKE_TEXT });
+
+    case "http": {
+      const baseUrl = process.env.ASR_STREAM_URL;
+      if (!baseUrl) {
+        throw new ApiError("CONFIG_ERROR", "ASR_STREAM_URL is not configured");
+      }
+      return createHttpStreamingAsr({ baseUrl });
+    }
+
+    default:
+      throw new ApiError(
+        "CONFIG_ERROR",
+        `Unknown ASR_STREAM_BACKEND "${backendName}" (expected http or fake)`
+      );
+  }
+}
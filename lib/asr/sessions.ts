@@ -0,0 +1,107 @@
+// lib/asr/sessions.ts
+import { randomUUID } from "crypto";
+import { ASR_LIMITS } from "@/lib/api/contracts";
+import { ApiError } from "@/lib/api/errors";
+import type { RateLimitLease } from "@/lib/rate-limit";
+import type { StreamingAsrSession } from "./types";
+
+// Sessions live in this process; behind a load balancer the chunk
+// requests need sticky routing.
+type LiveSession = {
+  backend: StreamingAsrSession;
+  // ASR concurrency slot, held until the session ends
+  lease: RateLimitLease;
+  bytes: number;
+  // Serialises chunk relays so the backend sees them in order
+  queue: Promise<unknown>;
+  expiry: ReturnType<typeof setTimeout>;
+};
+
+// A recorder sends a chunk every second; silence this long means the
+// tab went away
+const IDLE_TIMEOUT_MS = 30_000;
+
+const sessions = new Map<string, LiveSession>();
+
+export function openAsrStream(
+  backend: StreamingAsrSession,
+  lease: RateLimitLease
+): string {
+  const id = randomUUID();
+  sessions.set(id, {
+    backend,
+    lease,
+    bytes: 0,
+    queue: Promise.resolve(),
+    expiry: scheduleExpiry(id),
+  });
+  return id;
+}
+
+// Relay one chunk; resolves with the interim transcript
+export function pushAsrStreamChunk(
+  id: string,
+  chunk: ArrayBuffer,
+  signal?: AbortSignal
+): Promise<string> {
+  const session = touch(id);
+
+  session.bytes += chunk.byteLength;
+  if (session.bytes > ASR_LIMITS.maxAudioBytes) {
+    closeAsrStream(id);
+    throw new ApiError(
+      "PAYLOAD_TOO_LARGE",
+      `Audio must be at most ${Math.round(ASR_LIMITS.maxAudioBytes / (1024 * 1024))} MB`,
+      { details: { maxBytes: ASR_LIMITS.maxAudioBytes } }
+    );
+  }
+
+  const result = session.queue.then(() => session.backend.push(chunk, signal));
+  session.queue = result.catch(() => {});
+  return result;
+}
+
+// Wait for pending chunks, then get the final transcript and end the session
+export async function finishAsrStream(
+  id: string,
+  signal?: AbortSignal
+): Promise<string> {
+  const session = touch(id);
+  try {
+    await session.queue;
+    return await session.backend.finish(signal);
+  } finally {
+    endSession(id, session);
+  }
+}
+
+// Abandon a session (recording cancelled, too large, expired)
+export function closeAsrStream(id: string) {
+  const session = sessions.get(id);
+  if (!session) return;
+  session.backend.cancel();
+  endSession(id, session);
+}
+
+function touch(id: string): LiveSession {
+  const session = sessions.get(id);
+  if (!session) {
+    throw new ApiError("NOT_FOUND", "Transcription session not found or expired");
+  }
+  clearTimeout(session.expiry);
+  session.expiry = scheduleExpiry(id);
+  return session;
+}
+
+function endSession(id: string, session: LiveSession) {
+  clearTimeout(session.expiry);
+  if (sessions.get(id) === session) sessions.delete(id);
+  session.lease.release();
+}
+
+function scheduleExpiry(id: string) {
+  const timer = setTimeout(() => closeAsrStream(id), IDLE_TIMEOUT_MS);
+  // Never keep the process alive just for this
+  timer.unref?.();
+  return timer;
+}
@@ -0,0 +1,16 @@
+// lib/asr/types.ts
+
+// One live transcription on a streaming ASR backend
+export type StreamingAsrSession = {
+  // Feed the next recorder chunk; resolves with the transcript so far
+  push(chunk: ArrayBuffer, signal?: AbortSignal): Promise<string>;
+  // No more audio; resolves with the final transcript
+  finish(signal?: AbortSignal): Promise<string>;
+  // Drop the session without waiting for a result
+  cancel(): void;
+};
+
+export type StreamingAsrBackend = {
+  name: string;
+  start(options: { mimeType: string }, signal?: AbortSignal): Promise<StreamingAsrSession>;
+};
@@ -0,0 +1,246 @@
+// lib/audio/index.ts
+import { spawn } from "child_process";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { ASR_LIMITS } from "@/lib/api/contracts";
+import { ApiError } from "@/lib/api/errors";
+import { logger } from "@/lib/logger";
+import { audioFileExtension } from "@/lib/voice/format";
+
+export type AudioPolicy = {
+  // "original": forward what the browser recorded (its length is checked
+  // only when ffmpeg is installed);
+  // "wav": transcode to mono 16-bit PCM WAV with ffmpeg
+  format: "original" | "wav";
+  sampleRate: number;
+  // Silence is left out of the measured length, and of the audio sent
+  // when transcoding
+  trimSilence: boolean;
+  silenceThresholdDb: number;
+  ffmpegPath: string;
+};
+
+export type PreparedAudio = {
+  blob: Blob;
+  fileName: string;
+  // Speech length, silence trimmed if configured; null when it could not
+  // be measured (no ffmpeg)
+  durationMs: number | null;
+};
+
+const FFMPEG_TIMEOUT_MS = 15_000;
+
+// Forwarded recordings are decoded at this rate just to measure them
+const MEASURE_SAMPLE_RATE = 8000;
+
+let warnedNoFfmpeg = false;
+
+// Read the audio policy from env:
+//   ASR_AUDIO_FORMAT = "original" (default) | "wav"
+export function getAudioPolicy(): AudioPolicy {
+  const format = (process.env.ASR_AUDIO_FORMAT || "original").toLowerCase();
+  if (format !== "original" && format !== "wav") {
+    throw new ApiError(
+      "CONFIG_ERROR",
+      `Unknown ASR_AUDIO_FORMAT "${format}" (expected original or wav)`
+    );
+  }
+
+  const threshold = Number(process.env.ASR_SILENCE_THRESHOLD_DB);
+
+  return {
+    format,
+    sampleRate:
+      Number.parseInt(process.env.ASR_AUDIO_SAMPLE_RATE ?? "", 10) || 16_000,
+    trimSilence: process.env.ASR_TRIM_SILENCE !== "false",
+    silenceThresholdDb: Number.isFinite(threshold) && threshold < 0 ? threshold : -45,
+    ffmpegPath: process.env.ASR_FFMPEG_PATH || "ffmpeg",
+  };
+}
+
+// Turn an upload into what the ASR backend wants: as recorded (with the
+// right file extension) or resampled WAV with silence trimmed. Whenever
+// the length can be measured it is checked against `maxSeconds` and empty
+// clips are rejected.
+export async function prepareAudioForAsr(
+  audio: File,
+  maxSeconds: number,
+  policy: AudioPolicy = getAudioPolicy()
+): Promise<PreparedAudio> {
+  const wav =
+    policy.format === "wav" ? await transcodeToWav(audio, policy) : null;
+  const durationMs = wav
+    ? wavDurationMs(wav, policy.sampleRate)
+    : await measureOriginal(audio, policy);
+
+  if (durationMs !== null) checkLength(durationMs, maxSeconds);
+
+  if (!wav) {
+    return {
+      blob: audio,
+      fileName: `input.${audioFileExtension(audio.type)}`,
+      durationMs,
+    };
+  }
+
+  return {
+    blob: new Blob([new Uint8Array(wav)], { type: "audio/wav" }),
+    fileName: "input.wav",
+    durationMs,
+  };
+}
+
+// Length of a recording forwarded as is. Forwarding never needed ffmpeg,
+// so without it the check is skipped rather than failing the upload.
+async function measureOriginal(
+  audio: File,
+  policy: AudioPolicy
+): Promise<number | null> {
+  try {
+    const wav = await transcodeToWav(audio, {
+      ...policy,
+      sampleRate: MEASURE_SAMPLE_RATE,
+    });
+    return wavDurationMs(wav, MEASURE_SAMPLE_RATE);
+  } catch (err) {
+    if (!(err instanceof ApiError && err.code === "CONFIG_ERROR")) throw err;
+    if (!warnedNoFfmpeg) {
+      warnedNoFfmpeg = true;
+      logger.warn("ffmpeg not found; recording lengths are not checked", {
+        ffmpegPath: policy.ffmpegPath,
+      });
+    }
+    return null;
+  }
+}
+
+function checkLength(durationMs: number, maxSeconds: number) {
+  if (durationMs < ASR_LIMITS.minSpeechMs) {
+    throw new ApiError("VALIDATION_ERROR", "No speech detected in the recording", {
+      details: [{ field: "audio", message: "Recording is empty or silent" }],
+    });
+  }
+  if (durationMs > maxSeconds * 1000) {
+    throw new ApiError(
+      "PAYLOAD_TOO_LARGE",
+      `Recording must be at most ${maxSeconds} seconds`,
+      { details: { maxSeconds, durationMs } }
+    );
+  }
+}
+
+// Config problem for /api/health, or null if transcoding will work
+export async function checkAudioTools(): Promise<string | null> {
+  let policy: AudioPolicy;
+  try {
+    policy = getAudioPolicy();
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+  if (policy.format === "original") return null;
+
+  try {
+    await runFfmpeg(policy.ffmpegPath, ["-hide_banner", "-version"]);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+async function transcodeToWav(audio: File, policy: AudioPolicy): Promise<Buffer> {
+  // A file rather than stdin: MP4 from Safari needs a seekable input
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "asr-"));
+  const inputPath = path.join(dir, `input.${audioFileExtension(audio.type)}`);
+
+  try {
+    await fs.writeFile(inputPath, Buffer.from(await audio.arrayBuffer()));
+
+    const silence = `silenceremove=start_periods=1:start_silence=0.1:start_threshold=${policy.silenceThresholdDb}dB`;
+    // Trailing silence: reverse, trim the (new) start, reverse back
+    const filters = policy.trimSilence
+      ? ["-af", `${silence},areverse,${silence},areverse`]
+      : [];
+
+    return await runFfmpeg(policy.ffmpegPath, [
+      "-hide_banner",
+      "-loglevel", "error",
+      "-nostdin",
+      "-i", inputPath,
+      "-vn",
+      "-ac", "1",
+      "-ar", String(policy.sampleRate),
+      ...filters,
+      // Plain 44-byte header, no metadata chunks
+      "-map_metadata", "-1",
+      "-fflags", "+bitexact",
+      "-c:a", "pcm_s16le",
+      "-f", "wav",
+      "pipe:1",
+    ]);
+  } finally {
+    fs.rm(dir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+function runFfmpeg(ffmpegPath: string, args: string[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(ffmpegPath, args, { stdio: ["ignore", "pipe", "pipe"] });
+    const stdout: Buffer[] = [];
+    let stderr = "";
+
+    const timer = setTimeout(() => child.kill("SIGKILL"), FFMPEG_TIMEOUT_MS);
+
+    child.stdout.on("data", (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => {
+      // Keep the tail; that is where ffmpeg explains what went wrong
+      stderr = (stderr + chunk.toString()).slice(-2000);
+    });
+
+    // "close" follows a failed spawn too; the error is reported already
+    let spawnFailed = false;
+    child.on("error", (err: NodeJS.ErrnoException) => {
+      spawnFailed = true;
+      clearTimeout(timer);
+      reject(
+        err.code === "ENOENT"
+          ? new ApiError(
+              "CONFIG_ERROR",
+              `ffmpeg not found at "${ffmpegPath}" (set ASR_FFMPEG_PATH)`
+            )
+          : err
+      );
+    });
+
+    child.on("close", (code, signal) => {
+      clearTimeout(timer);
+      if (spawnFailed) return;
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+        return;
+      }
+      logger.error("ffmpeg failed", { exit: code ?? signal, stderr: stderr.trim() });
+      reject(
+        new ApiError("UNSUPPORTED_MEDIA_TYPE", "Could not decode the audio recording", {
+          details: { ffmpeg: signal ? `killed (${signal})` : stderr.trim() },
+        })
+      );
+    });
+  });
+}
+
+// Length of 16-bit mono PCM in a WAV file. The size fields may be bogus
+// when ffmpeg writes to a pipe, so the data chunk runs to the end.
+function wavDurationMs(wav: Buffer, sampleRate: number): number {
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const id = wav.toString("ascii", offset, offset + 4);
+    const size = wav.readUInt32LE(offset + 4);
+    if (id === "data") {
+      const bytes = Math.min(size, wav.length - offset - 8);
+      return (bytes / (sampleRate * 2)) * 1000;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return 0;
+}
@@ -0,0 +1,48 @@
+// lib/batch/export.ts
+import type { BatchItem } from "./types";
+
+// One exported row per file; File objects and timings flattened
+export type BatchResultRow = {
+  file: string;
+  sizeBytes: number;
+  status: string;
+  transcript: string;
+  language: string;
+  languageConfidence: number | null;
+  reply: string;
+  error: string;
+  processingMs: number | null;
+};
+
+export function toResultRows(items: BatchItem[]): BatchResultRow[] {
+  return items.map((item) => ({
+    file: item.file.name,
+    sizeBytes: item.file.size,
+    status: item.status,
+    transcript: item.transcript ?? "",
+    language: item.detectedLanguage?.language ?? "",
+    languageConfidence: item.detectedLanguage?.confidence ?? null,
+    reply: item.reply ?? "",
+    error: item.error ?? "",
+    processingMs:
+      item.startedAt && item.finishedAt ? item.finishedAt - item.startedAt : null,
+  }));
+}
+
+export function toJson(rows: BatchResultRow[]): string {
+  return JSON.stringify(rows, null, 2);
+}
+
+// RFC 4180 CSV with a BOM so Excel reads the Chinese text as UTF-8
+export function toCsv(rows: BatchResultRow[], columns: (keyof BatchResultRow)[]): string {
+  const cell = (value: unknown) => {
+    const text = value === null || value === undefined ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const lines = [
+    columns.join(","),
+    ...rows.map((row) => columns.map((column) => cell(row[column])).join(",")),
+  ];
+  return "\uFEFF" + lines.join("\r\n") + "\r\n";
+}
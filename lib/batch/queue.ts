@@ -0,0 +1,28 @@
+// lib/batch/queue.ts
+
+// Run `worker` over `items` with at most `concurrency` in flight, in order.
+// Stops picking up new items once `signal` aborts; a failing item does not
+// stop the others.
+export async function runQueue<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0;
+
+  const lane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const item = items[next++];
+      try {
+        await worker(item);
+      } catch (err) {
+        console.error("batch worker error:", err);
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane)
+  );
+}
@@ -0,0 +1,64 @@
+// lib/batch/request.ts
+import { describeApiError, readApiError, retryAfterSeconds } from "@/lib/api/client";
+import type { ApiErrorBody } from "@/lib/api/contracts";
+
+// A batch should outlast the per-minute limits, but not retry forever
+const MAX_ATTEMPTS = 6;
+const DEFAULT_WAIT_SECONDS = 5;
+
+export class BatchRequestError extends Error {
+  readonly error: ApiErrorBody;
+
+  constructor(error: ApiErrorBody, service: string) {
+    super(describeApiError(error, service));
+    this.name = "BatchRequestError";
+    this.error = error;
+  }
+}
+
+// fetch() a JSON API route, waiting out RATE_LIMITED / UPSTREAM_UNAVAILABLE
+// answers for as long as the server asks. Throws BatchRequestError.
+export async function requestJson<T>(
+  url: string,
+  init: RequestInit,
+  options: {
+    service: string;
+    signal?: AbortSignal;
+    // Called before each wait so the UI can show it
+    onWait?: (seconds: number) => void;
+  }
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    const res = await fetch(url, { ...init, signal: options.signal });
+    if (res.ok) return (await res.json()) as T;
+
+    const error = await readApiError(res, `${options.service} request failed`);
+    const retryable =
+      error.code === "RATE_LIMITED" || error.code === "UPSTREAM_UNAVAILABLE";
+    if (!retryable || attempt >= MAX_ATTEMPTS) {
+      throw new BatchRequestError(error, options.service);
+    }
+
+    const seconds = retryAfterSeconds(error) ?? DEFAULT_WAIT_SECONDS;
+    options.onWait?.(seconds);
+    await sleep(seconds * 1000, options.signal);
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
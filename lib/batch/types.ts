@@ -0,0 +1,29 @@
+// lib/batch/types.ts
+import type { LanguageDetection } from "@/lib/language/detect";
+
+export type BatchStatus =
+  | "queued"
+  | "transcribing"
+  | "replying"
+  // Rate limited; retrying after the server's Retry-After
+  | "waiting"
+  | "done"
+  | "error";
+
+export type BatchItem = {
+  id: string;
+  file: File;
+  status: BatchStatus;
+  transcript?: string;
+  detectedLanguage?: LanguageDetection | null;
+  // Assistant reply to the transcript, when requested
+  reply?: string;
+  error?: string;
+  startedAt?: number;
+  finishedAt?: number;
+};
+
+export type BatchOptions = {
+  concurrency: number;
+  withReplies: boolean;
+};
@@ -0,0 +1,76 @@
+// lib/chat/assist.ts
+// Agent-assist mode: instead of answering the customer, the model drafts
+// replies a human agent can edit and send, each with an English gloss.
+import type { AssistSuggestion } from "@/lib/api/contracts";
+import { LlmError } from "@/lib/llm";
+import type { PromptPack } from "@/lib/prompts/packs";
+
+export const ASSIST_SUGGESTION_COUNT = 3;
+
+// Longest reply or gloss kept from the model
+const MAX_FIELD_CHARS = 2000;
+
+export const ASSIST_SYSTEM_PROMPT = `
+You are "ZeroOne Dialect AI" in agent-assist mode. A human customer service agent at the Singapore telco Zero1 is talking to a customer and pastes in what the customer said. You do not talk to the customer yourself.
+
+Your job:
+- Draft ${ASSIST_SUGGESTION_COUNT} different candidate replies the agent could send.
+- Write every reply in the SAME language or dialect as the customer (English, Singlish, Mandarin, Hokkien, Cantonese, Teochew), in the way a friendly Singapore telco agent would say it.
+- Make the candidates meaningfully different: e.g. a direct answer, a reply that asks a clarifying question, and a more apologetic or detailed one.
+- Keep each reply short and practical (1–3 sentences).
+- For every reply, add an English gloss: a plain English translation so an agent who does not speak the dialect knows exactly what they are sending.
+
+Rules:
+- Do not hallucinate technical info or account details; if the answer depends on the customer's account, suggest that the agent checks it.
+- Never promise refunds, waivers or credits; the agent decides those.
+
+Answer with JSON only, in exactly this shape:
+{"suggestions": [{"reply": "<reply in the customer's language>", "gloss": "<English meaning>"}]}
+`;
+
+// The pack's few-shot answers as examples of the dialect's register; as
+// chat turns they would teach the model to answer in prose, not JSON
+export function assistExamples(pack: PromptPack): string | null {
+  if (pack.fewShots.length === 0) return null;
+  return [
+    "Example customer messages and good replies:",
+    ...pack.fewShots.map(
+      (shot) => `Customer: ${shot.user}\nReply: ${shot.assistant}`
+    ),
+  ].join("\n\n");
+}
+
+// Pull the suggestions out of the model's answer. Models sometimes wrap the
+// JSON in a code fence or add a sentence around it; anything without at
+// least one usable suggestion is an upstream error.
+export function parseAssistSuggestions(content: string): AssistSuggestion[] {
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  let parsed: unknown = null;
+  if (start !== -1 && end > start) {
+    try {
+      parsed = JSON.parse(content.slice(start, end + 1));
+    } catch {
+      parsed = null;
+    }
+  }
+
+  const items = (parsed as { suggestions?: unknown } | null)?.suggestions;
+  const suggestions = (Array.isArray(items) ? items : [])
+    .map((item) => {
+      const { reply, gloss } = (item ?? {}) as Record<string, unknown>;
+      return {
+        reply: typeof reply === "string" ? reply.trim().slice(0, MAX_FIELD_CHARS) : "",
+        gloss: typeof gloss === "string" ? gloss.trim().slice(0, MAX_FIELD_CHARS) : "",
+      };
+    })
+    .filter((suggestion) => suggestion.reply)
+    .slice(0, ASSIST_SUGGESTION_COUNT);
+
+  if (suggestions.length === 0) {
+    throw new LlmError("LLM returned no usable reply suggestions", {
+      detail: content.slice(0, 500),
+    });
+  }
+  return suggestions;
+}
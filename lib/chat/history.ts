@@ -0,0 +1,122 @@
+// lib/chat/history.ts
+
+export type ChatTurn = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+export type HistoryBudget = {
+  maxTurns: number;
+  maxTokens: number;
+};
+
+export type HistoryWindow = {
+  turns: ChatTurn[];
+  // Short recap of the turns that did not fit the budget (null if none dropped)
+  summary: string | null;
+};
+
+const DEFAULT_MAX_TURNS = 12;
+const DEFAULT_MAX_TOKENS = 2000;
+
+// Only the latest few dropped user questions are kept in the recap
+const SUMMARY_MAX_ITEMS = 5;
+const SUMMARY_ITEM_CHARS = 120;
+
+// Read the history budget from env, falling back to defaults that fit a 7B model
+export function readHistoryBudget(): HistoryBudget {
+  return {
+    maxTurns: readPositiveInt(
+      process.env.LLM_HISTORY_MAX_TURNS,
+      DEFAULT_MAX_TURNS
+    ),
+    maxTokens: readPositiveInt(
+      process.env.LLM_HISTORY_MAX_TOKENS,
+      DEFAULT_MAX_TOKENS
+    ),
+  };
+}
+
+function readPositiveInt(value: string | undefined, fallback: number) {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// Rough token estimate: CJK characters are ~1 token each,
+// everything else is ~4 characters per token.
+export function estimateTokens(text: string): number {
+  let cjk = 0;
+  for (const ch of text) {
+    if (/[\u3400-\u9fff\uf900-\ufaff]/.test(ch)) cjk++;
+  }
+  const rest = text.length - cjk;
+  return cjk + Math.ceil(rest / 4);
+}
+
+// Drop anything from the client that is not a well-formed user/assistant turn
+export function sanitizeHistory(input: unknown): ChatTurn[] {
+  if (!Array.isArray(input)) return [];
+
+  return input.flatMap((item) => {
+    if (!item || typeof item !== "object") return [];
+    const { role, content } = item as { role?: unknown; content?: unknown };
+    if (role !== "user" && role !== "assistant") return [];
+    if (typeof content !== "string" || !content.trim()) return [];
+    return [{ role, content }];
+  });
+}
+
+// Keep the most recent turns that fit the budget and summarise the rest
+export function buildHistoryWindow(
+  history: ChatTurn[],
+  budget: HistoryBudget
+): HistoryWindow {
+  const kept: ChatTurn[] = [];
+  let tokens = 0;
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const turn = history[i];
+    const cost = estimateTokens(turn.content);
+    if (kept.length >= budget.maxTurns || tokens + cost > budget.maxTokens) {
+      break;
+    }
+    kept.unshift(turn);
+    tokens += cost;
+  }
+
+  // Never start the window on an assistant reply without its question
+  while (kept.length > 0 && kept[0].role === "assistant") {
+    kept.shift();
+  }
+
+  const dropped = history.slice(0, history.length - kept.length);
+
+  return {
+    turns: kept,
+    summary: summariseTurns(dropped),
+  };
+}
+
+// Extractive recap of the customer's earlier questions, so follow-ups
+// still make sense after older turns are trimmed.
+function summariseTurns(turns: ChatTurn[]): string | null {
+  const questions = turns
+    .filter((turn) => turn.role === "user")
+    .map((turn) => {
+      const text = turn.content.replace(/\s+/g, " ").trim();
+      return text.length > SUMMARY_ITEM_CHARS
+        ? `${text.slice(0, SUMMARY_ITEM_CHARS)}…`
+        : text;
+    });
+
+  if (questions.length === 0) return null;
+
+  const recent = questions.slice(-SUMMARY_MAX_ITEMS);
+  const omitted = questions.length - recent.length;
+
+  return [
+    "Summary of earlier conversation (older turns were trimmed):",
+    ...(omitted > 0 ? [`- (${omitted} earlier questions omitted)`] : []),
+    ...recent.map((q) => `- Customer asked: ${q}`),
+  ].join("\n");
+}
@@ -0,0 +1,65 @@
+// lib/chat/stream.ts
+import type { ApiErrorBody } from "@/lib/api/contracts";
+import type { GuardrailKind } from "@/lib/guardrails/types";
+import type { HandoffState } from "@/lib/handoff/types";
+import type { KnowledgeSource } from "@/lib/knowledge/types";
+import type { LanguageDetection } from "@/lib/language/detect";
+import type { LanguageId } from "@/lib/language/languages";
+
+// Events streamed from /api/chat to the browser, one JSON object per line
+export type ChatStreamEvent =
+  | {
+      type: "language";
+      detectedLanguage: LanguageDetection | null;
+      replyLanguage: LanguageId | null;
+    }
+  | { type: "sources"; sources: KnowledgeSource[] }
+  | { type: "delta"; content: string }
+  // Sent before "done" when the conversation was queued for an agent
+  | { type: "handoff"; handoff: HandoffState }
+  // Sent before "done" when a guardrail acted; `reply` replaces everything
+  // streamed so far
+  | { type: "guardrails"; guardrails: GuardrailKind[]; reply?: string }
+  // `exchangeId` as in ChatResponse
+  | { type: "done"; exchangeId: string | null }
+  | { type: "error"; error: ApiErrorBody };
+
+export const NDJSON_CONTENT_TYPE = "application/x-ndjson; charset=utf-8";
+
+const encoder = new TextEncoder();
+
+export function encodeNdjson(value: unknown): Uint8Array {
+  return encoder.encode(JSON.stringify(value) + "\n");
+}
+
+// Parse a newline-delimited JSON byte stream into objects.
+// Used for both the upstream LLM stream and the browser side of /api/chat.
+export async function* readNdjson(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<unknown> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      let newline = buffer.indexOf("\n");
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line) yield JSON.parse(line);
+        newline = buffer.indexOf("\n");
+      }
+    }
+
+    const rest = (buffer + decoder.decode()).trim();
+    if (rest) yield JSON.parse(rest);
+  } finally {
+    // No-op once fully read; stops the source if the consumer bailed early
+    reader.cancel().catch(() => {});
+  }
+}
@@ -0,0 +1,169 @@
+// lib/conversations/client.ts
+// Browser side of conversation history: IndexedDB by default, or the
+// server store behind /api/conversations when CONVERSATION_STORE is set.
+import { describeApiError, readApiError } from "@/lib/api/client";
+import type {
+  ConversationListResponse,
+  ConversationRenameRequest,
+} from "@/lib/api/contracts";
+import { sortNewestFirst, toSummary } from "./summary";
+import type {
+  Conversation,
+  ConversationStore,
+  ConversationSummary,
+} from "./types";
+
+const ROUTE = "/api/conversations";
+const SERVICE = "Conversation history";
+
+const DB_NAME = "zero1-conversations";
+const DB_VERSION = 1;
+const DB_STORE = "conversations";
+
+let storePromise: Promise<ConversationStore> | null = null;
+
+// Id for a new conversation or message. crypto.randomUUID only exists in
+// secure contexts, so a page opened over plain HTTP on a LAN address
+// builds the same version 4 UUID from getRandomValues.
+export function newClientId(): string {
+  if (typeof crypto.randomUUID === "function") return crypto.randomUUID();
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join("-");
+}
+
+// The store this browser uses; decided once per page load
+export function getBrowserConversationStore(): Promise<ConversationStore> {
+  storePromise ??= chooseStore();
+  return storePromise;
+}
+
+async function chooseStore(): Promise<ConversationStore> {
+  try {
+    const res = await fetch(ROUTE);
+    if (res.ok) return createServerStore();
+    const error = await readApiError(res, "Conversation history unavailable");
+    // CONFIG_ERROR is the normal "no server store" answer
+    if (error.code !== "CONFIG_ERROR") {
+      console.warn("Server conversation history unavailable:", error);
+    }
+  } catch (err) {
+    console.warn("Server conversation history unavailable:", err);
+  }
+  return createIndexedDbStore();
+}
+
+function createIndexedDbStore(): ConversationStore {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  function open(): Promise<IDBDatabase> {
+    dbPromise ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(DB_STORE, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return dbPromise;
+  }
+
+  async function run<T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await open();
+    return new Promise((resolve, reject) => {
+      const request = action(db.transaction(DB_STORE, mode).objectStore(DB_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  const get = async (id: string) =>
+    ((await run("readonly", (store) => store.get(id))) as Conversation | undefined) ??
+    null;
+
+  return {
+    name: "indexeddb",
+
+    async list() {
+      const all = (await run("readonly", (store) => store.getAll())) as Conversation[];
+      return sortNewestFirst(all.map(toSummary));
+    },
+
+    get,
+
+    async save(conversation) {
+      await run("readwrite", (store) => store.put(conversation));
+    },
+
+    async rename(id, title) {
+      const conversation = await get(id);
+      if (!conversation) return null;
+      const renamed = { ...conversation, title };
+      await run("readwrite", (store) => store.put(renamed));
+      return toSummary(renamed);
+    },
+
+    async remove(id) {
+      await run("readwrite", (store) => store.delete(id));
+    },
+  };
+}
+
+function createServerStore(): ConversationStore {
+  const urlFor = (id: string) => `${ROUTE}/${encodeURIComponent(id)}`;
+
+  async function request(url: string, init?: RequestInit): Promise<Response> {
+    const res = await fetch(url, init);
+    if (!res.ok && res.status !== 404) {
+      const error = await readApiError(res, "Conversation history request failed");
+      throw new Error(describeApiError(error, SERVICE));
+    }
+    return res;
+  }
+
+  return {
+    name: "server",
+
+    async list() {
+      const res = await request(ROUTE);
+      return ((await res.json()) as ConversationListResponse).conversations;
+    },
+
+    async get(id) {
+      const res = await request(urlFor(id));
+      return res.ok ? ((await res.json()) as Conversation) : null;
+    },
+
+    async save(conversation) {
+      await request(urlFor(conversation.id), {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(conversation),
+      });
+    },
+
+    async rename(id, title) {
+      const res = await request(urlFor(id), {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title } satisfies ConversationRenameRequest),
+      });
+      return res.ok ? ((await res.json()) as ConversationSummary) : null;
+    },
+
+    async remove(id) {
+      await request(urlFor(id), { method: "DELETE" });
+    },
+  };
+}
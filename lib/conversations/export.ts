@@ -0,0 +1,185 @@
+// lib/conversations/export.ts
+// Transcripts for handing a conversation over to a human agent: Markdown
+// and JSON to attach to a CRM ticket, HTML to print or save as PDF.
+import type { KnowledgeSource } from "@/lib/knowledge/types";
+import { languageLabel, type LanguageId } from "@/lib/language/languages";
+import type { Conversation, ConversationMessage } from "./types";
+
+export type TranscriptMessage = {
+  role: ConversationMessage["role"];
+  // Agent's display name
+  author: string | null;
+  content: string;
+  timestamp: string;
+  // Detected for customer messages, reply language for the assistant
+  language: LanguageId | null;
+  languageConfidence: number | null;
+  // Customer spoke (or uploaded a recording) rather than typed
+  voice: boolean;
+  sources: KnowledgeSource[];
+};
+
+export type Transcript = {
+  conversationId: string;
+  title: string;
+  startedAt: string;
+  updatedAt: string;
+  exportedAt: string;
+  messages: TranscriptMessage[];
+};
+
+const ROLE_LABELS: Record<ConversationMessage["role"], string> = {
+  user: "Customer",
+  assistant: "Assistant",
+  agent: "Agent",
+};
+
+export function toTranscript(
+  conversation: Conversation,
+  exportedAt = new Date()
+): Transcript {
+  return {
+    conversationId: conversation.id,
+    title: conversation.title,
+    startedAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    exportedAt: exportedAt.toISOString(),
+    messages: conversation.messages.map((message) => ({
+      role: message.role,
+      author: message.author ?? null,
+      content: message.content,
+      timestamp: message.createdAt,
+      language:
+        message.role === "user"
+          ? message.detectedLanguage?.language ?? null
+          : message.language ?? null,
+      languageConfidence:
+        message.role === "user" ? message.detectedLanguage?.confidence ?? null : null,
+      voice: message.input === "voice",
+      sources: message.sources ?? [],
+    })),
+  };
+}
+
+export function transcriptToJson(transcript: Transcript): string {
+  return JSON.stringify(transcript, null, 2);
+}
+
+export function transcriptToMarkdown(transcript: Transcript): string {
+  const lines = [
+    `# ${transcript.title}`,
+    "",
+    ...headerFields(transcript).map(([label, value]) => `- **${label}:** ${value}`),
+    "",
+    "---",
+  ];
+
+  for (const message of transcript.messages) {
+    lines.push("", `### ${messageHeading(message)}`, "", message.content || "_(empty)_");
+    if (message.sources.length > 0) {
+      lines.push(
+        "",
+        `Sources: ${message.sources
+          .map((s) => `[${s.ref}] ${s.title} (\`${s.source}\`)`)
+          .join("; ")}`
+      );
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+// Standalone page; its print styles drop the button so it can be printed
+// or saved as PDF straight from the browser
+export function transcriptToHtml(transcript: Transcript): string {
+  const fields = headerFields(transcript)
+    .map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`)
+    .join("");
+
+  const messages = transcript.messages
+    .map((message) => {
+      const sources =
+        message.sources.length > 0
+          ? `<p class="sources">Sources: ${message.sources
+              .map((s) => `[${s.ref}] ${escapeHtml(s.title)}`)
+              .join("; ")}</p>`
+          : "";
+      return `<section class="message ${message.role}">
+<h2>${escapeHtml(messageHeading(message))}</h2>
+<p class="content">${escapeHtml(message.content)}</p>${sources}
+</section>`;
+    })
+    .join("\n");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(transcript.title)} - transcript</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #0f172a; }
+h1 { font-size: 1.4rem; margin-bottom: 0.5rem; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.2rem 1rem; font-size: 0.85rem; color: #475569; }
+dt { font-weight: 600; }
+dd { margin: 0; }
+.message { border-left: 3px solid #cbd5e1; padding: 0.2rem 0 0.2rem 0.8rem; margin: 1rem 0; break-inside: avoid; }
+.message.user { border-color: #10b981; }
+.message.agent { border-color: #0ea5e9; }
+.message h2 { font-size: 0.8rem; font-weight: 600; color: #475569; margin: 0 0 0.3rem; }
+.content { white-space: pre-wrap; margin: 0; line-height: 1.5; }
+.sources { font-size: 0.75rem; color: #64748b; margin: 0.4rem 0 0; }
+.print { margin: 1rem 0; padding: 0.4rem 1rem; }
+@media print { .print { display: none; } body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(transcript.title)}</h1>
+<dl>${fields}</dl>
+<button class="print" onclick="window.print()">Print / Save as PDF</button>
+${messages}
+</body>
+</html>
+`;
+}
+
+function headerFields(transcript: Transcript): [string, string][] {
+  return [
+    ["Conversation", transcript.conversationId],
+    ["Started", formatTimestamp(transcript.startedAt)],
+    ["Last message", formatTimestamp(transcript.updatedAt)],
+    ["Exported", formatTimestamp(transcript.exportedAt)],
+    ["Messages", String(transcript.messages.length)],
+  ];
+}
+
+// e.g. "Customer · 19 Oct 2026, 9:30:05 am · Hokkien (detected) · voice"
+function messageHeading(message: TranscriptMessage): string {
+  const role = message.author
+    ? `${ROLE_LABELS[message.role]} (${message.author})`
+    : ROLE_LABELS[message.role];
+  const parts = [role, formatTimestamp(message.timestamp)];
+  if (message.language) {
+    parts.push(
+      message.role === "user"
+        ? `${languageLabel(message.language)} (detected)`
+        : languageLabel(message.language)
+    );
+  }
+  if (message.voice) parts.push("voice");
+  return parts.join(" · ");
+}
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString("en-SG", {
+    dateStyle: "medium",
+    timeStyle: "medium",
+  });
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,85 @@
+// lib/conversations/file.ts
+// One JSON file per conversation, in a folder per owner. Good for a
+// single-instance demo; ids are validated by the routes before they get
+// here.
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { sortNewestFirst, toSummary } from "./summary";
+import type { Conversation, ConversationStore } from "./types";
+
+type StoredConversation = Conversation & { owner: string };
+
+// Only `owner`'s conversations are visible; others' read as missing
+export function createFileConversationStore(
+  rootDir: string,
+  owner: string
+): ConversationStore {
+  // Owner ids may hold characters that do not belong in a file name
+  const dir = path.join(
+    rootDir,
+    createHash("sha256").update(owner).digest("hex").slice(0, 32)
+  );
+  const fileFor = (id: string) => path.join(dir, `${id}.json`);
+
+  async function read(file: string): Promise<Conversation | null> {
+    let stored: StoredConversation;
+    try {
+      stored = JSON.parse(await fs.readFile(file, "utf8")) as StoredConversation;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+    if (stored.owner !== owner) return null;
+    const conversation: Conversation & { owner?: string } = { ...stored };
+    delete conversation.owner;
+    return conversation;
+  }
+
+  async function write(conversation: Conversation) {
+    await fs.mkdir(dir, { recursive: true });
+    const file = fileFor(conversation.id);
+    const stored: StoredConversation = { ...conversation, owner };
+    // Write then rename, so a reader never sees half a file
+    const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(stored), "utf8");
+    await fs.rename(temp, file);
+  }
+
+  return {
+    name: "file",
+
+    async list() {
+      const names = await fs.readdir(dir).catch((err) => {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw err;
+      });
+      const conversations = await Promise.all(
+        names
+          .filter((name) => name.endsWith(".json"))
+          .map((name) => read(path.join(dir, name)))
+      );
+      return sortNewestFirst(
+        conversations.filter((c): c is Conversation => c !== null).map(toSummary)
+      );
+    },
+
+    get(id) {
+      return read(fileFor(id));
+    },
+
+    save: write,
+
+    async rename(id, title) {
+      const conversation = await read(fileFor(id));
+      if (!conversation) return null;
+      const renamed = { ...conversation, title };
+      await write(renamed);
+      return toSummary(renamed);
+    },
+
+    async remove(id) {
+      await fs.rm(fileFor(id), { force: true });
+    },
+  };
+}
@@ -0,0 +1,37 @@
+// lib/conversations/index.ts
+import path from "path";
+import { ApiError } from "@/lib/api/errors";
+import { createFileConversationStore } from "./file";
+import type { ConversationStore } from "./types";
+
+export * from "./types";
+
+const DEFAULT_DIR = ".data/conversations";
+
+// Server-side conversation store from env, holding one owner's
+// conversations (see conversationOwner in lib/session):
+//   CONVERSATION_STORE = "none" (default; the browser keeps history in
+//   IndexedDB) | "file"
+export function getConversationStore(owner: string): ConversationStore {
+  const storeName = (process.env.CONVERSATION_STORE || "none").toLowerCase();
+
+  switch (storeName) {
+    case "file":
+      return createFileConversationStore(
+        path.resolve(process.cwd(), process.env.CONVERSATIONS_DIR || DEFAULT_DIR),
+        owner
+      );
+
+    case "none":
+      throw new ApiError(
+        "CONFIG_ERROR",
+        "Server-side conversation history is disabled (CONVERSATION_STORE)"
+      );
+
+    default:
+      throw new ApiError(
+        "CONFIG_ERROR",
+        `Unknown CONVERSATION_STORE "${storeName}" (expected none or file)`
+      );
+  }
+}
@@ -0,0 +1,49 @@
+// lib/conversations/summary.ts
+// Pure helpers shared by the browser and server conversation stores.
+import type { LanguageId } from "@/lib/language/languages";
+import type {
+  Conversation,
+  ConversationMessage,
+  ConversationSummary,
+} from "./types";
+
+const TITLE_CHARS = 60;
+
+export const UNTITLED_CONVERSATION = "New conversation";
+
+// Default title: the customer's first question, shortened
+export function conversationTitle(messages: ConversationMessage[]): string {
+  const first = messages.find((m) => m.role === "user");
+  const text = first?.content.replace(/\s+/g, " ").trim() ?? "";
+  if (!text) return UNTITLED_CONVERSATION;
+  return text.length > TITLE_CHARS
+    ? `${text.slice(0, TITLE_CHARS - 1).trimEnd()}…`
+    : text;
+}
+
+// Latest reply language, else the latest detected one
+export function conversationLanguage(
+  messages: ConversationMessage[]
+): LanguageId | null {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    const language = message.language ?? message.detectedLanguage?.language;
+    if (language) return language;
+  }
+  return null;
+}
+
+export function toSummary({
+  messages,
+  ...conversation
+}: Conversation): ConversationSummary {
+  return { ...conversation, messageCount: messages.length };
+}
+
+export function sortNewestFirst(
+  conversations: ConversationSummary[]
+): ConversationSummary[] {
+  return [...conversations].sort((a, b) =>
+    b.updatedAt.localeCompare(a.updatedAt)
+  );
+}
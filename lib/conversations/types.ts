@@ -0,0 +1,61 @@
+// lib/conversations/types.ts
+import type { FeedbackRating } from "@/lib/analytics/types";
+import type { GuardrailKind } from "@/lib/guardrails/types";
+import type { KnowledgeSource } from "@/lib/knowledge/types";
+import type { LanguageDetection } from "@/lib/language/detect";
+import type { LanguageId } from "@/lib/language/languages";
+
+export type MessageInput = "text" | "voice";
+
+export type ConversationMessage = {
+  id: string;
+  // "agent": a human agent who took over the conversation
+  role: "user" | "assistant" | "agent";
+  content: string;
+  // ISO timestamp of when the message was sent or the reply started
+  createdAt: string;
+  // How a user message was entered; "voice" covers uploaded recordings
+  input?: MessageInput;
+  // Knowledge base sections the reply was grounded on
+  sources?: KnowledgeSource[];
+  // Language/dialect the server detected in a user message
+  detectedLanguage?: LanguageDetection;
+  // Language an assistant reply was written in; picks the playback voice
+  language?: LanguageId | null;
+  // Display name of the human agent who wrote it
+  author?: string;
+  // Guardrails that acted on this exchange (assistant replies only)
+  guardrails?: GuardrailKind[];
+  // Analytics id of the exchange, for rating an assistant reply
+  exchangeId?: string;
+  feedback?: FeedbackRating | null;
+};
+
+export type Conversation = {
+  id: string;
+  title: string;
+  // Language of the latest turn, shown in the history list
+  language: LanguageId | null;
+  createdAt: string;
+  // Time of the last message, so reopening a conversation keeps its place
+  updatedAt: string;
+  messages: ConversationMessage[];
+};
+
+export type ConversationSummary = Omit<Conversation, "messages"> & {
+  messageCount: number;
+};
+
+// Where conversations are kept: IndexedDB in the browser, or a server-side
+// store behind /api/conversations
+export type ConversationStore = {
+  name: string;
+  // Newest first
+  list(): Promise<ConversationSummary[]>;
+  get(id: string): Promise<Conversation | null>;
+  // Create or replace
+  save(conversation: Conversation): Promise<void>;
+  // null when there is no such conversation
+  rename(id: string, title: string): Promise<ConversationSummary | null>;
+  remove(id: string): Promise<void>;
+};
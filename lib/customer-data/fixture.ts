@@ -0,0 +1,80 @@
+// lib/customer-data/fixture.ts
+import { promises as fs } from "fs";
+import type {
+  Bill,
+  Customer,
+  CustomerDataService,
+  DataUsage,
+  Plan,
+  RoamingCharge,
+} from "./types";
+
+type FixtureCustomer = Customer & {
+  bills: Bill[];
+  dataUsage: DataUsage | null;
+  roaming: RoamingCharge[];
+};
+
+type FixtureFile = {
+  plans: Plan[];
+  customers: FixtureCustomer[];
+};
+
+// Customer data backed by a local JSON file, for demos without a CRM.
+// The file is re-read whenever it changes on disk.
+export function createFixtureCustomerDataService(
+  filePath: string
+): CustomerDataService {
+  let cache: { mtimeMs: number; data: FixtureFile } | null = null;
+
+  async function load(): Promise<FixtureFile> {
+    const stat = await fs.stat(filePath);
+    if (cache && cache.mtimeMs === stat.mtimeMs) return cache.data;
+
+    const data = JSON.parse(await fs.readFile(filePath, "utf8")) as FixtureFile;
+    cache = { mtimeMs: stat.mtimeMs, data };
+    return data;
+  }
+
+  async function findCustomer(customerId: string) {
+    const data = await load();
+    return data.customers.find((c) => c.id === customerId) ?? null;
+  }
+
+  return {
+    async listCustomers() {
+      const data = await load();
+      return data.customers.map(toCustomer);
+    },
+
+    async getCustomer(customerId) {
+      const customer = await findCustomer(customerId);
+      return customer ? toCustomer(customer) : null;
+    },
+
+    async getBills(customerId) {
+      const customer = await findCustomer(customerId);
+      return [...(customer?.bills ?? [])].sort((a, b) =>
+        a.month.localeCompare(b.month)
+      );
+    },
+
+    async getDataUsage(customerId) {
+      return (await findCustomer(customerId))?.dataUsage ?? null;
+    },
+
+    async getRoamingCharges(customerId) {
+      return (await findCustomer(customerId))?.roaming ?? [];
+    },
+
+    async listPlans() {
+      return (await load()).plans;
+    },
+  };
+}
+
+function toCustomer(customer: FixtureCustomer): Customer {
+  const { id, name, msisdn, planId, contractEndDate, preferredLanguage } =
+    customer;
+  return { id, name, msisdn, planId, contractEndDate, preferredLanguage };
+}
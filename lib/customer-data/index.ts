@@ -0,0 +1,35 @@
+// lib/customer-data/index.ts
+import path from "path";
+import { createFixtureCustomerDataService } from "./fixture";
+import type { CustomerDataService } from "./types";
+
+export * from "./types";
+
+const DEFAULT_FIXTURE_FILE = "data/customers.json";
+
+let service: CustomerDataService | null = null;
+
+// Pick the customer data backend from env:
+//   CUSTOMER_DATA_BACKEND = "fixture" (default, JSON file at CUSTOMER_DATA_FILE)
+// A real CRM integration only needs another CustomerDataService implementation.
+export function getCustomerDataService(): CustomerDataService {
+  if (service) return service;
+
+  const backend = (process.env.CUSTOMER_DATA_BACKEND || "fixture").toLowerCase();
+
+  switch (backend) {
+    case "fixture":
+      service = createFixtureCustomerDataService(
+        path.resolve(
+          process.cwd(),
+          process.env.CUSTOMER_DATA_FILE || DEFAULT_FIXTURE_FILE
+        )
+      );
+      return service;
+
+    default:
+      throw new Error(
+        `Unknown CUSTOMER_DATA_BACKEND "${backend}" (expected fixture)`
+      );
+  }
+}
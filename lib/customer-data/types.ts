@@ -0,0 +1,67 @@
+// lib/customer-data/types.ts
+
+export type Plan = {
+  id: string;
+  name: string;
+  monthlyFee: number;
+  dataGb: number;
+  // null = unlimited
+  talkMinutes: number | null;
+  sms: number | null;
+  contractMonths: number;
+  roamingDataGb: number;
+  notes?: string;
+};
+
+export type BillItem = {
+  category: "plan" | "data" | "calls" | "roaming" | "vas" | "other";
+  description: string;
+  amount: number;
+};
+
+export type Bill = {
+  // Billing month, "YYYY-MM"
+  month: string;
+  total: number;
+  dueDate: string;
+  status: "paid" | "unpaid" | "overdue";
+  items: BillItem[];
+};
+
+export type DataUsage = {
+  cycleStart: string;
+  cycleEnd: string;
+  usedGb: number;
+  allowanceGb: number;
+  addOnGb: number;
+};
+
+export type RoamingCharge = {
+  month: string;
+  country: string;
+  dataMb: number;
+  callMinutes: number;
+  amount: number;
+  pack: string | null;
+};
+
+export type Customer = {
+  id: string;
+  name: string;
+  msisdn: string;
+  planId: string;
+  contractEndDate: string;
+  preferredLanguage: string;
+};
+
+// Read-only account data the assistant may look up on behalf of a customer.
+// Amounts are in SGD.
+export interface CustomerDataService {
+  listCustomers(): Promise<Customer[]>;
+  getCustomer(customerId: string): Promise<Customer | null>;
+  // Most recent month last
+  getBills(customerId: string): Promise<Bill[]>;
+  getDataUsage(customerId: string): Promise<DataUsage | null>;
+  getRoamingCharges(customerId: string): Promise<RoamingCharge[]>;
+  listPlans(): Promise<Plan[]>;
+}
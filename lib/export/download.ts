@@ -0,0 +1,24 @@
+// lib/export/download.ts
+
+// Save text as a file from the browser
+export function downloadText(fileName: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// Timestamp for export file names, e.g. 2026-10-19-09-30-00
+export function fileStamp(date = new Date()): string {
+  return date.toISOString().slice(0, 19).replace(/[:T]/g, "-");
+}
+
+// Show an HTML document in a new tab (e.g. a printable transcript)
+export function openHtml(content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: "text/html" }));
+  window.open(url, "_blank", "noopener");
+  // The new tab needs a moment to load it
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
@@ -0,0 +1,33 @@
+// lib/guardrails/index.ts
+import type { ChatTurn } from "@/lib/chat/history";
+import { redactPii } from "./pii";
+import type { PiiKind } from "./types";
+
+export * from "./types";
+export { redactPii } from "./pii";
+export { guardrailReply, type RewriteKind } from "./replies";
+export { screenMessage, screenReply } from "./rules";
+
+// Refusals and reply rewrites on /api/chat; set GUARDRAILS_ENABLED=false
+// to turn them off. PII is masked either way.
+export function isGuardrailsEnabled(): boolean {
+  return process.env.GUARDRAILS_ENABLED !== "false";
+}
+
+// Mask the new message and every earlier turn before they go to the model
+export function redactTurns(
+  message: string,
+  history: ChatTurn[]
+): { message: string; history: ChatTurn[]; found: PiiKind[] } {
+  const found = new Set<PiiKind>();
+  const redact = (text: string) => {
+    const result = redactPii(text);
+    result.found.forEach((kind) => found.add(kind));
+    return result.text;
+  };
+  return {
+    message: redact(message),
+    history: history.map((turn) => ({ ...turn, content: redact(turn.content) })),
+    found: [...found],
+  };
+}
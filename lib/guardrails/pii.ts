@@ -0,0 +1,51 @@
+// lib/guardrails/pii.ts
+// Masks personal identifiers that customers paste into the chat, before
+// the text is sent to the model or written to the server log.
+
+import type { PiiKind, Redaction } from "./types";
+
+const PLACEHOLDERS: Record<PiiKind, string> = {
+  nric: "[NRIC]",
+  card: "[CARD NUMBER]",
+  phone: "[PHONE NUMBER]",
+};
+
+// Singapore NRIC/FIN: prefix letter, 7 digits, checksum letter
+const NRIC_PATTERN = /\b[STFGM]\d{7}[A-Z]\b/gi;
+
+// 13-19 digits, optionally grouped with spaces or dashes; Luhn-checked so
+// order and account numbers are left alone
+const CARD_PATTERN = /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g;
+
+// Singapore numbers: 8 digits starting 3, 6, 8 or 9, optional +65
+const PHONE_PATTERN = /(?<![\d+])(?:\+?65[ -]?)?[3689]\d{3}[ -]?\d{4}(?!\d)/g;
+
+export function redactPii(text: string): Redaction {
+  const found = new Set<PiiKind>();
+  const mask = (kind: PiiKind) => {
+    found.add(kind);
+    return PLACEHOLDERS[kind];
+  };
+
+  const redacted = text
+    .replace(NRIC_PATTERN, () => mask("nric"))
+    .replace(CARD_PATTERN, (match) =>
+      luhnValid(match.replace(/\D/g, "")) ? mask("card") : match
+    )
+    .replace(PHONE_PATTERN, () => mask("phone"));
+
+  return { text: redacted, found: [...found] };
+}
+
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
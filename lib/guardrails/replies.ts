@@ -0,0 +1,65 @@
+// lib/guardrails/replies.ts
+import type { LanguageId } from "@/lib/language/languages";
+import type { GuardrailKind } from "./types";
+
+// Guardrails that replace the reply rather than just mask the message
+export type RewriteKind = Exclude<GuardrailKind, "pii_redacted">;
+
+// What the customer sees instead, in their language or dialect
+const REPLIES: Record<RewriteKind, Record<LanguageId, string>> = {
+  off_topic: {
+    english:
+      "Sorry ah, I can only help with Zero1 things like your bill, data, roaming, plan or SIM card. Anything about your account I can check for you?",
+    mandarin:
+      "\u62b1\u6b49\uff0c\u6211\u53ea\u80fd\u534f\u52a9\u5904\u7406 Zero1 \u7684\u76f8\u5173\u95ee\u9898\uff0c\u4f8b\u5982\u8d26\u5355\u3001\u6d41\u91cf\u3001\u6f2b\u6e38\u3001\u914d\u5957\u6216 SIM \u5361\u3002\u8bf7\u95ee\u60a8\u7684\u8d26\u6237\u6709\u4ec0\u4e48\u9700\u8981\u5e2e\u5fd9\u7684\u5417\uff1f",
+    cantonese:
+      "\u5514\u597d\u610f\u601d\uff0c\u6211\u53ea\u53ef\u4ee5\u5e6b\u4f60\u8655\u7406 Zero1 \u5605\u554f\u984c\uff0c\u4f8b\u5982\u8cec\u55ae\u3001\u6578\u64da\u3001\u6f2b\u904a\u3001\u6708\u8cbb\u8a08\u5283\u6216\u8005 SIM \u5361\u3002\u4f60\u500b\u6236\u53e3\u6709\u54a9\u9700\u8981\u5e6b\u624b\uff1f",
+    hokkien:
+      "Pai seh ah, gua kan na e sai tau lu Zero1 e tai ji, bill, data, roaming, plan or SIM card. Lu e account u si mi gua e sai tau lu kua?",
+    teochew:
+      "Pai s\u00ea, ua zi ho dan le Zero1 ge sai, bill, data, roaming, plan or SIM card. Le ge account u mih ua ho dan le tai?",
+  },
+  abusive: {
+    english:
+      "I understand you're upset, and I do want to help. Please keep it respectful so I can sort out your bill, data, roaming or plan issue. What happened?",
+    mandarin:
+      "\u6211\u7406\u89e3\u60a8\u5f88\u4e0d\u6ee1\u610f\uff0c\u6211\u4e5f\u5f88\u60f3\u5e2e\u60a8\u89e3\u51b3\u95ee\u9898\u3002\u8bf7\u4fdd\u6301\u793c\u8c8c\uff0c\u544a\u8bc9\u6211\u8d26\u5355\u3001\u6d41\u91cf\u3001\u6f2b\u6e38\u6216\u914d\u5957\u65b9\u9762\u53d1\u751f\u4e86\u4ec0\u4e48\u4e8b\uff1f",
+    cantonese:
+      "\u6211\u660e\u767d\u4f60\u597d\u5514\u958b\u5fc3\uff0c\u6211\u90fd\u597d\u60f3\u5e6b\u4f60\u89e3\u6c7a\u3002\u9ebb\u7169\u4f60\u8b1b\u5622\u5ba2\u6c23\u5572\uff0c\u8a71\u6211\u77e5\u8cec\u55ae\u3001\u6578\u64da\u3001\u6f2b\u904a\u6216\u8005\u8a08\u5283\u6709\u54a9\u554f\u984c\uff1f",
+    hokkien:
+      "Gua zai lu bo huann hi, gua ma siunn beh tau lu. Pai seh, kong ue ho se ji tam po, ka gua kong bill, data, roaming or plan si mi bun te?",
+    teochew:
+      "Ua zai le bo huang hi, ua ma siang ai dan le. Cing le kong ue ho se ji, ka ua kong bill, data, roaming or plan mih bung doi?",
+  },
+  unsafe_commitment: {
+    english:
+      "I'm not able to confirm refunds, waivers or credits here. I can note your request, and our billing team will review it and get back to you.",
+    mandarin:
+      "\u6211\u65e0\u6cd5\u5728\u8fd9\u91cc\u786e\u8ba4\u9000\u6b3e\u3001\u8c41\u514d\u6216\u56de\u6263\u3002\u6211\u53ef\u4ee5\u8bb0\u5f55\u60a8\u7684\u8bf7\u6c42\uff0c\u8d26\u5355\u56e2\u961f\u5ba1\u6838\u540e\u4f1a\u518d\u8054\u7cfb\u60a8\u3002",
+    cantonese:
+      "\u6211\u55ba\u5ea6\u5187\u8fa6\u6cd5\u78ba\u8a8d\u9000\u6b3e\u3001\u8c41\u514d\u6216\u8005\u56de\u8d08\u3002\u6211\u53ef\u4ee5\u5e6b\u4f60\u8a18\u4f4e\u8981\u6c42\uff0c\u8cec\u55ae\u5718\u968a\u5be9\u6838\u4e4b\u5f8c\u6703\u518d\u806f\u7d61\u4f60\u3002",
+    hokkien:
+      "Refund, waiver or credit gua bo huat to ti zia kong ho. Gua e sai ka lu e request ki le, billing team kua liau e koh contact lu.",
+    teochew:
+      "Refund, waiver or credit ua bo huad ti zia kong ho. Ua ho ga le ge request gi lo, billing team tai liao ko contact le.",
+  },
+  prompt_leak: {
+    english:
+      "Sorry, I can't share how I'm set up. Happy to help with your bill, data, roaming or plan though.",
+    mandarin:
+      "\u62b1\u6b49\uff0c\u6211\u4e0d\u80fd\u900f\u9732\u6211\u7684\u8bbe\u7f6e\u5185\u5bb9\u3002\u4e0d\u8fc7\u8d26\u5355\u3001\u6d41\u91cf\u3001\u6f2b\u6e38\u6216\u914d\u5957\u7684\u95ee\u9898\uff0c\u6211\u5f88\u4e50\u610f\u5e2e\u5fd9\u3002",
+    cantonese:
+      "\u5514\u597d\u610f\u601d\uff0c\u6211\u5514\u53ef\u4ee5\u900f\u9732\u6211\u5605\u8a2d\u5b9a\u3002\u4e0d\u904e\u8cec\u55ae\u3001\u6578\u64da\u3001\u6f2b\u904a\u6216\u8005\u8a08\u5283\u5605\u554f\u984c\uff0c\u6211\u597d\u6a02\u610f\u5e6b\u4f60\u3002",
+    hokkien:
+      "Pai seh, gua e setting bo huat to kong lu zai. M koh bill, data, roaming or plan e bun te, gua huann hi tau lu.",
+    teochew:
+      "Pai s\u00ea, ua ge setting bo huad ga le kong. M gu bill, data, roaming or plan ge bung doi, ua huang hi dan le.",
+  },
+};
+
+export function guardrailReply(
+  kind: RewriteKind,
+  language: LanguageId | null
+): string {
+  return REPLIES[kind][language ?? "english"];
+}
@@ -0,0 +1,97 @@
+// lib/guardrails/rules.ts
+// Keyword rules for messages the assistant should not take on, and for
+// replies that must not go out as written.
+
+import type { InputVerdict, ReplyVerdict } from "./types";
+
+// Insults and profanity, in English/Singlish and Chinese. Plain frustration
+// ("useless", "lousy") is left to the handoff rules.
+const ABUSE_PATTERNS = [
+  /\b(fuck\w*|fk|fcuk|shit|bitch|bastard|asshole|dickhead|moron|idiot)\b/i,
+  /\b(knn|kns|ccb|cb|nabei|lan\s*jiao|kan\s*ni\s*na|chee\s*bye|cheebai)\b/i,
+  // 他妈的 / 傻逼 / 操你 / 仆街 / 屌 (common Mandarin and Cantonese abuse)
+  /\u4ed6\u5988\u7684|\u50bb\u903c|\u64cd\u4f60|\u4ec6\u8857|\u5c4c/,
+];
+
+// Requests with nothing to do with telco support
+const OFF_TOPIC_PATTERNS = [
+  /\b(write|compose)\s+(me\s+)?(a|an|some)\s+(poem|story|essay|song|lyrics|code|script|program)\b/i,
+  /\b(homework|assignment|exam)\s+(question|answer|help)\b/i,
+  /\b(recipe|how\s+to\s+cook)\b/i,
+  /\b(stock|share|crypto|bitcoin)\s+(tip|tips|pick|picks|price|prices)\b/i,
+  /\b(which|what)\s+(stock|coin|crypto)\s+(should|to)\s+(i\s+)?buy\b/i,
+  /\b(who\s+(will|should)\s+(win|i\s+vote)|election|political\s+party)\b/i,
+  /\b(4d|toto)\s+(number|numbers|prediction)\b/i,
+  // 写一首诗 / 写作文 / 股票推荐 (write a poem, write an essay, stock picks)
+  /\u5199\u4e00\u9996\u8bd7|\u5199\u4f5c\u6587|\u80a1\u7968\u63a8\u8350/,
+];
+
+// Anything about the telco keeps a message on topic
+const TELCO_KEYWORDS =
+  /\b(bill|data|roam\w*|plan|sim|esim|contract|network|signal|coverage|payment|invoice|top[\s-]?up|zero1|line|number|phone|call|sms|5g|4g)\b|\u8d26\u5355|\u6d41\u91cf|\u6f2b\u6e38|\u5957\u9910|\u8cec\u55ae|\u6578\u64da|\u6f2b\u904a/i;
+
+// Promises only the billing team can make
+const COMMITMENT_PATTERNS = [
+  /\b(i|we)(\s+will|'ll|\s+have|'ve|\s+can|\s+shall)\s+(\w+\s+){0,2}(refund|waive|reimburse|credit\s+back)\w*/i,
+  /\b(refund|waiver|rebate|credit)\s+(has|have|is|will)\s+(been\s+|be\s+)?(approved|processed|issued|granted|applied)\b/i,
+  /\byou('ll|\s+will)\s+(get|receive)\s+(a\s+|your\s+)?(full\s+)?(refund|waiver|rebate)\b/i,
+  // 会/已经 + 退款/免除 (will / already refund or waive)
+  /(\u4f1a|\u6703|\u5c06|\u5c07|\u5df2\u7ecf|\u5df2\u7d93|\u5e2e\u4f60|\u5e6b\u4f60|\u4e3a\u60a8|\u70ba\u60a8|\u7ed9\u60a8|\u7d66\u60a8)\s*(\u9000\u6b3e|\u9000\u8fd8|\u9000\u9084|\u9000\u9322|\u514d\u9664|\u8c41\u514d)/,
+];
+
+const NEGATION = /\b(not|never|unable|cannot)\b|n't|\u4e0d|\u65e0\u6cd5|\u6c92\u6709|\u5187/i;
+
+// Talking about its own instructions
+const PROMPT_LEAK_PATTERNS = [
+  /\b(system\s+prompt|my\s+(instructions|system\s+message)\s+(are|say|is))\b/i,
+  /\byou\s+are\s+"?zeroone\s+dialect\s+ai"?/i,
+];
+
+// Lines of the system prompt long enough that quoting one is a leak
+const MIN_LEAK_LINE_CHARS = 40;
+
+export function screenMessage(message: string): InputVerdict | null {
+  if (ABUSE_PATTERNS.some((pattern) => pattern.test(message))) {
+    return { kind: "abusive", reason: "Abusive language" };
+  }
+  if (
+    OFF_TOPIC_PATTERNS.some((pattern) => pattern.test(message)) &&
+    !TELCO_KEYWORDS.test(message)
+  ) {
+    return { kind: "off_topic", reason: "Not a telco support request" };
+  }
+  return null;
+}
+
+export function screenReply(
+  reply: string,
+  systemPrompt: string
+): ReplyVerdict | null {
+  for (const pattern of COMMITMENT_PATTERNS) {
+    const match = reply.match(pattern);
+    // Chinese puts the negation just before the match (无法为您退款)
+    const context = match
+      ? reply.slice(Math.max(0, match.index! - 3), match.index! + match[0].length)
+      : "";
+    if (match && !NEGATION.test(context)) {
+      return { kind: "unsafe_commitment", reason: `Promised "${match[0]}"` };
+    }
+  }
+
+  const normalizedReply = normalize(reply);
+  const leakedLine = systemPrompt
+    .split("\n")
+    .map(normalize)
+    .find(
+      (line) =>
+        line.length >= MIN_LEAK_LINE_CHARS && normalizedReply.includes(line)
+    );
+  if (leakedLine || PROMPT_LEAK_PATTERNS.some((pattern) => pattern.test(reply))) {
+    return { kind: "prompt_leak", reason: "Reply quotes the system prompt" };
+  }
+  return null;
+}
+
+function normalize(text: string): string {
+  return text.replace(/^[\s\-*]+/, "").replace(/\s+/g, " ").trim().toLowerCase();
+}
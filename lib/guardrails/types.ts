@@ -0,0 +1,33 @@
+// lib/guardrails/types.ts
+
+// What a guardrail did to one chat turn
+// pii_redacted: NRIC/FIN, card or phone numbers were masked before the model
+// off_topic / abusive: the message was answered with a polite refusal
+// unsafe_commitment: the reply promised a refund or waiver and was rewritten
+// prompt_leak: the reply quoted the system prompt and was rewritten
+export type GuardrailKind =
+  | "pii_redacted"
+  | "off_topic"
+  | "abusive"
+  | "unsafe_commitment"
+  | "prompt_leak";
+
+export type PiiKind = "nric" | "card" | "phone";
+
+export type Redaction = {
+  text: string;
+  // Kinds found, each listed once
+  found: PiiKind[];
+};
+
+// Message that should not reach the model
+export type InputVerdict = {
+  kind: "off_topic" | "abusive";
+  reason: string;
+};
+
+// Reply that must not reach the customer as written
+export type ReplyVerdict = {
+  kind: "unsafe_commitment" | "prompt_leak";
+  reason: string;
+};
@@ -0,0 +1,22 @@
+// lib/handoff/index.ts
+import type { Handoff, HandoffState } from "./types";
+
+export * from "./types";
+export { detectEscalation } from "./rules";
+export { sseResponse } from "./sse";
+export * from "./store";
+
+// Escalation to a human agent; set ESCALATION_ENABLED=false to turn off
+// both the rules and the model's requestHumanAgent tool
+export function isEscalationEnabled(): boolean {
+  return process.env.ESCALATION_ENABLED !== "false";
+}
+
+export function toHandoffState(handoff: Handoff): HandoffState {
+  return {
+    conversationId: handoff.conversationId,
+    status: handoff.status,
+    reason: handoff.reason,
+    agentName: handoff.agentName,
+  };
+}
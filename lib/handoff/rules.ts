@@ -0,0 +1,48 @@
+// lib/handoff/rules.ts
+// Keyword and frustration rules that hand a conversation to a human
+// without waiting for the model to decide.
+
+export type EscalationMatch = {
+  reason: string;
+};
+
+// Explicit requests for a person, in English/Singlish and Chinese
+const AGENT_REQUEST_PATTERNS = [
+  /\b(talk|speak|chat)\s+(to|with)\s+(a\s+|an\s+|your\s+)?(real\s+|live\s+)?(human|person|agent|staff|someone|officer)\b/i,
+  /\b(real|live|human)\s+(person|agent|staff)\b/i,
+  /\bcustomer\s+service\s+(officer|agent|staff)\b/i,
+  // 人工 / 真人 / 客服人员 (human agent, real person, service staff)
+  /\u4eba\u5de5|\u771f\u4eba|\u5ba2\u670d\u4eba\u5458/,
+];
+
+// Each hit adds to the frustration score
+const FRUSTRATION_PATTERNS = [
+  /\b(useless|ridiculous|nonsense|rubbish|terrible|worst|stupid)\b/i,
+  /\b(angry|furious|fed up|sick of|lousy)\b/i,
+  /\b(complain|complaint|scam|cheat(ed|ing)?|lawyer|sue)\b/i,
+  /\bcancel\s+(my\s+)?(line|contract|plan|account)\b/i,
+  /\bwah\s*lau\b|\bsiao\b/i,
+  // 投诉 / 生气 / 骗 (complaint, angry, cheated)
+  /\u6295\u8bc9|\u751f\u6c14|\u9a97/,
+];
+
+// Frustration score at which a person should take over
+const FRUSTRATION_THRESHOLD = 2;
+
+export function detectEscalation(message: string): EscalationMatch | null {
+  if (AGENT_REQUEST_PATTERNS.some((pattern) => pattern.test(message))) {
+    return { reason: "Customer asked for a human agent" };
+  }
+
+  let score = FRUSTRATION_PATTERNS.filter((pattern) => pattern.test(message)).length;
+  if (/[!?]{2,}/.test(message)) score++;
+  // Shouting: mostly capitals over a reasonable stretch of text
+  const letters = message.replace(/[^A-Za-z]/g, "");
+  if (letters.length >= 10 && letters.replace(/[^A-Z]/g, "").length / letters.length > 0.7) {
+    score++;
+  }
+
+  return score >= FRUSTRATION_THRESHOLD
+    ? { reason: "Customer appears frustrated" }
+    : null;
+}
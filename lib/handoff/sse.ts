@@ -0,0 +1,60 @@
+// lib/handoff/sse.ts
+
+// Comment line every so often so proxies keep the connection open
+const KEEPALIVE_MS = 15_000;
+
+const encoder = new TextEncoder();
+
+// Server-Sent Events response. `start` gets a send function and returns
+// a cleanup that runs when the client goes away.
+export function sseResponse(
+  signal: AbortSignal,
+  start: (send: (data: unknown) => void) => () => void
+): Response {
+  let cleanup: (() => void) | null = null;
+  let keepalive: ReturnType<typeof setInterval> | null = null;
+
+  const stop = () => {
+    if (keepalive) clearInterval(keepalive);
+    keepalive = null;
+    cleanup?.();
+    cleanup = null;
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          // Stream already closed; the abort handler tidies up
+        }
+      };
+
+      cleanup = start((data) => write(`data: ${JSON.stringify(data)}\n\n`));
+      keepalive = setInterval(() => write(": keepalive\n\n"), KEEPALIVE_MS);
+
+      signal.addEventListener(
+        "abort",
+        () => {
+          stop();
+          try {
+            controller.close();
+          } catch {
+            // Already closed
+          }
+        },
+        { once: true }
+      );
+    },
+    cancel: stop,
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,184 @@
+// lib/handoff/store.ts
+// Handoffs live in this process, like the live ASR sessions: the agent
+// console and the customer must reach the same instance.
+import { randomUUID } from "crypto";
+import { ApiError } from "@/lib/api/errors";
+import type { LanguageId } from "@/lib/language/languages";
+import { logger } from "@/lib/logger";
+import type {
+  Handoff,
+  HandoffChange,
+  HandoffMessage,
+  HandoffTrigger,
+} from "./types";
+
+// Closed handoffs stay visible in the console for a while, then go
+const CLOSED_RETENTION_MS = 60 * 60 * 1000;
+const MAX_HANDOFFS = 200;
+
+const handoffs = new Map<string, Handoff>();
+// Who asked for each handoff (see conversationOwner in lib/session); kept
+// apart so it never reaches the agent console
+const owners = new Map<string, string>();
+const listeners = new Set<(change: HandoffChange) => void>();
+
+export function getHandoff(conversationId: string): Handoff | null {
+  return handoffs.get(conversationId) ?? null;
+}
+
+// The customer's own handoff. Conversation ids come from the browser, so
+// someone else's handoff under the same id looks the same as none.
+export function requireOwnHandoff(conversationId: string, owner: string): Handoff {
+  const handoff = handoffs.get(conversationId);
+  if (!handoff || owners.get(conversationId) !== owner) {
+    throw new ApiError("NOT_FOUND", "No handoff for this conversation", {
+      details: { conversationId },
+    });
+  }
+  return handoff;
+}
+
+// Oldest first, so the console shows who has waited longest on top
+export function listHandoffs(): Handoff[] {
+  prune();
+  return [...handoffs.values()].sort((a, b) =>
+    a.createdAt.localeCompare(b.createdAt)
+  );
+}
+
+// Queue a conversation for an agent. A handoff that is still open is
+// returned as-is; a closed one is reopened with the new reason. Null when
+// another owner's handoff is still open under the same id.
+export function requestHandoff(options: {
+  conversationId: string;
+  owner: string;
+  trigger: HandoffTrigger;
+  reason: string;
+  language: LanguageId | null;
+  // Conversation so far, for the agent to read before joining
+  transcript: Omit<HandoffMessage, "id" | "createdAt">[];
+}): Handoff | null {
+  const existing = handoffs.get(options.conversationId);
+  if (existing && existing.status !== "closed") {
+    return owners.get(options.conversationId) === options.owner ? existing : null;
+  }
+
+  prune();
+  const now = new Date().toISOString();
+  const handoff: Handoff = {
+    conversationId: options.conversationId,
+    status: "queued",
+    trigger: options.trigger,
+    reason: options.reason,
+    language: options.language,
+    agentName: null,
+    createdAt: now,
+    updatedAt: now,
+    messages: options.transcript.map((message) => ({
+      ...message,
+      id: randomUUID(),
+      createdAt: now,
+    })),
+  };
+  handoffs.set(handoff.conversationId, handoff);
+  owners.set(handoff.conversationId, options.owner);
+  notify({ type: "updated", handoff });
+  return handoff;
+}
+
+export function claimHandoff(conversationId: string, agentName: string): Handoff {
+  const handoff = requireOpen(conversationId);
+  if (handoff.status === "active" && handoff.agentName !== agentName) {
+    throw new ApiError("CONFLICT", `Already taken by ${handoff.agentName}`);
+  }
+  return update(handoff, { status: "active", agentName });
+}
+
+export function closeHandoff(conversationId: string): Handoff {
+  return update(requireOpen(conversationId), { status: "closed" });
+}
+
+export function addHandoffMessage(
+  conversationId: string,
+  message: Pick<HandoffMessage, "role" | "content" | "author">
+): HandoffMessage {
+  const handoff = requireOpen(conversationId);
+  const added: HandoffMessage = {
+    ...message,
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+  };
+  const updated = {
+    ...handoff,
+    messages: [...handoff.messages, added],
+    updatedAt: added.createdAt,
+  };
+  handoffs.set(conversationId, updated);
+  notify({ type: "message", handoff: updated, message: added });
+  return added;
+}
+
+// Every change to every handoff; returns an unsubscribe function
+export function subscribeHandoffs(
+  listener: (change: HandoffChange) => void
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function requireOpen(conversationId: string): Handoff {
+  const handoff = handoffs.get(conversationId);
+  if (!handoff) {
+    throw new ApiError("NOT_FOUND", "No handoff for this conversation", {
+      details: { conversationId },
+    });
+  }
+  if (handoff.status === "closed") {
+    throw new ApiError("CONFLICT", "This handoff has already ended");
+  }
+  return handoff;
+}
+
+function update(
+  handoff: Handoff,
+  patch: Partial<Pick<Handoff, "status" | "agentName">>
+): Handoff {
+  const updated = { ...handoff, ...patch, updatedAt: new Date().toISOString() };
+  handoffs.set(handoff.conversationId, updated);
+  notify({ type: "updated", handoff: updated });
+  return updated;
+}
+
+function notify(change: HandoffChange) {
+  for (const listener of listeners) {
+    try {
+      listener(change);
+    } catch (err) {
+      logger.error("Handoff listener failed", { err });
+    }
+  }
+}
+
+function prune() {
+  const cutoff = new Date(Date.now() - CLOSED_RETENTION_MS).toISOString();
+  for (const [id, handoff] of handoffs) {
+    if (handoff.status === "closed" && handoff.updatedAt < cutoff) {
+      handoffs.delete(id);
+      owners.delete(id);
+    }
+  }
+  // Still too many: drop the oldest closed ones first, then the oldest
+  if (handoffs.size >= MAX_HANDOFFS) {
+    const oldest = [...handoffs.values()].sort(
+      (a, b) =>
+        Number(b.status === "closed") - Number(a.status === "closed") ||
+        a.updatedAt.localeCompare(b.updatedAt)
+    );
+    for (const handoff of oldest.slice(0, handoffs.size - MAX_HANDOFFS + 1)) {
+      handoffs.delete(handoff.conversationId);
+      owners.delete(handoff.conversationId);
+    }
+  }
+}
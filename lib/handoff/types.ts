@@ -0,0 +1,43 @@
+// lib/handoff/types.ts
+import type { LanguageId } from "@/lib/language/languages";
+
+// queued: waiting for an agent; active: an agent has joined;
+// closed: the agent ended it and the assistant takes over again
+export type HandoffStatus = "queued" | "active" | "closed";
+
+// Who asked for the handoff
+export type HandoffTrigger = "model" | "rule";
+
+export type HandoffMessage = {
+  id: string;
+  role: "user" | "assistant" | "agent";
+  content: string;
+  createdAt: string;
+  // Agent's display name
+  author?: string;
+};
+
+// Everything the agent console sees
+export type Handoff = {
+  // Same id as the customer's conversation
+  conversationId: string;
+  status: HandoffStatus;
+  trigger: HandoffTrigger;
+  reason: string;
+  // Language the customer is being answered in
+  language: LanguageId | null;
+  agentName: string | null;
+  createdAt: string;
+  updatedAt: string;
+  messages: HandoffMessage[];
+};
+
+// What the customer's page is told
+export type HandoffState = Pick<
+  Handoff,
+  "conversationId" | "status" | "reason" | "agentName"
+>;
+
+export type HandoffChange =
+  | { type: "updated"; handoff: Handoff }
+  | { type: "message"; handoff: Handoff; message: HandoffMessage };
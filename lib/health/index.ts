@@ -0,0 +1,219 @@
+// lib/health/index.ts
+import type { BackendHealth, HealthResponse } from "@/lib/api/contracts";
+import { streamingAsrBackendName } from "@/lib/asr";
+import { checkAudioTools } from "@/lib/audio";
+import { getCustomerDataService } from "@/lib/customer-data";
+import { getKnowledgeStats } from "@/lib/knowledge";
+import { getLlmProvider } from "@/lib/llm";
+import { PromptPackError, loadPromptPacks } from "@/lib/prompts/packs";
+import { getCircuitBreaker } from "@/lib/upstream";
+
+const DEFAULT_PROBE_TIMEOUT_MS = 3000;
+
+function probeTimeoutMs() {
+  return (
+    Number.parseInt(process.env.HEALTH_PROBE_TIMEOUT_MS ?? "", 10) ||
+    DEFAULT_PROBE_TIMEOUT_MS
+  );
+}
+
+function errorMessage(err: unknown) {
+  if (err instanceof Error && err.name === "TimeoutError") {
+    return `No response within ${probeTimeoutMs()} ms`;
+  }
+  // Node's fetch hides the reason (ECONNREFUSED, ENOTFOUND...) in `cause`
+  if (err instanceof TypeError && err.cause instanceof Error) {
+    return `Unreachable: ${err.cause.message}`;
+  }
+  return err instanceof Error ? err.message : String(err);
+}
+
+// Probe the LLM server: reachable, model available, version
+export async function probeLlm(): Promise<BackendHealth> {
+  const circuit = getCircuitBreaker("llm").state();
+
+  let provider;
+  try {
+    provider = getLlmProvider();
+  } catch (err) {
+    return {
+      status: "unconfigured",
+      latencyMs: null,
+      circuit,
+      error: errorMessage(err),
+    };
+  }
+
+  const started = Date.now();
+  try {
+    const result = await provider.probe(AbortSignal.timeout(probeTimeoutMs()));
+    return {
+      status: result.modelLoaded ? "up" : "degraded",
+      latencyMs: Date.now() - started,
+      circuit,
+      provider: provider.name,
+      model: provider.model,
+      modelLoaded: result.modelLoaded,
+      version: result.version,
+      ...(result.modelLoaded
+        ? {}
+        : { error: `Model "${provider.model}" is not available on the server` }),
+    };
+  } catch (err) {
+    return {
+      status: "down",
+      latencyMs: null,
+      circuit,
+      provider: provider.name,
+      model: provider.model,
+      error: errorMessage(err),
+    };
+  }
+}
+
+// Probe the ASR server. ASR_HEALTH_URL defaults to /health on the same host
+// as ASR_SERVER_URL; a JSON body with `model` / `version` is reported as-is.
+export async function probeAsr(): Promise<BackendHealth> {
+  const circuit = getCircuitBreaker("asr").state();
+  const asrUrl = process.env.ASR_SERVER_URL;
+
+  // The offline fake still transcribes recordings live; only uploads,
+  // which need the server, are unavailable
+  if (!asrUrl && streamingAsrBackendName() === "fake") {
+    return {
+      status: "degraded",
+      latencyMs: null,
+      circuit,
+      provider: "fake",
+      error: "ASR_SERVER_URL is not configured, so audio uploads will fail",
+    };
+  }
+
+  if (!asrUrl) {
+    return {
+      status: "unconfigured",
+      latencyMs: null,
+      circuit,
+      error: "ASR_SERVER_URL is not configured",
+    };
+  }
+
+  let healthUrl: string;
+  try {
+    healthUrl =
+      process.env.ASR_HEALTH_URL || new URL("/health", asrUrl).toString();
+  } catch {
+    return {
+      status: "unconfigured",
+      latencyMs: null,
+      circuit,
+      error: `ASR_SERVER_URL "${asrUrl}" is not a valid URL`,
+    };
+  }
+
+  const started = Date.now();
+  try {
+    const res = await fetch(healthUrl, {
+      signal: AbortSignal.timeout(probeTimeoutMs()),
+    });
+    const latencyMs = Date.now() - started;
+    const body = (await res.json().catch(() => null)) as {
+      model?: unknown;
+      version?: unknown;
+      model_loaded?: unknown;
+    } | null;
+
+    const modelLoaded =
+      typeof body?.model_loaded === "boolean" ? body.model_loaded : undefined;
+
+    return {
+      // Reachable but without a health endpoint still counts as degraded
+      status: res.ok && modelLoaded !== false ? "up" : "degraded",
+      latencyMs,
+      circuit,
+      model: typeof body?.model === "string" ? body.model : undefined,
+      modelLoaded,
+      version: typeof body?.version === "string" ? body.version : undefined,
+      ...(res.ok ? {} : { error: `Health check returned ${res.status}` }),
+    };
+  } catch (err) {
+    return { status: "down", latencyMs: null, circuit, error: errorMessage(err) };
+  }
+}
+
+// Configuration issues that would break requests later
+export async function collectConfigProblems(): Promise<string[]> {
+  const problems: string[] = [];
+
+  try {
+    getLlmProvider();
+  } catch (err) {
+    problems.push(errorMessage(err));
+  }
+
+  if (!process.env.ASR_SERVER_URL) {
+    problems.push("ASR_SERVER_URL is not configured");
+  }
+
+  const audioProblem = await checkAudioTools();
+  if (audioProblem) problems.push(audioProblem);
+
+  try {
+    await loadPromptPacks();
+  } catch (err) {
+    problems.push(
+      ...(err instanceof PromptPackError ? err.problems : [errorMessage(err)])
+    );
+  }
+
+  try {
+    const stats = await getKnowledgeStats();
+    if (stats.documentCount === 0) {
+      problems.push(`No knowledge base documents found in ${stats.directory}`);
+    }
+  } catch (err) {
+    problems.push(`Knowledge base: ${errorMessage(err)}`);
+  }
+
+  try {
+    await getCustomerDataService().listCustomers();
+  } catch (err) {
+    problems.push(`Customer data: ${errorMessage(err)}`);
+  }
+
+  return problems;
+}
+
+// Many open tabs poll /api/health; probe the backends at most this often
+const CACHE_MS = 5000;
+
+let cached: { at: number; result: Promise<HealthResponse> } | null = null;
+
+export function checkHealth(): Promise<HealthResponse> {
+  if (cached && Date.now() - cached.at < CACHE_MS) return cached.result;
+  cached = { at: Date.now(), result: runHealthCheck() };
+  return cached.result;
+}
+
+async function runHealthCheck(): Promise<HealthResponse> {
+  const [llm, asr, configProblems] = await Promise.all([
+    probeLlm(),
+    probeAsr(),
+    collectConfigProblems(),
+  ]);
+
+  const statuses = [llm.status, asr.status];
+  const status = statuses.some((s) => s === "down" || s === "unconfigured")
+    ? "down"
+    : statuses.includes("degraded") || configProblems.length > 0
+    ? "degraded"
+    : "ok";
+
+  return {
+    status,
+    checkedAt: new Date().toISOString(),
+    llm,
+    asr,
+    configProblems,
+  };
+}
@@ -0,0 +1,98 @@
+// lib/knowledge/bm25.ts
+
+export type ScoredDocument<T> = { doc: T; score: number };
+
+export type Bm25Index<T> = {
+  search(query: string, limit: number): ScoredDocument<T>[];
+};
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Lowercased Latin words, plus CJK characters as unigrams and bigrams
+// since Chinese text has no spaces.
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const lower = text.toLowerCase();
+
+  for (const word of lower.match(/[a-z0-9]+(?:[.'][a-z0-9]+)*/g) ?? []) {
+    if (!STOP_WORDS.has(word)) tokens.push(stem(word));
+  }
+
+  for (const run of lower.match(/[\u3400-\u9fff\uf900-\ufaff]+/g) ?? []) {
+    const chars = [...run];
+    chars.forEach((ch, i) => {
+      tokens.push(ch);
+      if (i + 1 < chars.length) tokens.push(ch + chars[i + 1]);
+    });
+  }
+
+  return tokens;
+}
+
+// Crude suffix stripping so "downgrade" matches "downgrading"
+function stem(word: string): string {
+  if (word.length <= 4) return word;
+  return word.replace(/(ing|ed|es|e|s)$/, "");
+}
+
+// In-memory BM25 index over any documents that can be rendered to text
+export function createBm25Index<T>(
+  docs: T[],
+  toText: (doc: T) => string
+): Bm25Index<T> {
+  const termFreqs = docs.map((doc) => {
+    const freqs = new Map<string, number>();
+    for (const token of tokenize(toText(doc))) {
+      freqs.set(token, (freqs.get(token) ?? 0) + 1);
+    }
+    return freqs;
+  });
+
+  const lengths = termFreqs.map((freqs) =>
+    [...freqs.values()].reduce((sum, n) => sum + n, 0)
+  );
+  const avgLength =
+    lengths.reduce((sum, n) => sum + n, 0) / Math.max(1, lengths.length);
+
+  const docFreq = new Map<string, number>();
+  for (const freqs of termFreqs) {
+    for (const term of freqs.keys()) {
+      docFreq.set(term, (docFreq.get(term) ?? 0) + 1);
+    }
+  }
+
+  const idf = (term: string) => {
+    const n = docFreq.get(term) ?? 0;
+    return Math.log(1 + (docs.length - n + 0.5) / (n + 0.5));
+  };
+
+  return {
+    search(query, limit) {
+      const terms = [...new Set(tokenize(query))];
+      if (terms.length === 0) return [];
+
+      return docs
+        .map((doc, i) => {
+          let score = 0;
+          for (const term of terms) {
+            const tf = termFreqs[i].get(term);
+            if (!tf) continue;
+            const norm = K1 * (1 - B + (B * lengths[i]) / (avgLength || 1));
+            score += idf(term) * ((tf * (K1 + 1)) / (tf + norm));
+          }
+          return { doc, score };
+        })
+        .filter((result) => result.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    },
+  };
+}
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "at", "be", "by", "can", "do", "for", "how",
+  "i", "in", "is", "it", "me", "my", "of", "on", "or", "so", "the", "to",
+  "what", "why", "with", "you", "your", "ah", "lah", "leh", "lor", "one",
+]);
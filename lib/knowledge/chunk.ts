@@ -0,0 +1,84 @@
+// lib/knowledge/chunk.ts
+
+export type KnowledgeChunk = {
+  // Stable id, e.g. "roaming.md#roaming-packs"
+  id: string;
+  file: string;
+  // "Document title › Section heading"
+  title: string;
+  text: string;
+};
+
+// Long sections are split further so a passage stays prompt-sized
+const MAX_CHUNK_CHARS = 900;
+
+// Split a Markdown document into one chunk per heading section
+export function chunkMarkdown(file: string, markdown: string): KnowledgeChunk[] {
+  const lines = markdown.split(/\r?\n/);
+  let docTitle = file.replace(/\.md$/i, "");
+  let heading: string | null = null;
+  let body: string[] = [];
+  const sections: { heading: string | null; text: string }[] = [];
+
+  const flush = () => {
+    const text = body.join("\n").trim();
+    if (text) sections.push({ heading, text });
+    body = [];
+  };
+
+  for (const line of lines) {
+    const match = /^(#{1,3})\s+(.*)$/.exec(line);
+    if (!match) {
+      body.push(line);
+      continue;
+    }
+    flush();
+    if (match[1].length === 1) {
+      docTitle = match[2].trim();
+      heading = null;
+    } else {
+      heading = match[2].trim();
+    }
+  }
+  flush();
+
+  const seen = new Map<string, number>();
+
+  return sections.flatMap((section) => {
+    const title = section.heading ? `${docTitle} › ${section.heading}` : docTitle;
+    const baseSlug = slugify(section.heading ?? docTitle);
+
+    return splitLongText(section.text).map((text) => {
+      const count = seen.get(baseSlug) ?? 0;
+      seen.set(baseSlug, count + 1);
+      const slug = count === 0 ? baseSlug : `${baseSlug}-${count}`;
+      return { id: `${file}#${slug}`, file, title, text };
+    });
+  });
+}
+
+// Break on paragraph boundaries once a chunk would exceed MAX_CHUNK_CHARS
+function splitLongText(text: string): string[] {
+  if (text.length <= MAX_CHUNK_CHARS) return [text];
+
+  const parts: string[] = [];
+  let current = "";
+  for (const paragraph of text.split(/\n{2,}/)) {
+    if (current && current.length + paragraph.length > MAX_CHUNK_CHARS) {
+      parts.push(current.trim());
+      current = "";
+    }
+    current += paragraph + "\n\n";
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function slugify(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, "-")
+      .replace(/^-+|-+$/g, "") || "section"
+  );
+}
@@ -0,0 +1,104 @@
+// lib/knowledge/index.ts
+import { promises as fs } from "fs";
+import path from "path";
+import { createBm25Index, type Bm25Index } from "./bm25";
+import { chunkMarkdown, type KnowledgeChunk } from "./chunk";
+import type { KnowledgeSource } from "./types";
+
+export type { KnowledgeSource } from "./types";
+export type { KnowledgeChunk } from "./chunk";
+
+export type KnowledgePassage = KnowledgeChunk & { score: number };
+
+const DEFAULT_DIR = "knowledge";
+const DEFAULT_TOP_K = 3;
+const DEFAULT_MIN_SCORE = 1;
+
+type LoadedIndex = {
+  // File names + mtimes, used to detect edits to the folder
+  signature: string;
+  index: Bm25Index<KnowledgeChunk>;
+  documentCount: number;
+  chunkCount: number;
+};
+
+let loaded: LoadedIndex | null = null;
+
+function knowledgeDir() {
+  return path.resolve(process.cwd(), process.env.KNOWLEDGE_DIR || DEFAULT_DIR);
+}
+
+// Build (or reuse) the BM25 index over every Markdown file in KNOWLEDGE_DIR.
+// Edited, added or removed files are picked up on the next request.
+async function loadIndex(): Promise<LoadedIndex> {
+  const dir = knowledgeDir();
+  const files = (await fs.readdir(dir).catch(() => []))
+    .filter((name) => /\.(md|markdown)$/i.test(name))
+    .sort();
+
+  const stats = await Promise.all(
+    files.map((name) => fs.stat(path.join(dir, name)))
+  );
+  const signature = files
+    .map((name, i) => `${name}:${stats[i].mtimeMs}`)
+    .join("|");
+
+  if (loaded && loaded.signature === signature) return loaded;
+
+  const chunks = (
+    await Promise.all(
+      files.map(async (name) =>
+        chunkMarkdown(name, await fs.readFile(path.join(dir, name), "utf8"))
+      )
+    )
+  ).flat();
+
+  loaded = {
+    signature,
+    index: createBm25Index(chunks, (chunk) => `${chunk.title}\n${chunk.text}`),
+    documentCount: files.length,
+    chunkCount: chunks.length,
+  };
+  return loaded;
+}
+
+// Size of the current index, for health reporting
+export async function getKnowledgeStats() {
+  const { documentCount, chunkCount } = await loadIndex();
+  return { directory: knowledgeDir(), documentCount, chunkCount };
+}
+
+// Top passages for a query, best first
+export async function retrievePassages(query: string): Promise<KnowledgePassage[]> {
+  const topK =
+    Number.parseInt(process.env.KNOWLEDGE_TOP_K ?? "", 10) || DEFAULT_TOP_K;
+  const minScore =
+    Number.parseFloat(process.env.KNOWLEDGE_MIN_SCORE ?? "") || DEFAULT_MIN_SCORE;
+
+  const { index } = await loadIndex();
+  return index
+    .search(query, topK)
+    .filter((result) => result.score >= minScore)
+    .map((result) => ({ ...result.doc, score: result.score }));
+}
+
+export function toKnowledgeSources(
+  passages: KnowledgePassage[]
+): KnowledgeSource[] {
+  return passages.map((passage, i) => ({
+    ref: i + 1,
+    title: passage.title,
+    source: passage.id,
+  }));
+}
+
+// Prompt section with numbered excerpts the model should cite as [n]
+export function formatKnowledgeContext(passages: KnowledgePassage[]): string {
+  return [
+    "Zero1 knowledge base excerpts (official and up to date; prefer these over general knowledge):",
+    ...passages.map(
+      (passage, i) => `[${i + 1}] ${passage.title}\n${passage.text}`
+    ),
+    "When you use an excerpt, cite it with its number in square brackets, e.g. [1]. If the excerpts do not cover the question, say so instead of guessing.",
+  ].join("\n\n");
+}
@@ -0,0 +1,10 @@
+// lib/knowledge/types.ts
+
+// Citation shown under an assistant reply; `ref` matches the [n] marker
+// the model was asked to use.
+export type KnowledgeSource = {
+  ref: number;
+  title: string;
+  // Document and section id, e.g. "roaming.md#roaming-packs"
+  source: string;
+};
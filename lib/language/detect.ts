@@ -0,0 +1,89 @@
+// lib/language/detect.ts
+import type { LanguageId } from "./languages";
+
+export type LanguageDetection = {
+  language: LanguageId;
+  // 0–1, how sure the heuristic is
+  confidence: number;
+};
+
+// Below this the detection is reported but not used to steer the reply
+export const DETECTION_MIN_CONFIDENCE = 0.6;
+
+// Words and characters that are characteristic of each dialect, in
+// Chinese characters and in the romanisations people type in Singapore.
+// Latin markers are matched as whole words.
+const MARKERS: Record<
+  "cantonese" | "hokkien" | "teochew",
+  { chars: string[]; words: string[] }
+> = {
+  cantonese: {
+    chars: ["係", "唔", "嘅", "咗", "冇", "佢", "嘢", "啲", "咩", "哋", "喺", "嚟", "噉", "咁", "乜嘢", "點解", "邊度", "而家"],
+    words: ["mh goi", "m goi", "dim gaai", "dim gai", "mat ye", "mud ye", "nei hou", "lei hou", "hai mai", "mou", "keoi", "jor", "nei", "hai m hai", "gum"],
+  },
+  hokkien: {
+    chars: ["啥物", "毋", "汝", "阮", "袂", "佗位", "囝"],
+    words: ["jialat", "kan cheong", "simi", "si mi", "wah lau", "buay", "bo", "lu", "gua", "kio", "ho seh", "paiseh", "pai seh", "beh", "jiak", "tio", "bo pian", "ai mai"],
+  },
+  teochew: {
+    chars: ["乜个", "孬", "㑚", "障生", "底块"],
+    words: ["ua", "lue", "nang", "bhoi", "boi", "sim mih", "dio", "mue", "m zai", "zo nih"],
+  },
+};
+
+const CJK_RE = /[\u3400-\u9fff\uf900-\ufaff]/g;
+const LATIN_WORD_RE = /[a-z]+/g;
+
+// Heuristic classifier over the supported languages and dialects.
+// Good enough to pick a prompt set and report usage, not a linguistic tool.
+export function detectLanguage(text: string): LanguageDetection | null {
+  const lower = text.toLowerCase();
+  const cjkCount = lower.match(CJK_RE)?.length ?? 0;
+  const latinWords = lower.match(LATIN_WORD_RE) ?? [];
+  if (cjkCount === 0 && latinWords.length === 0) return null;
+
+  const paddedWords = ` ${latinWords.join(" ")} `;
+  const scores = Object.fromEntries(
+    Object.entries(MARKERS).map(([language, markers]) => {
+      const charHits = markers.chars.filter((c) => lower.includes(c)).length;
+      const wordHits = markers.words.filter((w) =>
+        paddedWords.includes(` ${w} `)
+      ).length;
+      // Characters are much stronger evidence than short romanised words
+      return [language, charHits * 2 + wordHits];
+    })
+  ) as Record<keyof typeof MARKERS, number>;
+
+  const ranked = (Object.keys(scores) as (keyof typeof MARKERS)[]).sort(
+    (a, b) => scores[b] - scores[a]
+  );
+  const best = ranked[0];
+  const bestScore = scores[best];
+  const runnerUp = scores[ranked[1]];
+
+  if (bestScore > 0 && bestScore > runnerUp) {
+    // More hits and a clearer margin over the next dialect => more confident
+    const margin = (bestScore - runnerUp) / bestScore;
+    return {
+      language: best,
+      confidence: round(Math.min(0.95, 0.4 + 0.1 * bestScore + 0.2 * margin)),
+    };
+  }
+
+  // No (or tied) dialect markers: fall back to script
+  const cjkShare = cjkCount / (cjkCount + latinWords.length);
+  if (cjkShare >= 0.5) {
+    return {
+      language: "mandarin",
+      confidence: round(bestScore > 0 ? 0.5 : 0.6 + 0.3 * cjkShare),
+    };
+  }
+  return {
+    language: "english",
+    confidence: round(bestScore > 0 ? 0.5 : 0.6 + 0.3 * (1 - cjkShare)),
+  };
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,27 @@
+// lib/language/languages.ts
+
+// Languages and dialects the assistant can reply in.
+// Shared by the language selector and the API routes.
+// `tag` is the BCP 47 tag used for browser speech playback; browsers ship
+// no Hokkien or Teochew voices, so those use the closest Chinese voice.
+export const LANGUAGES = [
+  { value: "english", label: "English / Singlish", tag: "en-SG" },
+  { value: "mandarin", label: "Mandarin", tag: "zh-CN" },
+  { value: "cantonese", label: "Cantonese", tag: "zh-HK" },
+  { value: "hokkien", label: "Hokkien", tag: "zh-TW" },
+  { value: "teochew", label: "Teochew", tag: "zh-CN" },
+] as const;
+
+export type LanguageId = (typeof LANGUAGES)[number]["value"];
+
+export function isLanguageId(value: unknown): value is LanguageId {
+  return LANGUAGES.some((lang) => lang.value === value);
+}
+
+export function languageLabel(language: LanguageId): string {
+  return LANGUAGES.find((lang) => lang.value === language)?.label ?? language;
+}
+
+export function languageTag(language: LanguageId): string {
+  return LANGUAGES.find((lang) => lang.value === language)?.tag ?? "en-SG";
+}
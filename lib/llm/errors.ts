@@ -0,0 +1,26 @@
+// lib/llm/errors.ts
+import { ApiError, toApiError } from "@/lib/api/errors";
+import { logger } from "@/lib/logger";
+import { LlmConfigError, LlmError } from "./types";
+
+// Map anything thrown while talking to the LLM to an API error
+export function toLlmApiError(err: unknown, route: string): ApiError {
+  if (err instanceof ApiError) return err;
+
+  if (err instanceof LlmConfigError) {
+    logger.error("LLM config error", { route, err });
+    return new ApiError("CONFIG_ERROR", err.message);
+  }
+  if (err instanceof LlmError) {
+    logger.error("LLM error", {
+      route,
+      status: err.status,
+      detail: err.detail ?? err.message,
+    });
+    return new ApiError("UPSTREAM_ERROR", err.message, {
+      details: { status: err.status, detail: err.detail },
+    });
+  }
+
+  return toApiError(err, route, "llm");
+}
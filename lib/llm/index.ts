@@ -0,0 +1,49 @@
+// lib/llm/index.ts
+import { createMockProvider } from "./mock";
+import { createOllamaProvider } from "./ollama";
+import { createOpenAiCompatibleProvider } from "./openai";
+import { withTiming } from "./timing";
+import { LlmConfigError, type LlmProvider } from "./types";
+
+export * from "./types";
+export { toLlmApiError } from "./errors";
+
+const DEFAULT_MODEL = "qwen2.5:7b";
+
+// Pick the inference backend from env:
+//   LLM_PROVIDER = "ollama" (default) | "openai" | "mock"
+export function getLlmProvider(): LlmProvider {
+  return withTiming(createProvider());
+}
+
+function createProvider(): LlmProvider {
+  const providerName = (process.env.LLM_PROVIDER || "ollama").toLowerCase();
+  const baseUrl = process.env.LLM_SERVER_URL;
+  const model = process.env.LLM_MODEL_NAME || DEFAULT_MODEL;
+
+  switch (providerName) {
+    case "mock":
+      return createMockProvider({
+        delayMs: Number(process.env.LLM_MOCK_DELAY_MS) || undefined,
+      });
+
+    case "ollama":
+    case "openai": {
+      if (!baseUrl) {
+        throw new LlmConfigError("LLM_SERVER_URL is not configured");
+      }
+      return providerName === "ollama"
+        ? createOllamaProvider({ baseUrl, model })
+        : createOpenAiCompatibleProvider({
+            baseUrl,
+            model,
+            apiKey: process.env.LLM_API_KEY,
+          });
+    }
+
+    default:
+      throw new LlmConfigError(
+        `Unknown LLM_PROVIDER "${providerName}" (expected ollama, openai or mock)`
+      );
+  }
+}
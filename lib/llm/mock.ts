@@ -0,0 +1,203 @@
+// lib/llm/mock.ts
+import type {
+  LlmChatRequest,
+  LlmCompletion,
+  LlmProvider,
+  LlmStreamChunk,
+} from "./types";
+
+// Canned Singlish replies keyed by topic keywords, checked in order.
+// `tool` is called first when the request offers it; `gloss` is the plain
+// English meaning used by agent-assist (JSON) requests.
+const CANNED_REPLIES: {
+  keywords: string[];
+  reply: string;
+  gloss: string;
+  tool?: string;
+}[] = [
+  {
+    keywords: ["cancel", "terminate", "port out"],
+    tool: "requestHumanAgent",
+    reply:
+      "Cancelling the line need one of our staff to help you. I connecting you to a customer service agent now, please wait ah.",
+    gloss:
+      "Cancelling a line needs one of our staff. I am connecting you to a customer service agent now, please wait.",
+  },
+  {
+    keywords: ["roam", "overseas", "travel"],
+    tool: "getRoamingCharges",
+    reply:
+      "For overseas, best to add a roaming pack before you fly. Without the pack, data will charge by usage and can be quite jialat.",
+    gloss:
+      "When overseas, it is best to add a roaming pack before you fly. Without one, data is charged by usage and can get very expensive.",
+  },
+  {
+    keywords: ["bill", "charge", "invoice", "账单"],
+    tool: "getBillBreakdown",
+    reply:
+      "Your bill a bit higher this month lah, mostly from extra data and calls. You can check the itemised bill in the app to see which part go up.",
+    gloss:
+      "Your bill is a bit higher this month, mostly from extra data and calls. You can check the itemised bill in the app to see what went up.",
+  },
+  {
+    keywords: ["data", "usage", "流量"],
+    tool: "getDataUsage",
+    reply:
+      "Your data finish faster because got more video streaming this month lor. Can set a data alert or top up an add-on if you need more.",
+    gloss:
+      "Your data ran out faster because of more video streaming this month. You can set a data alert or buy an add-on if you need more.",
+  },
+  {
+    keywords: ["plan", "upgrade", "downgrade", "contract"],
+    tool: "listAvailablePlans",
+    reply:
+      "Can change plan in the app under My Plan. Upgrade take effect immediately, downgrade will start from your next bill cycle.",
+    gloss:
+      "You can change your plan in the app under My Plan. Upgrades take effect immediately; downgrades start from your next bill cycle.",
+  },
+];
+
+const FALLBACK_REPLY =
+  "Okay, I understand. This is the mock assistant, so I can only give sample answers for bill, data, roaming and plan questions.";
+
+// Extra agent-assist candidates, so the page shows more than one
+const ASSIST_EXTRAS = [
+  {
+    reply:
+      "Sorry for the trouble ah. Can I check your account number first, then I help you look into it?",
+    gloss:
+      "Sorry for the trouble. Could I have your account number first, and then I will look into it for you?",
+  },
+  {
+    reply:
+      "Understand, this one quite frustrating. Give me a moment, I check with my team and update you okay?",
+    gloss:
+      "I understand this is frustrating. Give me a moment to check with my team and I will update you, okay?",
+  },
+];
+
+// Deterministic offline provider for local development and demos without
+// a GPU server. The same input always produces the same reply.
+export function createMockProvider(options?: {
+  delayMs?: number;
+}): LlmProvider {
+  const delayMs = options?.delayMs ?? 20;
+
+  function complete(request: LlmChatRequest): LlmCompletion {
+    const last = request.messages[request.messages.length - 1];
+
+    // Second round of a tool call: report what the tool returned
+    if (last?.role === "tool") {
+      // Nothing to report from a handoff, just the canned hold message
+      const handoff = CANNED_REPLIES.find((entry) => entry.tool === last.name);
+      if (last.name === "requestHumanAgent" && handoff) {
+        return { content: handoff.reply, toolCalls: [] };
+      }
+      const summary = last.content.replace(/\s+/g, " ").slice(0, 240);
+      return {
+        content: `I checked your account lah. From ${last.name}: ${summary}`,
+        toolCalls: [],
+      };
+    }
+
+    const lastUser = [...request.messages]
+      .reverse()
+      .find((m) => m.role === "user");
+    const text = lastUser?.content.toLowerCase() ?? "";
+    const match = CANNED_REPLIES.find((entry) =>
+      entry.keywords.some((keyword) => text.includes(keyword))
+    );
+
+    if (
+      last?.role === "user" &&
+      match?.tool &&
+      request.tools?.some((tool) => tool.name === match.tool)
+    ) {
+      return {
+        content: "",
+        toolCalls: [{ id: "call_0", name: match.tool, arguments: {} }],
+      };
+    }
+
+    // Translation requests carry {from, to, text}; the mock cannot
+    // translate, so it labels the original with the target language
+    const translate = request.json ? parseTranslateInput(lastUser?.content) : null;
+    if (translate) {
+      return {
+        content: JSON.stringify({
+          sourceLanguage: translate.from === "auto" ? "english" : translate.from,
+          sourceRomanisation: "",
+          translation: `[${translate.to}] ${translate.text}`,
+          translationRomanisation: "",
+        }),
+        toolCalls: [],
+      };
+    }
+
+    if (request.json) {
+      const suggestions = [
+        match ?? { reply: FALLBACK_REPLY, gloss: FALLBACK_REPLY },
+        ...ASSIST_EXTRAS,
+      ].map(({ reply, gloss }) => ({ reply, gloss }));
+      return { content: JSON.stringify({ suggestions }), toolCalls: [] };
+    }
+
+    return { content: match?.reply ?? FALLBACK_REPLY, toolCalls: [] };
+  }
+
+  return {
+    name: "mock",
+    model: "mock",
+
+    async probe() {
+      return { modelLoaded: true, version: "mock" };
+    },
+
+    async chat(request) {
+      return complete(request);
+    },
+
+    async *chatStream(request): AsyncGenerator<LlmStreamChunk> {
+      const { content, toolCalls } = complete(request);
+      // Emit word by word so the streaming UI can be exercised offline
+      for (const token of content ? content.split(/(?<=\s)/) : []) {
+        await sleep(delayMs, request.signal);
+        yield { type: "content", content: token };
+      }
+      if (toolCalls.length > 0) {
+        yield { type: "tool_calls", toolCalls };
+      }
+    },
+  };
+}
+
+function parseTranslateInput(
+  content: string | undefined
+): { from: string; to: string; text: string } | null {
+  try {
+    const input = JSON.parse(content ?? "");
+    return typeof input?.to === "string" && typeof input?.text === "string"
+      ? { from: String(input.from ?? "auto"), to: input.to, text: input.text }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
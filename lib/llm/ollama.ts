@@ -0,0 +1,160 @@
+// lib/llm/ollama.ts
+import { readNdjson } from "@/lib/chat/stream";
+import {
+  LlmError,
+  type LlmChatRequest,
+  type LlmMessage,
+  type LlmProvider,
+  type LlmToolCall,
+} from "./types";
+import { upstreamFetch } from "@/lib/upstream";
+
+type OllamaToolCall = {
+  function?: { name?: string; arguments?: Record<string, unknown> };
+};
+
+type OllamaChunk = {
+  message?: { content?: string; tool_calls?: OllamaToolCall[] };
+  done?: boolean;
+  error?: string;
+};
+
+// Ollama native API: POST /api/chat, reply in `message.content`,
+// streaming as NDJSON chunks until `done: true`.
+export function createOllamaProvider(options: {
+  baseUrl: string;
+  model: string;
+}): LlmProvider {
+  const { baseUrl, model } = options;
+
+  async function post(request: LlmChatRequest, stream: boolean) {
+    const res = await upstreamFetch("llm", `${baseUrl}/api/chat`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model,
+        stream,
+        messages: request.messages.map(toOllamaMessage),
+        ...(request.tools?.length
+          ? {
+              tools: request.tools.map((tool) => ({
+                type: "function",
+                function: tool,
+              })),
+            }
+          : {}),
+        ...(request.json ? { format: "json" } : {}),
+      }),
+      signal: request.signal,
+    });
+
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      throw new LlmError("LLM server error", {
+        status: res.status,
+        detail: text,
+      });
+    }
+
+    return res;
+  }
+
+  return {
+    name: "ollama",
+    model,
+
+    async probe(signal) {
+      const [versionRes, tagsRes] = await Promise.all([
+        fetch(`${baseUrl}/api/version`, { signal }),
+        fetch(`${baseUrl}/api/tags`, { signal }),
+      ]);
+      if (!tagsRes.ok) {
+        throw new LlmError("LLM server error", { status: tagsRes.status });
+      }
+      const version = versionRes.ok
+        ? ((await versionRes.json()) as { version?: string }).version
+        : undefined;
+      const tags = (await tagsRes.json()) as { models?: { name?: string }[] };
+      // "qwen2.5:7b" is listed as-is; untagged names default to ":latest"
+      const wanted = model.includes(":") ? model : `${model}:latest`;
+      return {
+        modelLoaded: (tags.models ?? []).some((m) => m.name === wanted),
+        version,
+      };
+    },
+
+    async chat(request) {
+      const res = await post(request, false);
+      const data = (await res.json()) as OllamaChunk;
+      if (typeof data?.message?.content !== "string") {
+        throw new LlmError("Invalid response from LLM server");
+      }
+      return {
+        content: data.message.content,
+        toolCalls: fromOllamaToolCalls(data.message.tool_calls),
+      };
+    },
+
+    async *chatStream(request) {
+      const res = await post(request, true);
+      if (!res.body) {
+        throw new LlmError("LLM server returned an empty stream");
+      }
+
+      for await (const item of readNdjson(res.body)) {
+        const chunk = item as OllamaChunk;
+        if (chunk.error) {
+          throw new LlmError("LLM server error", { detail: chunk.error });
+        }
+        if (chunk.message?.content) {
+          yield { type: "content", content: chunk.message.content };
+        }
+        if (chunk.message?.tool_calls?.length) {
+          yield {
+            type: "tool_calls",
+            toolCalls: fromOllamaToolCalls(chunk.message.tool_calls),
+          };
+        }
+        if (chunk.done) return;
+      }
+    },
+  };
+}
+
+function toOllamaMessage(message: LlmMessage) {
+  switch (message.role) {
+    case "assistant":
+      return {
+        role: "assistant",
+        content: message.content,
+        ...(message.toolCalls?.length
+          ? {
+              tool_calls: message.toolCalls.map((call) => ({
+                function: { name: call.name, arguments: call.arguments },
+              })),
+            }
+          : {}),
+      };
+    case "tool":
+      return { role: "tool", content: message.content, tool_name: message.name };
+    default:
+      return { role: message.role, content: message.content };
+  }
+}
+
+// Ollama does not assign call ids, so number them in order
+function fromOllamaToolCalls(calls: OllamaToolCall[] | undefined): LlmToolCall[] {
+  return (calls ?? []).flatMap((call, index) =>
+    call.function?.name
+      ? [
+          {
+            id: `call_${index}`,
+            name: call.function.name,
+            arguments: call.function.arguments ?? {},
+          },
+        ]
+      : []
+  );
+}
@@ -0,0 +1,231 @@
+// lib/llm/openai.ts
+import {
+  LlmError,
+  type LlmChatRequest,
+  type LlmMessage,
+  type LlmProvider,
+  type LlmToolCall,
+} from "./types";
+import { upstreamFetch } from "@/lib/upstream";
+
+type OpenAiToolCall = {
+  id?: string;
+  function?: { name?: string; arguments?: string };
+};
+
+type CompletionResponse = {
+  choices?: {
+    message?: { content?: string | null; tool_calls?: OpenAiToolCall[] };
+  }[];
+};
+
+type CompletionChunk = {
+  choices?: {
+    delta?: {
+      content?: string | null;
+      tool_calls?: (OpenAiToolCall & { index?: number })[];
+    };
+  }[];
+};
+
+// OpenAI-compatible API: POST /v1/chat/completions, streaming as SSE
+// `data:` lines terminated by `data: [DONE]`. Works with vLLM,
+// llama.cpp server and LM Studio.
+export function createOpenAiCompatibleProvider(options: {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}): LlmProvider {
+  const { model, apiKey } = options;
+  // Accept base URLs given with or without the /v1 suffix
+  const baseUrl = options.baseUrl.replace(/\/+$/, "").replace(/\/v1$/, "");
+
+  async function post(request: LlmChatRequest, stream: boolean) {
+    const res = await upstreamFetch("llm", `${baseUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        stream,
+        messages: request.messages.map(toOpenAiMessage),
+        ...(request.tools?.length
+          ? {
+              tools: request.tools.map((tool) => ({
+                type: "function",
+                function: tool,
+              })),
+            }
+          : {}),
+        ...(request.json ? { response_format: { type: "json_object" } } : {}),
+      }),
+      signal: request.signal,
+    });
+
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      throw new LlmError("LLM server error", {
+        status: res.status,
+        detail: text,
+      });
+    }
+
+    return res;
+  }
+
+  return {
+    name: "openai",
+    model,
+
+    async probe(signal) {
+      const res = await fetch(`${baseUrl}/v1/models`, {
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        signal,
+      });
+      if (!res.ok) {
+        throw new LlmError("LLM server error", { status: res.status });
+      }
+      const data = (await res.json()) as { data?: { id?: string }[] };
+      return {
+        modelLoaded: (data.data ?? []).some((m) => m.id === model),
+      };
+    },
+
+    async chat(request) {
+      const res = await post(request, false);
+      const data = (await res.json()) as CompletionResponse;
+      const message = data?.choices?.[0]?.message;
+      if (!message) {
+        throw new LlmError("Invalid response from LLM server");
+      }
+      return {
+        content: message.content ?? "",
+        toolCalls: fromOpenAiToolCalls(message.tool_calls),
+      };
+    },
+
+    async *chatStream(request) {
+      const res = await post(request, true);
+      if (!res.body) {
+        throw new LlmError("LLM server returned an empty stream");
+      }
+
+      // Tool calls arrive as fragments keyed by index; assemble them
+      // and hand them over once the stream ends.
+      const partialCalls: OpenAiToolCall[] = [];
+
+      for await (const data of readSseData(res.body)) {
+        if (data === "[DONE]") break;
+        const chunk = JSON.parse(data) as CompletionChunk;
+        const delta = chunk?.choices?.[0]?.delta;
+
+        if (delta?.content) {
+          yield { type: "content", content: delta.content };
+        }
+
+        for (const fragment of delta?.tool_calls ?? []) {
+          const index = fragment.index ?? 0;
+          const previous = partialCalls[index];
+          partialCalls[index] = {
+            id: fragment.id || previous?.id,
+            function: {
+              name: fragment.function?.name || previous?.function?.name,
+              arguments:
+                (previous?.function?.arguments ?? "") +
+                (fragment.function?.arguments ?? ""),
+            },
+          };
+        }
+      }
+
+      const toolCalls = fromOpenAiToolCalls(partialCalls);
+      if (toolCalls.length > 0) {
+        yield { type: "tool_calls", toolCalls };
+      }
+    },
+  };
+}
+
+function toOpenAiMessage(message: LlmMessage) {
+  switch (message.role) {
+    case "assistant":
+      return {
+        role: "assistant",
+        content: message.content,
+        ...(message.toolCalls?.length
+          ? {
+              tool_calls: message.toolCalls.map((call) => ({
+                id: call.id,
+                type: "function",
+                function: {
+                  name: call.name,
+                  arguments: JSON.stringify(call.arguments),
+                },
+              })),
+            }
+          : {}),
+      };
+    case "tool":
+      return {
+        role: "tool",
+        tool_call_id: message.toolCallId,
+        content: message.content,
+      };
+    default:
+      return { role: message.role, content: message.content };
+  }
+}
+
+function fromOpenAiToolCalls(calls: OpenAiToolCall[] | undefined): LlmToolCall[] {
+  return (calls ?? []).flatMap((call, index) => {
+    if (!call?.function?.name) return [];
+    return [
+      {
+        id: call.id || `call_${index}`,
+        name: call.function.name,
+        arguments: parseArguments(call.function.arguments),
+      },
+    ];
+  });
+}
+
+// Arguments come back as a JSON string; small models sometimes emit junk
+function parseArguments(raw: string | undefined): Record<string, unknown> {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// Yield the payload of each `data:` line of a server-sent event stream
+async function* readSseData(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        if (line.startsWith("data:")) {
+          yield line.slice(5).trim();
+        }
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
@@ -0,0 +1,31 @@
+// lib/llm/timing.ts
+import { getRequestContext } from "@/lib/logger";
+import { observeBackend, timeBackend } from "@/lib/metrics";
+import type { LlmProvider } from "./types";
+
+// Time every completion; a streamed one until its last chunk, or until the
+// caller stops reading (Stop pressed, guardrail)
+export function withTiming(provider: LlmProvider): LlmProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    probe: (signal) => provider.probe(signal),
+    chat: (request) => timeBackend("llm", () => provider.chat(request)),
+    async *chatStream(request) {
+      // Runs on the first next(), which the route handler awaits, so the
+      // request context is still there; later chunks may be read outside it
+      const context = getRequestContext();
+      const startedAt = performance.now();
+      let outcome: "ok" | "error" | "cancelled" = "cancelled";
+      try {
+        yield* provider.chatStream(request);
+        outcome = "ok";
+      } catch (err) {
+        outcome = "error";
+        throw err;
+      } finally {
+        observeBackend("llm", startedAt, outcome, context);
+      }
+    },
+  };
+}
@@ -0,0 +1,77 @@
+// lib/llm/types.ts
+
+export type LlmToolCall = {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+};
+
+export type LlmMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string; toolCalls?: LlmToolCall[] }
+  | { role: "tool"; content: string; toolCallId: string; name: string };
+
+// Function the model may call; `parameters` is a JSON Schema object
+export type LlmToolDefinition = {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+};
+
+export type LlmChatRequest = {
+  messages: LlmMessage[];
+  tools?: LlmToolDefinition[];
+  // Ask the backend to answer with a single JSON object
+  json?: boolean;
+  // Aborting cancels the upstream request (e.g. user pressed Stop)
+  signal?: AbortSignal;
+};
+
+export type LlmCompletion = {
+  content: string;
+  toolCalls: LlmToolCall[];
+};
+
+export type LlmStreamChunk =
+  | { type: "content"; content: string }
+  | { type: "tool_calls"; toolCalls: LlmToolCall[] };
+
+// Result of a lightweight health probe against the backend
+export type LlmProbeResult = {
+  // Configured model is available on the server
+  modelLoaded: boolean;
+  version?: string;
+};
+
+// Common surface for every inference backend the chat route can talk to
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  // Throws if the server cannot be reached
+  probe(signal?: AbortSignal): Promise<LlmProbeResult>;
+  // Full reply (or tool calls) in one go
+  chat(request: LlmChatRequest): Promise<LlmCompletion>;
+  // Reply as a sequence of content deltas, plus any tool calls
+  chatStream(request: LlmChatRequest): AsyncGenerator<LlmStreamChunk>;
+}
+
+// Thrown when the backend answers with an error or an unexpected shape
+export class LlmError extends Error {
+  readonly status?: number;
+  readonly detail?: string;
+
+  constructor(message: string, options?: { status?: number; detail?: string }) {
+    super(message);
+    this.name = "LlmError";
+    this.status = options?.status;
+    this.detail = options?.detail;
+  }
+}
+
+// Thrown when the selected provider is missing required configuration
+export class LlmConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LlmConfigError";
+  }
+}
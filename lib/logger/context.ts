@@ -0,0 +1,42 @@
+// lib/logger/context.ts
+// Per-request state (id, route, backend timings) that log lines and
+// metrics pick up without threading it through every call.
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+
+export const REQUEST_ID_HEADER = "x-request-id";
+
+// An id passed in by a proxy or load balancer is kept if it looks sane
+const INCOMING_ID_PATTERN = /^[A-Za-z0-9._-]{8,64}$/;
+
+export type RequestContext = {
+  requestId: string;
+  route: string;
+  // Milliseconds spent waiting on each backend (llm, asr, tts)
+  timings: Record<string, number>;
+};
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+export function getRequestContext(): RequestContext | null {
+  return storage.getStore() ?? null;
+}
+
+export function requestIdFrom(headers: Headers): string {
+  const incoming = headers.get(REQUEST_ID_HEADER);
+  return incoming && INCOMING_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+}
+
+// Add backend time to the request; the same backend called twice adds up
+export function addTiming(
+  context: RequestContext | null,
+  backend: string,
+  ms: number
+) {
+  if (!context) return;
+  context.timings[backend] = Math.round((context.timings[backend] ?? 0) + ms);
+}
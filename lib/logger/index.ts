@@ -0,0 +1,71 @@
+// lib/logger/index.ts
+// One JSON object per line on stdout/stderr, tagged with the current
+// request id and route when there is one.
+import { getRequestContext } from "./context";
+
+export * from "./context";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+export type Logger = {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // Logger that adds `fields` to every line
+  child(fields: LogFields): Logger;
+};
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// LOG_LEVEL = "debug" | "info" (default) | "warn" | "error"
+function minLevel(): number {
+  const level = process.env.LOG_LEVEL?.toLowerCase() as LogLevel | undefined;
+  return LEVELS[level ?? "info"] ?? LEVELS.info;
+}
+
+export function createLogger(bindings: LogFields = {}): Logger {
+  const write = (level: LogLevel, message: string, fields?: LogFields) => {
+    if (LEVELS[level] < minLevel()) return;
+    const context = getRequestContext();
+    const line = JSON.stringify(
+      {
+        time: new Date().toISOString(),
+        level,
+        msg: message,
+        ...(context ? { requestId: context.requestId, route: context.route } : {}),
+        ...bindings,
+        ...fields,
+      },
+      (_key, value) => (value instanceof Error ? serializeError(value) : value)
+    );
+    if (LEVELS[level] >= LEVELS.warn) {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  };
+
+  return {
+    debug: (message, fields) => write("debug", message, fields),
+    info: (message, fields) => write("info", message, fields),
+    warn: (message, fields) => write("warn", message, fields),
+    error: (message, fields) => write("error", message, fields),
+    child: (fields) => createLogger({ ...bindings, ...fields }),
+  };
+}
+
+export const logger = createLogger();
+
+function serializeError(err: Error): LogFields {
+  return {
+    name: err.name,
+    message: err.message,
+    // Extra properties such as UpstreamError.kind or ApiError.code
+    ...Object.fromEntries(Object.entries(err)),
+    stack: err.stack,
+    ...(err.cause !== undefined ? { cause: err.cause } : {}),
+  };
+}
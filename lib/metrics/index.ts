@@ -0,0 +1,51 @@
+// lib/metrics/index.ts
+import { addTiming, getRequestContext, type RequestContext } from "@/lib/logger";
+import { counter, histogram } from "./registry";
+
+export { renderPrometheus } from "./registry";
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+export const httpRequests = counter(
+  "http_requests_total",
+  "API requests by route, method and status"
+);
+
+export const httpRequestDuration = histogram(
+  "http_request_duration_seconds",
+  "Time until the response headers were sent; streamed bodies keep going after"
+);
+
+const backendDuration = histogram(
+  "backend_request_duration_seconds",
+  "Time spent on one LLM, ASR or TTS call, including a streamed reply"
+);
+
+export type Backend = "llm" | "asr" | "tts";
+
+// Record one backend call in the histogram and on the request's timings.
+// Pass the context explicitly for work that outlives the route handler
+// (a streamed reply).
+export function observeBackend(
+  backend: Backend,
+  startedAt: number,
+  outcome: "ok" | "error" | "cancelled",
+  context: RequestContext | null = getRequestContext()
+) {
+  const ms = performance.now() - startedAt;
+  backendDuration.observe({ backend, outcome }, ms / 1000);
+  addTiming(context, backend, ms);
+}
+
+// Time an awaited backend call
+export async function timeBackend<T>(backend: Backend, call: () => Promise<T>): Promise<T> {
+  const startedAt = performance.now();
+  try {
+    const result = await call();
+    observeBackend(backend, startedAt, "ok");
+    return result;
+  } catch (err) {
+    observeBackend(backend, startedAt, "error");
+    throw err;
+  }
+}
@@ -0,0 +1,112 @@
+// lib/metrics/registry.ts
+// Minimal in-process counters and histograms rendered in the Prometheus
+// text format. Each server process keeps its own numbers.
+
+export type Labels = Record<string, string>;
+
+type Series = {
+  labels: Labels;
+  // Counter: [value]. Histogram: one count per bucket, then sum and count.
+  values: number[];
+};
+
+type Metric = {
+  name: string;
+  help: string;
+  type: "counter" | "histogram";
+  buckets: number[];
+  series: Map<string, Series>;
+};
+
+export type Counter = { inc(labels?: Labels, value?: number): void };
+export type Histogram = { observe(labels: Labels, value: number): void };
+
+// Seconds; covers quick API calls up to long LLM replies
+export const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const metrics = new Map<string, Metric>();
+
+function register(
+  name: string,
+  help: string,
+  type: Metric["type"],
+  buckets: number[] = []
+): Metric {
+  let metric = metrics.get(name);
+  if (!metric) {
+    metric = { name, help, type, buckets, series: new Map() };
+    metrics.set(name, metric);
+  }
+  return metric;
+}
+
+function seriesFor(metric: Metric, labels: Labels, size: number): Series {
+  const key = JSON.stringify(Object.entries(labels).sort());
+  let series = metric.series.get(key);
+  if (!series) {
+    series = { labels, values: new Array(size).fill(0) };
+    metric.series.set(key, series);
+  }
+  return series;
+}
+
+export function counter(name: string, help: string): Counter {
+  const metric = register(name, help, "counter");
+  return {
+    inc(labels = {}, value = 1) {
+      seriesFor(metric, labels, 1).values[0] += value;
+    },
+  };
+}
+
+export function histogram(
+  name: string,
+  help: string,
+  buckets = DEFAULT_BUCKETS
+): Histogram {
+  const metric = register(name, help, "histogram", buckets);
+  return {
+    observe(labels, value) {
+      const { values } = seriesFor(metric, labels, buckets.length + 2);
+      buckets.forEach((bound, i) => {
+        if (value <= bound) values[i]++;
+      });
+      values[buckets.length] += value;
+      values[buckets.length + 1]++;
+    },
+  };
+}
+
+export function renderPrometheus(): string {
+  const lines: string[] = [];
+  for (const metric of metrics.values()) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+    for (const { labels, values } of metric.series.values()) {
+      if (metric.type === "counter") {
+        lines.push(`${metric.name}${formatLabels(labels)} ${values[0]}`);
+        continue;
+      }
+      const count = values[metric.buckets.length + 1];
+      metric.buckets.forEach((bound, i) => {
+        lines.push(
+          `${metric.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${values[i]}`
+        );
+      });
+      lines.push(`${metric.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${metric.name}_sum${formatLabels(labels)} ${values[metric.buckets.length]}`);
+      lines.push(`${metric.name}_count${formatLabels(labels)} ${count}`);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  const escaped = entries.map(
+    ([key, value]) =>
+      `${key}="${value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"')}"`
+  );
+  return `{${escaped.join(",")}}`;
+}
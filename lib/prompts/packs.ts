@@ -0,0 +1,147 @@
+// lib/prompts/packs.ts
+import { promises as fs } from "fs";
+import path from "path";
+import type { LlmMessage } from "@/lib/llm";
+import { LANGUAGES, isLanguageId, type LanguageId } from "@/lib/language/languages";
+
+// One file per language/dialect in PROMPT_PACKS_DIR, e.g. prompts/teochew.json
+export type PromptPack = {
+  language: LanguageId;
+  // Bullet points appended to the system prompt
+  styleRules: string[];
+  fewShots: { user: string; assistant: string }[];
+};
+
+export class PromptPackError extends Error {
+  readonly problems: string[];
+
+  constructor(message: string, problems: string[]) {
+    super(message);
+    this.name = "PromptPackError";
+    this.problems = problems;
+  }
+}
+
+const DEFAULT_DIR = "prompts";
+
+type LoadedPacks = {
+  // File names + mtimes, used to detect edits in dev
+  signature: string;
+  packs: Map<LanguageId, PromptPack>;
+};
+
+let loaded: LoadedPacks | null = null;
+
+function packsDir() {
+  return path.resolve(
+    process.cwd(),
+    process.env.PROMPT_PACKS_DIR || DEFAULT_DIR
+  );
+}
+
+// Check one parsed pack file; returns the list of problems (empty if valid)
+export function validatePromptPack(raw: unknown, file: string): string[] {
+  const problems: string[] = [];
+  const pack = raw as Partial<Record<keyof PromptPack, unknown>> | null;
+
+  if (!pack || typeof pack !== "object") {
+    return [`${file}: must be a JSON object`];
+  }
+
+  const expected = path.basename(file, ".json");
+  if (!isLanguageId(pack.language)) {
+    problems.push(
+      `${file}: "language" must be one of ${LANGUAGES.map((l) => l.value).join(", ")}`
+    );
+  } else if (pack.language !== expected) {
+    problems.push(`${file}: "language" is "${pack.language}" but the file is named for "${expected}"`);
+  }
+
+  if (
+    !Array.isArray(pack.styleRules) ||
+    pack.styleRules.some((rule) => typeof rule !== "string" || !rule.trim())
+  ) {
+    problems.push(`${file}: "styleRules" must be an array of non-empty strings`);
+  }
+
+  if (!Array.isArray(pack.fewShots)) {
+    problems.push(`${file}: "fewShots" must be an array`);
+  } else {
+    pack.fewShots.forEach((shot, i) => {
+      const pair = shot as { user?: unknown; assistant?: unknown } | null;
+      if (
+        typeof pair?.user !== "string" ||
+        !pair.user.trim() ||
+        typeof pair?.assistant !== "string" ||
+        !pair.assistant.trim()
+      ) {
+        problems.push(
+          `${file}: fewShots[${i}] needs non-empty "user" and "assistant" strings`
+        );
+      }
+    });
+  }
+
+  return problems;
+}
+
+// Load and validate every pack. Throws PromptPackError listing all problems,
+// including languages that have no pack at all.
+export async function loadPromptPacks(): Promise<Map<LanguageId, PromptPack>> {
+  // Production reads the packs once; dev re-reads them when a file changes
+  if (loaded && process.env.NODE_ENV === "production") return loaded.packs;
+
+  const dir = packsDir();
+  const files = (await fs.readdir(dir).catch(() => []))
+    .filter((name) => name.endsWith(".json"))
+    .sort();
+
+  const stats = await Promise.all(
+    files.map((name) => fs.stat(path.join(dir, name)))
+  );
+  const signature = files
+    .map((name, i) => `${name}:${stats[i].mtimeMs}`)
+    .join("|");
+  if (loaded && loaded.signature === signature) return loaded.packs;
+
+  const problems: string[] = [];
+  const packs = new Map<LanguageId, PromptPack>();
+
+  for (const file of files) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await fs.readFile(path.join(dir, file), "utf8"));
+    } catch (err) {
+      problems.push(`${file}: invalid JSON (${(err as Error).message})`);
+      continue;
+    }
+
+    const fileProblems = validatePromptPack(raw, file);
+    if (fileProblems.length > 0) {
+      problems.push(...fileProblems);
+      continue;
+    }
+    const pack = raw as PromptPack;
+    packs.set(pack.language, pack);
+  }
+
+  for (const { value } of LANGUAGES) {
+    if (!packs.has(value) && !problems.some((p) => p.startsWith(`${value}.json`))) {
+      problems.push(`${value}.json: missing prompt pack for "${value}"`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new PromptPackError(`Invalid prompt packs in ${dir}`, problems);
+  }
+
+  loaded = { signature, packs };
+  return packs;
+}
+
+export function fewShotMessages(pack: PromptPack): LlmMessage[] {
+  return pack.fewShots.flatMap((shot) => [
+    { role: "user" as const, content: shot.user },
+    { role: "assistant" as const, content: shot.assistant },
+  ]);
+}
@@ -0,0 +1,169 @@
+// lib/rate-limit/index.ts
+import type { NextRequest } from "next/server";
+import { ApiError } from "@/lib/api/errors";
+import { browserId, getSession } from "@/lib/session";
+import { createMemoryRateLimitStore } from "./memory";
+import type { RateLimitPolicy, RateLimitStore } from "./types";
+
+export * from "./types";
+
+export type RateLimitedRoute = "chat" | "asr" | "tts" | "feedback";
+
+// Held for the duration of a request; release exactly once when done
+export type RateLimitLease = {
+  release(): void;
+};
+
+// Seconds a client is asked to wait when all its concurrency slots are busy
+const BUSY_RETRY_AFTER_SECONDS = 2;
+
+const DEFAULT_POLICIES: Record<RateLimitedRoute, RateLimitPolicy> = {
+  chat: {
+    limit: 12,
+    windowMs: 60_000,
+    maxConcurrentPerClient: 1,
+    maxConcurrentTotal: 8,
+  },
+  asr: {
+    limit: 20,
+    windowMs: 60_000,
+    maxConcurrentPerClient: 2,
+    maxConcurrentTotal: 8,
+  },
+  // A long reply is spoken in several requests
+  tts: {
+    limit: 40,
+    windowMs: 60_000,
+    maxConcurrentPerClient: 2,
+    maxConcurrentTotal: 8,
+  },
+  // Each rating is a line in the analytics log
+  feedback: {
+    limit: 30,
+    windowMs: 60_000,
+    maxConcurrentPerClient: 2,
+    maxConcurrentTotal: 8,
+  },
+};
+
+let store: RateLimitStore | null = null;
+
+// Pick the store from env:
+//   RATE_LIMIT_STORE = "memory" (default)
+// Register a shared implementation here to limit across several instances.
+export function getRateLimitStore(): RateLimitStore {
+  if (store) return store;
+
+  const kind = (process.env.RATE_LIMIT_STORE || "memory").toLowerCase();
+  if (kind !== "memory") {
+    throw new Error(`Unknown RATE_LIMIT_STORE "${kind}" (expected memory)`);
+  }
+  store = createMemoryRateLimitStore();
+  return store;
+}
+
+// Defaults, overridable per route, e.g. RATE_LIMIT_CHAT_PER_MINUTE=20
+export function getRateLimitPolicy(route: RateLimitedRoute): RateLimitPolicy {
+  const prefix = `RATE_LIMIT_${route.toUpperCase()}`;
+  const defaults = DEFAULT_POLICIES[route];
+  const read = (name: string, fallback: number) =>
+    Number.parseInt(process.env[`${prefix}_${name}`] ?? "", 10) || fallback;
+
+  return {
+    limit: read("PER_MINUTE", defaults.limit),
+    windowMs: defaults.windowMs,
+    maxConcurrentPerClient: read("CONCURRENT_PER_CLIENT", defaults.maxConcurrentPerClient),
+    maxConcurrentTotal: read("CONCURRENT_TOTAL", defaults.maxConcurrentTotal),
+  };
+}
+
+// Caller's IP. Forwarding headers are client-supplied, so they are only
+// read behind the reverse proxies listed in RATE_LIMIT_TRUSTED_PROXIES:
+// the client is the right-most X-Forwarded-For hop that is not one of
+// them. Without the setting the IP is "unknown" and clientKey tells
+// callers apart by their browser instead.
+export function clientIp(req: Request): string {
+  const proxies = (process.env.RATE_LIMIT_TRUSTED_PROXIES ?? "")
+    .split(",")
+    .map((ip) => ip.trim())
+    .filter(Boolean);
+  if (proxies.length === 0) return "unknown";
+
+  const hops = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  const client = hops.reverse().find((hop) => !proxies.includes(hop));
+  return client || req.headers.get("x-real-ip") || "unknown";
+}
+
+// Identify the caller: IP plus the signed-in customer, else the browser id
+// (lib/session/owner.ts), so people behind one address (an office, a
+// carrier NAT) get their own budget. Only requests without either, such
+// as scripts that drop cookies, share the address's "guest" budget.
+export function clientKey(req: NextRequest): string {
+  const customerId = getSession(req)?.customerId;
+  const browser = browserId(req);
+  const who = customerId
+    ? `customer:${customerId}`
+    : browser
+    ? `browser:${browser}`
+    : "guest";
+  return `${clientIp(req)}|${who}`;
+}
+
+function rateLimited(message: string, retryAfterSeconds: number): ApiError {
+  return new ApiError("RATE_LIMITED", message, {
+    details: { retryAfterSeconds },
+    headers: { "Retry-After": String(retryAfterSeconds) },
+  });
+}
+
+// Count the request against the client's window and take concurrency slots.
+// Throws ApiError("RATE_LIMITED") with Retry-After when over a limit.
+export async function enforceRateLimit(
+  req: NextRequest,
+  route: RateLimitedRoute
+): Promise<RateLimitLease> {
+  const limits = getRateLimitPolicy(route);
+  const rateStore = getRateLimitStore();
+  const client = clientKey(req);
+
+  const { count, resetAt } = await rateStore.increment(
+    `rate:${route}:${client}`,
+    limits.windowMs
+  );
+  if (count > limits.limit) {
+    throw rateLimited(
+      "Too many requests, please wait a moment",
+      Math.max(1, Math.ceil((resetAt - Date.now()) / 1000))
+    );
+  }
+
+  const clientSlot = `busy:${route}:${client}`;
+  const totalSlot = `busy:${route}:*`;
+
+  if (!(await rateStore.acquire(clientSlot, limits.maxConcurrentPerClient))) {
+    throw rateLimited(
+      "Another request is still in progress",
+      BUSY_RETRY_AFTER_SECONDS
+    );
+  }
+  if (!(await rateStore.acquire(totalSlot, limits.maxConcurrentTotal))) {
+    await rateStore.release(clientSlot);
+    throw rateLimited(
+      "The assistant is busy serving other customers",
+      BUSY_RETRY_AFTER_SECONDS
+    );
+  }
+
+  let released = false;
+  return {
+    release() {
+      if (released) return;
+      released = true;
+      void rateStore.release(clientSlot);
+      void rateStore.release(totalSlot);
+    },
+  };
+}
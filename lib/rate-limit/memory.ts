@@ -0,0 +1,49 @@
+// lib/rate-limit/memory.ts
+import type { RateLimitStore } from "./types";
+
+// Expired windows are swept once the map grows past this
+const PRUNE_THRESHOLD = 10_000;
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+  const slots = new Map<string, number>();
+
+  function prune(now: number) {
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) windows.delete(key);
+    }
+  }
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now();
+      if (windows.size > PRUNE_THRESHOLD) prune(now);
+
+      const current = windows.get(key);
+      if (!current || current.resetAt <= now) {
+        const fresh = { count: 1, resetAt: now + windowMs };
+        windows.set(key, fresh);
+        return fresh;
+      }
+      current.count++;
+      return current;
+    },
+
+    async acquire(key, max) {
+      const inUse = slots.get(key) ?? 0;
+      if (inUse >= max) return false;
+      slots.set(key, inUse + 1);
+      return true;
+    },
+
+    async release(key) {
+      const inUse = (slots.get(key) ?? 0) - 1;
+      if (inUse > 0) slots.set(key, inUse);
+      else slots.delete(key);
+    },
+
+    async active(key) {
+      return slots.get(key) ?? 0;
+    },
+  };
+}
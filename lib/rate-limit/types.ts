@@ -0,0 +1,26 @@
+// lib/rate-limit/types.ts
+
+// Storage behind the rate limiter. The in-memory store works for a single
+// server process; a shared store (e.g. Redis) only needs these four calls.
+export interface RateLimitStore {
+  // Count one hit in the fixed window for `key`
+  increment(
+    key: string,
+    windowMs: number
+  ): Promise<{ count: number; resetAt: number }>;
+  // Take a concurrency slot if fewer than `max` are in use
+  acquire(key: string, max: number): Promise<boolean>;
+  release(key: string): Promise<void>;
+  // Slots currently in use
+  active(key: string): Promise<number>;
+}
+
+export type RateLimitPolicy = {
+  // Requests per client per window
+  limit: number;
+  windowMs: number;
+  // In-flight requests per client
+  maxConcurrentPerClient: number;
+  // In-flight requests across all clients (protects the GPU backend)
+  maxConcurrentTotal: number;
+};
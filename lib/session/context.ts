@@ -0,0 +1,62 @@
+// lib/session/context.ts
+import type { SessionCustomer } from "@/lib/api/contracts";
+import type { Customer, CustomerDataService, Plan } from "@/lib/customer-data";
+import { isLanguageId, languageLabel } from "@/lib/language/languages";
+
+// Bills quoted in the prompt, most recent last
+const PROMPT_BILL_MONTHS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function toSessionCustomer(customer: Customer, plans: Plan[]): SessionCustomer {
+  return {
+    id: customer.id,
+    name: customer.name,
+    planName: plans.find((plan) => plan.id === customer.planId)?.name ?? null,
+    contractEndDate: customer.contractEndDate,
+    preferredLanguage: isLanguageId(customer.preferredLanguage)
+      ? customer.preferredLanguage
+      : null,
+  };
+}
+
+// System prompt section about the signed-in customer, so the basics are
+// answered without a tool call; null if the account no longer exists
+export async function customerPromptContext(
+  customerData: CustomerDataService,
+  customerId: string,
+  now = new Date()
+): Promise<string | null> {
+  const customer = await customerData.getCustomer(customerId);
+  if (!customer) return null;
+
+  const [plans, bills] = await Promise.all([
+    customerData.listPlans(),
+    customerData.getBills(customerId),
+  ]);
+  const plan = plans.find((p) => p.id === customer.planId);
+  const daysLeft = Math.ceil(
+    (Date.parse(customer.contractEndDate) - now.getTime()) / DAY_MS
+  );
+
+  return [
+    "Signed-in customer (use this to personalise answers; do not recite it unprompted):",
+    `- Name: ${customer.name}`,
+    plan
+      ? `- Plan: ${plan.name}, SGD ${plan.monthlyFee.toFixed(2)} a month, ${plan.dataGb}GB data`
+      : `- Plan: ${customer.planId}`,
+    `- Contract ends: ${customer.contractEndDate} (${
+      daysLeft > 0 ? `${daysLeft} days from today` : "already ended"
+    })`,
+    `- Preferred language: ${
+      isLanguageId(customer.preferredLanguage)
+        ? languageLabel(customer.preferredLanguage)
+        : customer.preferredLanguage
+    }`,
+    `- Recent bills: ${
+      bills
+        .slice(-PROMPT_BILL_MONTHS)
+        .map((bill) => `${bill.month} SGD ${bill.total.toFixed(2)} (${bill.status})`)
+        .join("; ") || "none yet"
+    }`,
+  ].join("\n");
+}
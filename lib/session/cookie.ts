@@ -0,0 +1,80 @@
+// lib/session/cookie.ts
+// Session cookies: base64url JSON payload plus an HMAC-SHA256 signature.
+// Nothing secret goes in them; the signature only stops customers from
+// switching accounts (or posing as staff) by editing the cookie.
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { logger } from "@/lib/logger";
+import type { Session } from "./types";
+
+const DEFAULT_MAX_AGE_SECONDS = 8 * 60 * 60;
+
+let generatedSecret: string | null = null;
+
+function sessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (!generatedSecret) {
+    generatedSecret = randomBytes(32).toString("hex");
+    logger.warn(
+      "SESSION_SECRET is not set; using a random one, so sign-ins end when the server restarts"
+    );
+  }
+  return generatedSecret;
+}
+
+export function sessionMaxAgeSeconds(): number {
+  return (
+    Number.parseInt(process.env.SESSION_MAX_AGE_SECONDS ?? "", 10) ||
+    DEFAULT_MAX_AGE_SECONDS
+  );
+}
+
+// Constant-time string comparison, for signatures and shared tokens
+export function tokensEqual(given: string, expected: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", sessionSecret()).update(payload).digest("base64url");
+}
+
+export function encodeSigned<T extends { signedInAt: string }>(value: T): string {
+  const payload = Buffer.from(JSON.stringify(value)).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+// The payload of a signed cookie; null for a missing, tampered or
+// expired one
+export function decodeSigned(
+  value: string | undefined
+): Record<string, unknown> | null {
+  const [payload, signature, extra] = value?.split(".") ?? [];
+  if (!payload || !signature || extra !== undefined) return null;
+
+  if (!tokensEqual(signature, sign(payload))) return null;
+
+  try {
+    const data = JSON.parse(
+      Buffer.from(payload, "base64url").toString("utf8")
+    ) as Record<string, unknown> | null;
+    if (typeof data?.signedInAt !== "string") return null;
+    // The cookie's Max-Age is up to the browser; expiry is enforced here
+    const age = Date.now() - Date.parse(data.signedInAt);
+    if (!(age >= 0 && age <= sessionMaxAgeSeconds() * 1000)) return null;
+    return data;
+  } catch {
+    return null;
+  }
+}
+
+export function encodeSession(session: Session): string {
+  return encodeSigned(session);
+}
+
+export function decodeSession(value: string | undefined): Session | null {
+  const data = decodeSigned(value);
+  if (typeof data?.customerId !== "string") return null;
+  return { customerId: data.customerId, signedInAt: data.signedInAt as string };
+}
@@ -0,0 +1,52 @@
+// lib/session/index.ts
+import type { NextRequest, NextResponse } from "next/server";
+import { decodeSession, encodeSession, sessionMaxAgeSeconds } from "./cookie";
+import type { Session } from "./types";
+
+export * from "./types";
+export { customerPromptContext, toSessionCustomer } from "./context";
+export { tokensEqual } from "./cookie";
+export {
+  browserId,
+  conversationOwner,
+  ensureBrowserId,
+  rememberConversationOwner,
+} from "./owner";
+export {
+  checkStaffToken,
+  clearStaffCookie,
+  isStaff,
+  requireStaff,
+  setStaffCookie,
+  type StaffRole,
+} from "./staff";
+
+const SESSION_COOKIE = "zero1_session";
+
+export function getSession(req: NextRequest): Session | null {
+  return decodeSession(req.cookies.get(SESSION_COOKIE)?.value);
+}
+
+export function setSessionCookie(
+  req: NextRequest,
+  res: NextResponse,
+  session: Session
+) {
+  res.cookies.set(SESSION_COOKIE, encodeSession(session), {
+    httpOnly: true,
+    sameSite: "lax",
+    path: "/",
+    maxAge: sessionMaxAgeSeconds(),
+    secure: req.nextUrl.protocol === "https:",
+  });
+}
+
+export function clearSessionCookie(res: NextResponse) {
+  res.cookies.delete(SESSION_COOKIE);
+}
+
+// Account the chat is about: the signed-in customer, else DEMO_CUSTOMER_ID
+// when set (demos without the sign-in step), else nobody
+export function sessionCustomerId(req: NextRequest): string | null {
+  return getSession(req)?.customerId ?? (process.env.DEMO_CUSTOMER_ID || null);
+}
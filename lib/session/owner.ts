@@ -0,0 +1,53 @@
+// lib/session/owner.ts
+// Who conversations saved on the server belong to: the signed-in
+// customer, else this browser, known by a random id in a long-lived
+// cookie. Signing in or out switches to that owner's history. The same
+// browser id gives guests their own rate limit budget.
+import { randomUUID } from "crypto";
+import type { NextRequest, NextResponse } from "next/server";
+import { getSession } from "./index";
+
+const OWNER_COOKIE = "zero1_owner";
+const OWNER_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+const BROWSER_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+// This browser's id; null until it was given one
+export function browserId(req: NextRequest): string | null {
+  const id = req.cookies.get(OWNER_COOKIE)?.value;
+  return id && BROWSER_ID_PATTERN.test(id) ? id : null;
+}
+
+// Hand out a browser id if the request came without one. GET /api/session
+// does this on every page load.
+export function ensureBrowserId(
+  req: NextRequest,
+  res: NextResponse,
+  id: string = browserId(req) ?? randomUUID()
+) {
+  if (req.cookies.get(OWNER_COOKIE)?.value === id) return;
+  res.cookies.set(OWNER_COOKIE, id, {
+    httpOnly: true,
+    sameSite: "lax",
+    path: "/",
+    maxAge: OWNER_MAX_AGE_SECONDS,
+    secure: req.nextUrl.protocol === "https:",
+  });
+}
+
+// A new browser gets a fresh id; pass the owner to
+// rememberConversationOwner so the browser keeps it
+export function conversationOwner(req: NextRequest): string {
+  const customerId = getSession(req)?.customerId;
+  if (customerId) return `customer:${customerId}`;
+  return `browser:${browserId(req) ?? randomUUID()}`;
+}
+
+export function rememberConversationOwner(
+  req: NextRequest,
+  res: NextResponse,
+  owner: string
+) {
+  if (owner.startsWith("browser:")) {
+    ensureBrowserId(req, res, owner.slice("browser:".length));
+  }
+}
@@ -0,0 +1,78 @@
+// lib/session/staff.ts
+// Staff sign-in for the agent console and the analytics dashboard. The
+// shared token from env is exchanged once for a signed cookie, since the
+// console's EventSource cannot send headers; scripts may send it as a
+// bearer token instead. Without the token configured the page stays locked.
+import type { NextRequest, NextResponse } from "next/server";
+import { ApiError } from "@/lib/api/errors";
+import {
+  decodeSigned,
+  encodeSigned,
+  sessionMaxAgeSeconds,
+  tokensEqual,
+} from "./cookie";
+
+export type StaffRole = "agent" | "analytics";
+
+const STAFF: Record<StaffRole, { tokenEnv: string; cookie: string; label: string }> = {
+  agent: { tokenEnv: "AGENT_TOKEN", cookie: "zero1_agent", label: "Agent console" },
+  analytics: {
+    tokenEnv: "ANALYTICS_TOKEN",
+    cookie: "zero1_analytics",
+    label: "Analytics dashboard",
+  },
+};
+
+function staffToken(role: StaffRole): string | null {
+  return process.env[STAFF[role].tokenEnv] || null;
+}
+
+export function checkStaffToken(role: StaffRole, token: string): boolean {
+  const expected = staffToken(role);
+  return expected !== null && tokensEqual(token, expected);
+}
+
+export function isStaff(req: NextRequest, role: StaffRole): boolean {
+  if (!staffToken(role)) return false;
+
+  const auth = req.headers.get("authorization");
+  if (auth?.startsWith("Bearer ")) {
+    return checkStaffToken(role, auth.slice("Bearer ".length));
+  }
+  const session = decodeSigned(req.cookies.get(STAFF[role].cookie)?.value);
+  return session?.role === role;
+}
+
+// Throws 401 unless the request comes from signed-in staff
+export function requireStaff(req: NextRequest, role: StaffRole) {
+  if (isStaff(req, role)) return;
+  const { label, tokenEnv } = STAFF[role];
+  throw new ApiError(
+    "UNAUTHORIZED",
+    staffToken(role)
+      ? `${label} sign-in required`
+      : `${label} is locked (${tokenEnv} is not set)`
+  );
+}
+
+export function setStaffCookie(
+  req: NextRequest,
+  res: NextResponse,
+  role: StaffRole
+) {
+  res.cookies.set(
+    STAFF[role].cookie,
+    encodeSigned({ role, signedInAt: new Date().toISOString() }),
+    {
+      httpOnly: true,
+      sameSite: "lax",
+      path: "/",
+      maxAge: sessionMaxAgeSeconds(),
+      secure: req.nextUrl.protocol === "https:",
+    }
+  );
+}
+
+export function clearStaffCookie(res: NextResponse, role: StaffRole) {
+  res.cookies.delete(STAFF[role].cookie);
+}
@@ -0,0 +1,7 @@
+// lib/session/types.ts
+
+// Demo sign-in: which fixture customer this browser is talking as
+export type Session = {
+  customerId: string;
+  signedInAt: string;
+};
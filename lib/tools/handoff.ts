@@ -0,0 +1,36 @@
+// lib/tools/handoff.ts
+import type { ChatTool } from "./types";
+
+// Lets the model put the conversation in the human agent queue
+export const requestHumanAgent: ChatTool = {
+  definition: {
+    name: "requestHumanAgent",
+    description:
+      "Transfer the conversation to a human customer service agent. Use when the customer asks for a person, is very upset, or the issue needs account changes, complaints or anything you cannot resolve safely.",
+    parameters: {
+      type: "object",
+      properties: {
+        reason: {
+          type: "string",
+          description: "One short sentence for the agent on why they are needed.",
+        },
+      },
+      required: ["reason"],
+    },
+  },
+  async run(args, context) {
+    if (!context.requestHandoff) {
+      return { error: "Human agents are not available right now" };
+    }
+    const reason =
+      typeof args.reason === "string" && args.reason.trim()
+        ? args.reason.trim().slice(0, 200)
+        : "Assistant requested a human agent";
+    context.requestHandoff(reason);
+    return {
+      status: "queued",
+      instructions:
+        "Tell the customer, in their language, that you are connecting them to a customer service agent who will join this chat shortly.",
+    };
+  },
+};
@@ -0,0 +1,38 @@
+// lib/tools/index.ts
+import { getCustomerDataService } from "@/lib/customer-data";
+import { requestHumanAgent } from "./handoff";
+import { telcoTools } from "./telco";
+import type { ToolRunOptions } from "./runner";
+
+export * from "./runner";
+export * from "./types";
+export { telcoTools } from "./telco";
+
+const DEFAULT_MAX_ROUNDS = 3;
+
+// Tool setup for a chat request. Set LLM_TOOLS_ENABLED=false for models
+// without function-calling support. `requestHandoff` adds the human agent
+// tool.
+export function getChatToolOptions(
+  customerId: string | null,
+  requestHandoff?: (reason: string) => void
+): ToolRunOptions {
+  const enabled = process.env.LLM_TOOLS_ENABLED !== "false";
+  const maxRounds =
+    Number.parseInt(process.env.LLM_TOOLS_MAX_ROUNDS ?? "", 10) ||
+    DEFAULT_MAX_ROUNDS;
+
+  return {
+    tools: !enabled
+      ? []
+      : requestHandoff
+      ? [...telcoTools, requestHumanAgent]
+      : telcoTools,
+    context: {
+      customerId,
+      customerData: getCustomerDataService(),
+      requestHandoff,
+    },
+    maxRounds,
+  };
+}
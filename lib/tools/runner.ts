@@ -0,0 +1,110 @@
+// lib/tools/runner.ts
+import type {
+  LlmChatRequest,
+  LlmMessage,
+  LlmProvider,
+  LlmToolCall,
+} from "@/lib/llm";
+import { logger } from "@/lib/logger";
+import type { ChatTool, ToolContext } from "./types";
+
+export type ToolRunOptions = {
+  tools: ChatTool[];
+  context: ToolContext;
+  // After this many tool rounds the model must answer without tools
+  maxRounds: number;
+};
+
+// Execute the model's tool calls and turn the results into tool messages
+export async function runToolCalls(
+  calls: LlmToolCall[],
+  options: ToolRunOptions
+): Promise<LlmMessage[]> {
+  return Promise.all(
+    calls.map(async (call) => {
+      const tool = options.tools.find((t) => t.definition.name === call.name);
+      let result: unknown;
+
+      if (!tool) {
+        result = { error: `Unknown tool "${call.name}"` };
+      } else {
+        try {
+          result = await tool.run(call.arguments, options.context);
+        } catch (err) {
+          logger.error("Tool failed", { tool: call.name, err });
+          result = {
+            error: err instanceof Error ? err.message : "Tool failed",
+          };
+        }
+      }
+
+      return {
+        role: "tool" as const,
+        toolCallId: call.id,
+        name: call.name,
+        content: JSON.stringify(result),
+      };
+    })
+  );
+}
+
+// Stream the reply, resolving any tool calls in between.
+// Yields only content deltas; tool rounds are invisible to the caller.
+export async function* streamWithTools(
+  provider: LlmProvider,
+  request: LlmChatRequest,
+  options: ToolRunOptions
+): AsyncGenerator<string> {
+  const messages = [...request.messages];
+
+  for (let round = 0; ; round++) {
+    const offerTools = options.tools.length > 0 && round < options.maxRounds;
+    const toolCalls: LlmToolCall[] = [];
+    let content = "";
+
+    for await (const chunk of provider.chatStream({
+      ...request,
+      messages,
+      tools: offerTools ? options.tools.map((t) => t.definition) : undefined,
+    })) {
+      if (chunk.type === "content") {
+        content += chunk.content;
+        yield chunk.content;
+      } else {
+        toolCalls.push(...chunk.toolCalls);
+      }
+    }
+
+    if (toolCalls.length === 0) return;
+
+    messages.push(
+      { role: "assistant", content, toolCalls },
+      ...(await runToolCalls(toolCalls, options))
+    );
+  }
+}
+
+// Non-streaming variant of streamWithTools: returns the final reply
+export async function chatWithTools(
+  provider: LlmProvider,
+  request: LlmChatRequest,
+  options: ToolRunOptions
+): Promise<string> {
+  const messages = [...request.messages];
+
+  for (let round = 0; ; round++) {
+    const offerTools = options.tools.length > 0 && round < options.maxRounds;
+    const { content, toolCalls } = await provider.chat({
+      ...request,
+      messages,
+      tools: offerTools ? options.tools.map((t) => t.definition) : undefined,
+    });
+
+    if (toolCalls.length === 0) return content;
+
+    messages.push(
+      { role: "assistant", content, toolCalls },
+      ...(await runToolCalls(toolCalls, options))
+    );
+  }
+}
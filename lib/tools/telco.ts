@@ -0,0 +1,132 @@
+// lib/tools/telco.ts
+import type { ChatTool, ToolContext } from "./types";
+
+const monthParameter = {
+  type: "string",
+  description:
+    'Billing month as "YYYY-MM". Omit for the most recent month.',
+};
+
+function requireCustomer(context: ToolContext): string {
+  if (!context.customerId) {
+    throw new Error("No customer account is linked to this conversation");
+  }
+  return context.customerId;
+}
+
+function readMonth(args: Record<string, unknown>): string | null {
+  return typeof args.month === "string" && /^\d{4}-\d{2}$/.test(args.month)
+    ? args.month
+    : null;
+}
+
+const getBillBreakdown: ChatTool = {
+  definition: {
+    name: "getBillBreakdown",
+    description:
+      "Get the itemised bill for the customer's account, compared with the previous month. Use for questions about a high or unexpected bill.",
+    parameters: {
+      type: "object",
+      properties: { month: monthParameter },
+    },
+  },
+  async run(args, context) {
+    const bills = await context.customerData.getBills(requireCustomer(context));
+    if (bills.length === 0) return { error: "No bills found" };
+
+    const month = readMonth(args);
+    const index = month
+      ? bills.findIndex((bill) => bill.month === month)
+      : bills.length - 1;
+    if (index === -1) return { error: `No bill found for ${month}` };
+
+    const bill = bills[index];
+    const previous = index > 0 ? bills[index - 1] : null;
+
+    return {
+      currency: "SGD",
+      bill,
+      previousMonth: previous
+        ? {
+            month: previous.month,
+            total: previous.total,
+            difference: Number((bill.total - previous.total).toFixed(2)),
+          }
+        : null,
+    };
+  },
+};
+
+const getDataUsage: ChatTool = {
+  definition: {
+    name: "getDataUsage",
+    description:
+      "Get the customer's mobile data usage for the current billing cycle, including allowance and add-ons.",
+    parameters: { type: "object", properties: {} },
+  },
+  async run(_args, context) {
+    const usage = await context.customerData.getDataUsage(
+      requireCustomer(context)
+    );
+    if (!usage) return { error: "No data usage found" };
+
+    const totalGb = usage.allowanceGb + usage.addOnGb;
+    return {
+      ...usage,
+      remainingGb: Number(Math.max(0, totalGb - usage.usedGb).toFixed(2)),
+      // null for a plan without a data allowance
+      percentUsed:
+        totalGb > 0 ? Math.round((usage.usedGb / totalGb) * 100) : null,
+    };
+  },
+};
+
+const getRoamingCharges: ChatTool = {
+  definition: {
+    name: "getRoamingCharges",
+    description:
+      "Get overseas roaming usage and charges on the customer's account, optionally for one billing month.",
+    parameters: {
+      type: "object",
+      properties: { month: monthParameter },
+    },
+  },
+  async run(args, context) {
+    const month = readMonth(args);
+    const charges = await context.customerData.getRoamingCharges(
+      requireCustomer(context)
+    );
+    const selected = month
+      ? charges.filter((charge) => charge.month === month)
+      : charges;
+    return { currency: "SGD", charges: selected };
+  },
+};
+
+const listAvailablePlans: ChatTool = {
+  definition: {
+    name: "listAvailablePlans",
+    description:
+      "List Zero1 mobile plans with price and allowances, and which plan the customer is currently on. Use for upgrade or downgrade questions.",
+    parameters: { type: "object", properties: {} },
+  },
+  async run(_args, context) {
+    const plans = await context.customerData.listPlans();
+    const customer = context.customerId
+      ? await context.customerData.getCustomer(context.customerId)
+      : null;
+    return {
+      currency: "SGD",
+      currentPlanId: customer?.planId ?? null,
+      contractEndDate: customer?.contractEndDate ?? null,
+      plans,
+    };
+  },
+};
+
+export const telcoTools: ChatTool[] = [
+  getBillBreakdown,
+  getDataUsage,
+  getRoamingCharges,
+  listAvailablePlans,
+];
@@ -0,0 +1,18 @@
+// lib/tools/types.ts
+import type { CustomerDataService } from "@/lib/customer-data";
+import type { LlmToolDefinition } from "@/lib/llm";
+
+// What a tool can see when the model calls it
+export type ToolContext = {
+  // Account the conversation is about (null if nobody is identified)
+  customerId: string | null;
+  customerData: CustomerDataService;
+  // Queue the conversation for a human agent (absent when escalation is off)
+  requestHandoff?: (reason: string) => void;
+};
+
+export type ChatTool = {
+  definition: LlmToolDefinition;
+  // Result is serialised to JSON and fed back to the model
+  run(args: Record<string, unknown>, context: ToolContext): Promise<unknown>;
+};
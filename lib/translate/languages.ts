@@ -0,0 +1,34 @@
+// lib/translate/languages.ts
+import type { LanguageId } from "@/lib/language/languages";
+
+// Languages the translation mode converts between. Unlike LANGUAGES (reply
+// languages), English and Singlish are separate targets here. `speech` is
+// the reply language whose voice reads the text aloud; `romanisation` is
+// the spelling shown under Chinese text (null: written in Latin script).
+export const TRANSLATION_LANGUAGES = [
+  { value: "english", label: "English", speech: "english", romanisation: null },
+  { value: "singlish", label: "Singlish", speech: "english", romanisation: null },
+  { value: "mandarin", label: "Mandarin", speech: "mandarin", romanisation: "Hanyu Pinyin" },
+  { value: "cantonese", label: "Cantonese", speech: "cantonese", romanisation: "Jyutping" },
+  { value: "hokkien", label: "Hokkien", speech: "hokkien", romanisation: "Pe\u030dh-\u014de-j\u012b" },
+  { value: "teochew", label: "Teochew", speech: "teochew", romanisation: "Peng'im" },
+] as const satisfies readonly {
+  value: string;
+  label: string;
+  speech: LanguageId;
+  romanisation: string | null;
+}[];
+
+export type TranslationLanguageId = (typeof TRANSLATION_LANGUAGES)[number]["value"];
+
+export type TranslationLanguage = (typeof TRANSLATION_LANGUAGES)[number];
+
+export function isTranslationLanguageId(
+  value: unknown
+): value is TranslationLanguageId {
+  return TRANSLATION_LANGUAGES.some((lang) => lang.value === value);
+}
+
+export function translationLanguage(id: TranslationLanguageId): TranslationLanguage {
+  return TRANSLATION_LANGUAGES.find((lang) => lang.value === id)!;
+}
@@ -0,0 +1,98 @@
+// lib/translate/prompt.ts
+// Translation mode has its own prompt: the model is a translator here,
+// not the customer service persona used by /api/chat.
+import type { TranslateRequest, TranslateResponse } from "@/lib/api/contracts";
+import { LlmError, type LlmMessage } from "@/lib/llm";
+import {
+  TRANSLATION_LANGUAGES,
+  isTranslationLanguageId,
+  translationLanguage,
+  type TranslationLanguageId,
+} from "./languages";
+
+const LANGUAGE_GUIDE = TRANSLATION_LANGUAGES.map((lang) =>
+  lang.romanisation
+    ? `- "${lang.value}": ${lang.label}, written in Chinese characters, romanised in ${lang.romanisation}`
+    : `- "${lang.value}": ${lang.label}, written in Latin script (no romanisation)`
+).join("\n");
+
+const TRANSLATE_SYSTEM_PROMPT = `
+You are a translator for staff at the Singapore telco Zero1. You translate short messages between English, Singlish and the Chinese languages and dialects spoken in Singapore. You only translate; never answer or comment on the message.
+
+Languages (use these ids):
+${LANGUAGE_GUIDE}
+
+Rules:
+- Keep the meaning, tone and politeness of the original. Keep names, numbers, amounts and plan names unchanged.
+- Use the words people in Singapore actually say, not textbook or mainland-only vocabulary.
+- "english" is standard English; "singlish" is colloquial Singapore English with particles like "lah", "lor", "leh".
+- Cantonese, Hokkien and Teochew are written in the characters their speakers use (e.g. Cantonese \u4fc2/\u5514/\u5605), not in Mandarin grammar.
+- Romanisation spells out the whole text in the scheme named above, with tone marks or numbers. Use "" when the text is in Latin script.
+- If "from" is "auto", decide which of the language ids the text is written in.
+
+The user message is JSON: {"from": "<id or auto>", "to": "<id>", "text": "<text to translate>"}.
+Answer with JSON only, in exactly this shape:
+{"sourceLanguage": "<id>", "sourceRomanisation": "<romanisation of the original text>", "translation": "<translated text>", "translationRomanisation": "<romanisation of the translation>"}
+`;
+
+export function buildTranslateMessages(request: TranslateRequest): LlmMessage[] {
+  return [
+    { role: "system", content: TRANSLATE_SYSTEM_PROMPT },
+    {
+      role: "user",
+      content: JSON.stringify({
+        from: request.from ?? "auto",
+        to: request.to,
+        text: request.text,
+      }),
+    },
+  ];
+}
+
+// Turn the model's JSON into the response. `fallbackSource` is used when
+// the source language was not given and the model did not name a valid one.
+export function parseTranslation(
+  content: string,
+  request: TranslateRequest,
+  fallbackSource: TranslationLanguageId
+): TranslateResponse {
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  let parsed: Record<string, unknown> | null = null;
+  if (start !== -1 && end > start) {
+    try {
+      parsed = JSON.parse(content.slice(start, end + 1));
+    } catch {
+      parsed = null;
+    }
+  }
+
+  const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+  const translation = text(parsed?.translation);
+  if (!translation) {
+    throw new LlmError("LLM returned no translation", {
+      detail: content.slice(0, 500),
+    });
+  }
+
+  const named = parsed?.sourceLanguage;
+  const sourceLanguage =
+    request.from ?? (isTranslationLanguageId(named) ? named : fallbackSource);
+
+  // Romanisation only where the language is written in Chinese characters
+  const romanised = (language: TranslationLanguageId, value: unknown) =>
+    translationLanguage(language).romanisation ? text(value) || null : null;
+
+  return {
+    source: {
+      language: sourceLanguage,
+      text: request.text.trim(),
+      romanisation: romanised(sourceLanguage, parsed?.sourceRomanisation),
+    },
+    target: {
+      language: request.to,
+      text: translation,
+      romanisation: romanised(request.to, parsed?.translationRomanisation),
+    },
+  };
+}
@@ -0,0 +1,116 @@
+// lib/tts/index.ts
+import { createHash } from "crypto";
+import { ApiError } from "@/lib/api/errors";
+import type { LanguageId } from "@/lib/language/languages";
+import { logger } from "@/lib/logger";
+import { timeBackend } from "@/lib/metrics";
+import { upstreamFetch } from "@/lib/upstream";
+
+export { resolveSpeechLanguage, splitForSpeech } from "./text";
+
+export type SpeechAudio = {
+  audio: ArrayBuffer;
+  contentType: string;
+};
+
+// Voice names sent to the TTS backend, overridable per language, e.g.
+// TTS_VOICE_HOKKIEN=my-hokkien-voice. Teochew shares the Hokkien (Min Nan)
+// voice until the backend has its own.
+const DEFAULT_VOICES: Record<LanguageId, string> = {
+  english: "en-SG",
+  mandarin: "zh-CN",
+  cantonese: "yue-HK",
+  hokkien: "nan-TW",
+  teochew: "nan-TW",
+};
+
+const DEFAULT_CACHE_ENTRIES = 100;
+
+// Recently synthesised clips, oldest first (Map keeps insertion order)
+const cache = new Map<string, SpeechAudio>();
+
+export function getTtsVoice(language: LanguageId): string {
+  return (
+    process.env[`TTS_VOICE_${language.toUpperCase()}`] || DEFAULT_VOICES[language]
+  );
+}
+
+// Stable id for one voice + text, used as the cache key
+function speechCacheKey(voice: string, text: string): string {
+  return createHash("sha256")
+    .update(`${voice}\n${text}`)
+    .digest("base64url")
+    .slice(0, 32);
+}
+
+function cacheLimit() {
+  const value = Number.parseInt(process.env.TTS_CACHE_ENTRIES ?? "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_CACHE_ENTRIES;
+}
+
+// Synthesise `text` with `voice` on the TTS backend, reusing a cached clip
+// when the same reply is played again.
+// Backend contract: POST TTS_SERVER_URL with JSON { text, voice, language },
+// answered with the audio bytes and an audio/* Content-Type.
+export async function synthesizeSpeech(
+  text: string,
+  language: LanguageId,
+  voice: string,
+  signal?: AbortSignal
+): Promise<SpeechAudio> {
+  const TTS_URL = process.env.TTS_SERVER_URL;
+  if (!TTS_URL) {
+    throw new ApiError("CONFIG_ERROR", "TTS_SERVER_URL is not configured");
+  }
+
+  const key = speechCacheKey(voice, text);
+  const hit = cache.get(key);
+  if (hit) {
+    // Move to the newest end
+    cache.delete(key);
+    cache.set(key, hit);
+    return hit;
+  }
+
+  const res = await timeBackend("tts", () =>
+    upstreamFetch("tts", TTS_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text, voice, language }),
+      signal,
+    })
+  );
+
+  if (!res.ok) {
+    const errorText = await res.text().catch(() => "");
+    logger.error("TTS backend returned non-OK status", {
+      status: res.status,
+      body: errorText,
+    });
+    throw new ApiError("UPSTREAM_ERROR", "TTS backend error", {
+      details: { backendStatus: res.status, backendDetail: errorText },
+    });
+  }
+
+  const contentType = res.headers.get("content-type") ?? "";
+  if (!contentType.startsWith("audio/")) {
+    await res.body?.cancel().catch(() => {});
+    logger.error("TTS backend returned non-audio content", { contentType });
+    throw new ApiError("UPSTREAM_ERROR", "Invalid response from TTS backend");
+  }
+
+  const audio = await res.arrayBuffer();
+  if (audio.byteLength === 0) {
+    throw new ApiError("UPSTREAM_ERROR", "TTS backend returned empty audio");
+  }
+
+  const result: SpeechAudio = { audio, contentType };
+  const limit = cacheLimit();
+  if (limit > 0) {
+    cache.set(key, result);
+    while (cache.size > limit) {
+      cache.delete(cache.keys().next().value!);
+    }
+  }
+  return result;
+}
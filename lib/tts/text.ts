@@ -0,0 +1,45 @@
+// lib/tts/text.ts
+// Text helpers shared by /api/tts and the browser player.
+import { DETECTION_MIN_CONFIDENCE, detectLanguage } from "@/lib/language/detect";
+import type { LanguageId } from "@/lib/language/languages";
+
+// Language to speak a reply in: the one it was written for, else whatever
+// the text looks like, else English (Singlish replies read fine that way)
+export function resolveSpeechLanguage(
+  text: string,
+  language?: LanguageId | null
+): LanguageId {
+  if (language) return language;
+  const detected = detectLanguage(text);
+  return detected && detected.confidence >= DETECTION_MIN_CONFIDENCE
+    ? detected.language
+    : "english";
+}
+
+// Split a reply into chunks of at most `maxChars`, breaking after sentence
+// punctuation (Latin or CJK) where possible so each chunk sounds natural.
+export function splitForSpeech(text: string, maxChars: number): string[] {
+  const sentences =
+    text
+      .replace(/\s+/g, " ")
+      .trim()
+      .match(/[^.!?\u3002\uff01\uff1f\uff1b;]+[.!?\u3002\uff01\uff1f\uff1b;]*\s*/g) ?? [];
+
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const sentence of sentences) {
+    // A single run-on sentence longer than the limit is cut hard
+    for (let i = 0; i < sentence.length; i += maxChars) {
+      const piece = sentence.slice(i, i + maxChars);
+      if (current.length + piece.length > maxChars) {
+        if (current.trim()) chunks.push(current.trim());
+        current = "";
+      }
+      current += piece;
+    }
+  }
+  if (current.trim()) chunks.push(current.trim());
+
+  return chunks;
+}
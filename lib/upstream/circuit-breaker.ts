@@ -0,0 +1,68 @@
+// lib/upstream/circuit-breaker.ts
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type CircuitBreaker = {
+  // false while open: callers should fail fast without calling the backend
+  allowRequest(): boolean;
+  recordSuccess(): void;
+  recordFailure(): void;
+  // Request ended without telling us anything (caller aborted)
+  recordAbandoned(): void;
+  state(): CircuitState;
+  // Milliseconds until an open circuit lets a trial request through
+  retryInMs(): number;
+};
+
+// Classic three-state breaker: after `failureThreshold` consecutive failures
+// the circuit opens for `cooldownMs`, then lets one trial request through.
+export function createCircuitBreaker(options: {
+  failureThreshold: number;
+  cooldownMs: number;
+}): CircuitBreaker {
+  let failures = 0;
+  let openedAt: number | null = null;
+  let trialInFlight = false;
+
+  const currentState = (): CircuitState => {
+    if (openedAt === null) return "closed";
+    return Date.now() - openedAt >= options.cooldownMs ? "half-open" : "open";
+  };
+
+  return {
+    allowRequest() {
+      const state = currentState();
+      if (state === "closed") return true;
+      if (state === "open" || trialInFlight) return false;
+      trialInFlight = true;
+      return true;
+    },
+
+    recordSuccess() {
+      failures = 0;
+      openedAt = null;
+      trialInFlight = false;
+    },
+
+    recordFailure() {
+      failures++;
+      trialInFlight = false;
+      if (openedAt !== null || failures >= options.failureThreshold) {
+        // A failed trial re-opens the circuit for another cooldown
+        openedAt = Date.now();
+      }
+    },
+
+    recordAbandoned() {
+      trialInFlight = false;
+    },
+
+    state: currentState,
+
+    retryInMs() {
+      return openedAt === null
+        ? 0
+        : Math.max(0, options.cooldownMs - (Date.now() - openedAt));
+    },
+  };
+}
@@ -0,0 +1,202 @@
+// lib/upstream/index.ts
+import { createCircuitBreaker, type CircuitBreaker } from "./circuit-breaker";
+
+export type { CircuitState } from "./circuit-breaker";
+
+// Backends the app proxies to
+export type UpstreamName = "llm" | "asr" | "tts";
+
+export type UpstreamErrorKind = "timeout" | "unreachable" | "circuit_open";
+
+// Transport-level failure talking to a backend. HTTP error responses are
+// not thrown; callers inspect `res.ok` as usual.
+export class UpstreamError extends Error {
+  readonly upstream: UpstreamName;
+  readonly kind: UpstreamErrorKind;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    upstream: UpstreamName,
+    kind: UpstreamErrorKind,
+    message: string,
+    options?: { retryAfterMs?: number; cause?: unknown }
+  ) {
+    super(message, { cause: options?.cause });
+    this.name = "UpstreamError";
+    this.upstream = upstream;
+    this.kind = kind;
+    this.retryAfterMs = options?.retryAfterMs;
+  }
+}
+
+export type UpstreamConfig = {
+  // Whole exchange, including reading a streamed body
+  timeoutMs: number;
+  retries: number;
+  retryBaseDelayMs: number;
+  circuitFailureThreshold: number;
+  circuitCooldownMs: number;
+};
+
+const DEFAULTS: Record<UpstreamName, UpstreamConfig> = {
+  llm: {
+    timeoutMs: 90_000,
+    retries: 2,
+    retryBaseDelayMs: 300,
+    circuitFailureThreshold: 5,
+    circuitCooldownMs: 30_000,
+  },
+  asr: {
+    timeoutMs: 30_000,
+    retries: 2,
+    retryBaseDelayMs: 300,
+    circuitFailureThreshold: 5,
+    circuitCooldownMs: 30_000,
+  },
+  tts: {
+    timeoutMs: 20_000,
+    retries: 2,
+    retryBaseDelayMs: 300,
+    circuitFailureThreshold: 5,
+    circuitCooldownMs: 30_000,
+  },
+};
+
+// Status codes worth retrying: the backend (or its proxy) is momentarily down
+const RETRYABLE_STATUS = new Set([502, 503, 504]);
+
+const breakers = new Map<UpstreamName, CircuitBreaker>();
+
+// Defaults, overridable per backend, e.g. LLM_TIMEOUT_MS, ASR_RETRIES
+export function getUpstreamConfig(upstream: UpstreamName): UpstreamConfig {
+  const prefix = upstream.toUpperCase();
+  const defaults = DEFAULTS[upstream];
+  const read = (name: string, fallback: number) => {
+    const value = Number.parseInt(process.env[`${prefix}_${name}`] ?? "", 10);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+
+  return {
+    timeoutMs: read("TIMEOUT_MS", defaults.timeoutMs),
+    retries: read("RETRIES", defaults.retries),
+    retryBaseDelayMs: read("RETRY_BASE_DELAY_MS", defaults.retryBaseDelayMs),
+    circuitFailureThreshold: read("CIRCUIT_FAILURES", defaults.circuitFailureThreshold),
+    circuitCooldownMs: read("CIRCUIT_COOLDOWN_MS", defaults.circuitCooldownMs),
+  };
+}
+
+export function getCircuitBreaker(upstream: UpstreamName): CircuitBreaker {
+  let breaker = breakers.get(upstream);
+  if (!breaker) {
+    const config = getUpstreamConfig(upstream);
+    breaker = createCircuitBreaker({
+      failureThreshold: config.circuitFailureThreshold,
+      cooldownMs: config.circuitCooldownMs,
+    });
+    breakers.set(upstream, breaker);
+  }
+  return breaker;
+}
+
+// fetch() with a timeout, bounded retries with exponential backoff for
+// unreachable / 502-504 backends, and a per-backend circuit breaker.
+// The caller's own abort (user pressed Stop) is never retried or counted.
+// Requests that must not be sent twice pass `retries: 0`.
+export async function upstreamFetch(
+  upstream: UpstreamName,
+  url: string,
+  init: RequestInit = {},
+  options: { retries?: number } = {}
+): Promise<Response> {
+  const config = {
+    ...getUpstreamConfig(upstream),
+    ...(options.retries !== undefined && { retries: options.retries }),
+  };
+  const breaker = getCircuitBreaker(upstream);
+  const callerSignal = init.signal ?? undefined;
+
+  for (let attempt = 0; ; attempt++) {
+    if (!breaker.allowRequest()) {
+      throw new UpstreamError(
+        upstream,
+        "circuit_open",
+        `${upstream.toUpperCase()} backend is temporarily unavailable`,
+        { retryAfterMs: breaker.retryInMs() }
+      );
+    }
+
+    const timeoutSignal = AbortSignal.timeout(config.timeoutMs);
+    const signal = callerSignal
+      ? AbortSignal.any([callerSignal, timeoutSignal])
+      : timeoutSignal;
+
+    let failure: UpstreamError;
+    try {
+      const res = await fetch(url, { ...init, signal });
+      if (res.status < 500) {
+        breaker.recordSuccess();
+        return res;
+      }
+      if (attempt >= config.retries || !RETRYABLE_STATUS.has(res.status)) {
+        breaker.recordFailure();
+        return res;
+      }
+      // Drain before retrying so the connection can be reused
+      await res.body?.cancel().catch(() => {});
+      breaker.recordAbandoned();
+      await backoff(config, attempt, callerSignal);
+      continue;
+    } catch (err) {
+      if (callerSignal?.aborted) {
+        breaker.recordAbandoned();
+        throw err;
+      }
+
+      failure = timeoutSignal.aborted
+        ? new UpstreamError(
+            upstream,
+            "timeout",
+            `${upstream.toUpperCase()} backend did not respond within ${Math.round(config.timeoutMs / 1000)}s`,
+            { cause: err }
+          )
+        : new UpstreamError(
+            upstream,
+            "unreachable",
+            `${upstream.toUpperCase()} backend is unreachable`,
+            { cause: err }
+          );
+    }
+
+    // Timeouts are not retried: the caller has already waited long enough.
+    // The breaker counts one failure per call, not per attempt.
+    if (failure.kind === "timeout" || attempt >= config.retries) {
+      breaker.recordFailure();
+      throw failure;
+    }
+    breaker.recordAbandoned();
+    await backoff(config, attempt, callerSignal);
+  }
+}
+
+// True for the DOMException fetch/stream readers throw when a timeout
+// signal fires mid-body (after upstreamFetch already returned)
+export function isTimeoutAbort(err: unknown): boolean {
+  return err instanceof Error && err.name === "TimeoutError";
+}
+
+function backoff(config: UpstreamConfig, attempt: number, signal?: AbortSignal) {
+  // Exponential with jitter: ~base, ~2x base, ~4x base...
+  const delay =
+    config.retryBaseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5);
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,51 @@
+// lib/voice/format.ts
+// Recording formats shared by the browser recorder and /api/asr.
+
+// MediaRecorder types in order of preference: Chrome and Firefox record
+// WebM/Ogg Opus, Safari only MP4/AAC
+export const RECORDER_MIME_TYPES = [
+  "audio/webm;codecs=opus",
+  "audio/ogg;codecs=opus",
+  "audio/mp4;codecs=mp4a.40.2",
+  "audio/mp4",
+  "audio/webm",
+];
+
+const EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "video/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mp4": "m4a",
+  "audio/x-m4a": "m4a",
+  "audio/aac": "aac",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+};
+
+// First type this browser can record ("" leaves it to the browser)
+export function pickRecorderMimeType(): string {
+  if (
+    typeof MediaRecorder === "undefined" ||
+    typeof MediaRecorder.isTypeSupported !== "function"
+  ) {
+    return "";
+  }
+  return RECORDER_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? "";
+}
+
+// MediaRecorder in the best supported format
+export function createRecorder(stream: MediaStream): MediaRecorder {
+  const mimeType = pickRecorderMimeType();
+  return new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+}
+
+// What the recorder actually produces; older Safari leaves mimeType empty
+export function recorderMimeType(recorder: MediaRecorder): string {
+  return recorder.mimeType || pickRecorderMimeType() || "audio/webm";
+}
+
+// File extension for an audio MIME type (codecs parameter ignored)
+export function audioFileExtension(mimeType: string): string {
+  return EXTENSIONS[mimeType.split(";")[0].trim().toLowerCase()] ?? "webm";
+}
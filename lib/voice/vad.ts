@@ -0,0 +1,91 @@
+// lib/voice/vad.ts
+// Energy-based voice activity detection over the 0–1 mic level the page
+// already computes for its volume meter.
+
+export type VadEvent = "speech_start" | "speech_end";
+
+export type VadOptions = {
+  // Level above which a frame counts as speech
+  threshold: number;
+  // Speech must last this long before it counts (ignores coughs, clicks)
+  minSpeechMs: number;
+  // Quiet this long after speech ends the utterance; seniors pause
+  // mid-sentence, so this is generous
+  silenceMs: number;
+  // Cut off an utterance that never goes quiet (TV in the background)
+  maxUtteranceMs: number;
+};
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  threshold: 0.08,
+  minSpeechMs: 250,
+  silenceMs: 1200,
+  maxUtteranceMs: 30_000,
+};
+
+export type VoiceActivityDetector = {
+  // Feed one level sample; returns an event when the state changes.
+  // `threshold` overrides the default, e.g. higher while a reply plays.
+  update(level: number, now: number, threshold?: number): VadEvent | null;
+  readonly speaking: boolean;
+  reset(): void;
+};
+
+export function createVoiceActivityDetector(
+  options: Partial<VadOptions> = {}
+): VoiceActivityDetector {
+  const config = { ...DEFAULT_VAD_OPTIONS, ...options };
+
+  let speaking = false;
+  // First loud frame of a possible utterance (null while quiet)
+  let loudSince: number | null = null;
+  let quietSince: number | null = null;
+  let speechStartedAt = 0;
+
+  function reset() {
+    speaking = false;
+    loudSince = null;
+    quietSince = null;
+  }
+
+  return {
+    get speaking() {
+      return speaking;
+    },
+
+    reset,
+
+    update(level, now, threshold = config.threshold) {
+      const loud = level >= threshold;
+
+      if (!speaking) {
+        if (!loud) {
+          loudSince = null;
+          return null;
+        }
+        loudSince ??= now;
+        if (now - loudSince < config.minSpeechMs) return null;
+
+        speaking = true;
+        speechStartedAt = loudSince;
+        quietSince = null;
+        return "speech_start";
+      }
+
+      if (now - speechStartedAt >= config.maxUtteranceMs) {
+        reset();
+        return "speech_end";
+      }
+
+      if (loud) {
+        quietSince = null;
+        return null;
+      }
+      quietSince ??= now;
+      if (now - quietSince < config.silenceMs) return null;
+
+      reset();
+      return "speech_end";
+    },
+  };
+}